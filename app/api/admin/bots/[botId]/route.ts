@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { slashCommandService } from '@/lib/chat/slash-command-service';
+import { getAuditContext } from '@/lib/audit';
+
+// DELETE /api/admin/bots/[botId] - Remove a bot and its commands (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { botId: string } }
+) {
+  try {
+    const session = await requireAdmin(request);
+
+    await slashCommandService.removeBot(params.botId, session.user.id, getAuditContext(request));
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error removing bot:', error);
+
+    if (error instanceof Error && error.message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (error instanceof Error && error.message === 'Bot not found') {
+      return NextResponse.json({ error: 'Bot not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { slashCommandService } from '@/lib/chat/slash-command-service';
+import { getAuditContext } from '@/lib/audit';
+import { registerBotSchema } from '@/lib/validations/chat';
+import { z } from 'zod';
+
+function errorResponse(error: unknown) {
+  if (error instanceof Error && error.message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof Error && error.message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (error instanceof Error && error.message === 'Command name is taken') {
+    return NextResponse.json({ error: 'Command name is taken' }, { status: 409 });
+  }
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 });
+  }
+
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// GET /api/admin/bots - Registered bots and their commands (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const bots = await slashCommandService.listBots();
+
+    return NextResponse.json({ bots });
+
+  } catch (error) {
+    console.error('Error listing bots:', error);
+    return errorResponse(error);
+  }
+}
+
+// POST /api/admin/bots - Register a bot; the response holds its signing secret (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAdmin(request);
+
+    const body = await request.json();
+    const input = registerBotSchema.parse(body);
+
+    const bot = await slashCommandService.registerBot(session.user.id, input, getAuditContext(request));
+
+    return NextResponse.json({ bot }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error registering bot:', error);
+    return errorResponse(error);
+  }
+}
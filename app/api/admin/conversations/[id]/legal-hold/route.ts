@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { retentionService } from '@/lib/chat/retention-service';
+import { getAuditContext } from '@/lib/audit';
+import { legalHoldSchema } from '@/lib/validations/chat';
+import { z } from 'zod';
+
+function errorResponse(error: unknown) {
+  if (error instanceof Error && error.message === "UNAUTHORIZED") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (error instanceof Error && error.message === "FORBIDDEN") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (error instanceof Error && error.message === 'Conversation not found') {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 });
+  }
+
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// PUT /api/admin/conversations/[id]/legal-hold - Place a conversation on legal hold (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAdmin(request);
+
+    const body = await request.json();
+    const { reason } = legalHoldSchema.parse(body);
+
+    const conversation = await retentionService.setLegalHold(params.id, session.user.id, reason, getAuditContext(request));
+
+    return NextResponse.json({ conversation });
+
+  } catch (error) {
+    console.error('Error setting legal hold:', error);
+    return errorResponse(error);
+  }
+}
+
+// DELETE /api/admin/conversations/[id]/legal-hold - Release a legal hold (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requireAdmin(request);
+
+    const conversation = await retentionService.setLegalHold(params.id, session.user.id, null, getAuditContext(request));
+
+    return NextResponse.json({ conversation });
+
+  } catch (error) {
+    console.error('Error releasing legal hold:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { retentionService } from '@/lib/chat/retention-service';
+
+// GET /api/admin/retention - Current retention policy and a dry-run report (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const [policy, report] = await Promise.all([
+      retentionService.getPolicy(),
+      retentionService.report()
+    ]);
+
+    return NextResponse.json({
+      policy,
+      report: report.filter(entry => entry.expiredMessages > 0)
+    });
+
+  } catch (error) {
+    console.error('Error building retention report:', error);
+
+    if (error instanceof Error && error.message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { asc } from 'drizzle-orm';
+import { settings, auditLogs } from '@/db/schema';
+import { requireAdmin } from '@/lib/auth';
+import { setSetting, SETTING_KEYS } from '@/lib/settings';
+import { retentionPolicySchema } from '@/lib/validations/chat';
+import { rateLimitSettingSchema } from '@/lib/socket/rate-limiter';
+import { z } from 'zod';
+
+const updateSettingSchema = z.object({
+  key: z.string().min(1).max(255),
+  value: z.unknown().refine(value => value !== undefined, 'Value is required'),
+  description: z.string().max(1000).optional()
+});
+
+// Values of the well-known settings are checked before they are stored, so
+// a malformed value is rejected instead of being ignored when it is read
+const settingValueSchemas: Record<string, z.ZodType> = {
+  [SETTING_KEYS.messageEditWindowMinutes]: z.number().int().min(0),
+  [SETTING_KEYS.socketRateLimits]: rateLimitSettingSchema,
+  [SETTING_KEYS.messageRetention]: retentionPolicySchema
+};
+
+// GET /api/admin/settings - Get all system settings (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const allSettings = await db.select()
+      .from(settings)
+      .orderBy(asc(settings.key));
+
+    return NextResponse.json({ settings: allSettings });
+
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+
+    if (error instanceof Error && error.message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/settings - Create or update a system setting (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requireAdmin(request);
+
+    const body = await request.json();
+    const { key, value, description } = updateSettingSchema.parse(body);
+    settingValueSchemas[key]?.parse(value);
+
+    const setting = await setSetting(key, value, description);
+
+    // Log the action
+    await db.insert(auditLogs).values({
+      actorId: session.user.id,
+      action: 'setting.updated',
+      target: `setting:${key}`,
+      metadata: { value },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown'
+    });
+
+    return NextResponse.json({ setting });
+
+  } catch (error) {
+    console.error('Error updating setting:', error);
+
+    if (error instanceof Error && error.message === "UNAUTHORIZED") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
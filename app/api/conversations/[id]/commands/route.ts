@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { slashCommandService } from '@/lib/chat/slash-command-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { runCommandSchema } from '@/lib/validations/chat';
+
+// GET /api/conversations/[id]/commands - Slash commands for composer autocomplete
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const commands = await slashCommandService.listCommands(params.id, session.user.id);
+
+    return NextResponse.json({ commands });
+
+  } catch (error) {
+    console.error('Error listing commands:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// POST /api/conversations/[id]/commands - Run a slash command
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = runCommandSchema.parse(body);
+
+    const result = await slashCommandService.runCommand(params.id, session.user.id, input);
+
+    return NextResponse.json({ result });
+
+  } catch (error) {
+    console.error('Error running command:', error);
+    return chatErrorResponse(error);
+  }
+}
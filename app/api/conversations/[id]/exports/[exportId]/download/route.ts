@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { exportService } from '@/lib/chat/export-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { getAuditContext } from '@/lib/audit';
+
+// GET /api/conversations/[id]/exports/[exportId]/download - Presigned download URL of a finished export
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; exportId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const download = await exportService.getDownloadUrl(params.id, params.exportId, session.user.id, getAuditContext(request));
+
+    return NextResponse.json(download);
+
+  } catch (error) {
+    console.error('Error generating export download URL:', error);
+    return chatErrorResponse(error);
+  }
+}
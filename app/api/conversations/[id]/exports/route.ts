@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { exportService } from '@/lib/chat/export-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { getAuditContext } from '@/lib/audit';
+import { createExportSchema } from '@/lib/validations/chat';
+
+// GET /api/conversations/[id]/exports - Recent exports of a conversation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const exports = await exportService.listExports(params.id, session.user.id);
+
+    return NextResponse.json({ exports });
+
+  } catch (error) {
+    console.error('Error fetching conversation exports:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// POST /api/conversations/[id]/exports - Queue an export (JSON, MARKDOWN or HTML)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { format } = createExportSchema.parse(body);
+
+    const conversationExport = await exportService.requestExport(params.id, session.user.id, format, getAuditContext(request));
+
+    return NextResponse.json({ export: conversationExport }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error requesting conversation export:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { forwardService } from '@/lib/chat/forward-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { forwardMessagesSchema } from '@/lib/validations/chat';
+
+// POST /api/conversations/[id]/forward - Forward messages into this conversation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = forwardMessagesSchema.parse(body);
+
+    const messages = await forwardService.forwardMessages(params.id, session.user.id, input);
+
+    return NextResponse.json({ messages }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error forwarding messages:', error);
+    return chatErrorResponse(error);
+  }
+}
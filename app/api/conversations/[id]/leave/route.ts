@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { conversationService } from '@/lib/chat/conversation-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+
+// POST /api/conversations/[id]/leave - Leave a group
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await conversationService.leave(params.id, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Left conversation successfully'
+    });
+
+  } catch (error) {
+    console.error('Error leaving conversation:', error);
+    return chatErrorResponse(error);
+  }
+}
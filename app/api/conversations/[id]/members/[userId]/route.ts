@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { conversationService } from '@/lib/chat/conversation-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { updateMemberRoleSchema } from '@/lib/validations/chat';
+
+// PATCH /api/conversations/[id]/members/[userId] - Change a member's role (group admins)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { role } = updateMemberRoleSchema.parse(body);
+
+    const member = await conversationService.updateMemberRole(params.id, session.user.id, params.userId, role);
+
+    return NextResponse.json({ member });
+
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// DELETE /api/conversations/[id]/members/[userId] - Remove a member (group admins), or leave
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await conversationService.removeMember(params.id, session.user.id, params.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Error removing member:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { conversationService } from '@/lib/chat/conversation-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { addMembersSchema } from '@/lib/validations/chat';
+
+// GET /api/conversations/[id]/members - List active members
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const members = await conversationService.listMembers(params.id, session.user.id);
+
+    return NextResponse.json({ members });
+
+  } catch (error) {
+    console.error('Error fetching members:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// POST /api/conversations/[id]/members - Add members to a group (group admins)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { userIds } = addMembersSchema.parse(body);
+
+    const members = await conversationService.addMembers(params.id, session.user.id, userIds);
+
+    return NextResponse.json({ members }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error adding members:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { pinService } from '@/lib/chat/pin-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+
+// POST /api/conversations/[id]/messages/[messageId]/pin - Pin a message
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const pin = await pinService.pinMessage(params.id, params.messageId, session.user.id);
+
+    return NextResponse.json({ pin });
+
+  } catch (error) {
+    console.error('Error pinning message:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// DELETE /api/conversations/[id]/messages/[messageId]/pin - Unpin a message
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await pinService.unpinMessage(params.id, params.messageId, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Message unpinned successfully'
+    });
+
+  } catch (error) {
+    console.error('Error unpinning message:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { reactionService } from '@/lib/chat/reaction-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { reactionSchema } from '@/lib/validations/chat';
+
+// POST /api/conversations/[id]/messages/[messageId]/reactions - Add a reaction
+// REST fallback for clients without a socket connection
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { emoji } = reactionSchema.parse(body);
+
+    const reaction = await reactionService.addReaction({
+      conversationId: params.id,
+      messageId: params.messageId,
+      userId: session.user.id,
+      emoji
+    });
+
+    return NextResponse.json({ reaction }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error adding reaction:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// DELETE /api/conversations/[id]/messages/[messageId]/reactions?emoji=... - Remove a reaction
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { emoji } = reactionSchema.parse({ emoji: searchParams.get('emoji') });
+
+    const reaction = await reactionService.removeReaction({
+      conversationId: params.id,
+      messageId: params.messageId,
+      userId: session.user.id,
+      emoji
+    });
+
+    return NextResponse.json({ reaction });
+
+  } catch (error) {
+    console.error('Error removing reaction:', error);
+    return chatErrorResponse(error);
+  }
+}
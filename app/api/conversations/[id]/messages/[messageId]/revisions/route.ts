@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { messageService } from '@/lib/chat/message-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+
+// GET /api/conversations/[id]/messages/[messageId]/revisions - Get a message's edit history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const revisions = await messageService.listRevisions(params.id, params.messageId, session.user.id);
+
+    return NextResponse.json({ revisions });
+
+  } catch (error) {
+    console.error('Error fetching message revisions:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { messageService } from '@/lib/chat/message-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { editMessageSchema } from '@/lib/validations/chat';
+
+// PATCH /api/conversations/[id]/messages/[messageId] - Edit a message
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { content } = editMessageSchema.parse(body);
+
+    const message = await messageService.editMessage({
+      conversationId: params.id,
+      messageId: params.messageId,
+      userId: session.user.id,
+      content
+    });
+
+    return NextResponse.json({ message });
+
+  } catch (error) {
+    console.error('Error editing message:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// DELETE /api/conversations/[id]/messages/[messageId] - Delete a message
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await messageService.deleteMessage(params.id, params.messageId, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Message deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting message:', error);
+    return chatErrorResponse(error);
+  }
+}
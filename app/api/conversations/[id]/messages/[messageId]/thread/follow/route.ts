@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { threadService } from '@/lib/chat/thread-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+
+// PUT /api/conversations/[id]/messages/[messageId]/thread/follow - Follow a thread
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await threadService.setFollowing(params.id, params.messageId, session.user.id, true);
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error following thread:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// DELETE /api/conversations/[id]/messages/[messageId]/thread/follow - Unfollow a thread
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await threadService.setFollowing(params.id, params.messageId, session.user.id, false);
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error unfollowing thread:', error);
+    return chatErrorResponse(error);
+  }
+}
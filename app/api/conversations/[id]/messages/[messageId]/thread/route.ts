@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { messageService } from '@/lib/chat/message-service';
+import { threadService } from '@/lib/chat/thread-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { listThreadQuerySchema } from '@/lib/validations/chat';
+
+// GET /api/conversations/[id]/messages/[messageId]/thread - Get a thread's replies
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = listThreadQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const thread = await messageService.listThread({
+      ...query,
+      conversationId: params.id,
+      messageId: params.messageId,
+      userId: session.user.id
+    });
+
+    const isFollowing = await threadService.isFollowing(params.messageId, session.user.id);
+
+    return NextResponse.json({
+      root: thread.root,
+      messages: thread.messages,
+      pageInfo: thread.pageInfo,
+      isFollowing
+    });
+
+  } catch (error) {
+    console.error('Error fetching thread:', error);
+    return chatErrorResponse(error);
+  }
+}
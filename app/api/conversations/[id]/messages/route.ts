@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { eq, and, desc } from 'drizzle-orm';
-import { messages, conversations, conversationMembers } from '@/db/schema';
 import { getSessionFromRequest } from '@/lib/auth';
+import { messageService } from '@/lib/chat/message-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { sendMessageSchema, listMessagesQuerySchema } from '@/lib/validations/chat';
 
 // GET /api/conversations/[id]/messages - Get messages in a conversation
+// Supports opaque cursors (`cursor` + `direction`) and jumping to a message
+// with `before`, `after` or `around` a message ID.
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -17,58 +19,23 @@ export async function GET(
 
     const conversationId = params.id;
     const { searchParams } = new URL(request.url);
-    const cursor = searchParams.get('cursor');
-    const limit = parseInt(searchParams.get('limit') || '50');
+    const query = listMessagesQuerySchema.parse(Object.fromEntries(searchParams));
 
-    // Verify user is member of conversation
-    const membership = await db.select()
-      .from(conversationMembers)
-      .where(and(
-        eq(conversationMembers.conversationId, conversationId),
-        eq(conversationMembers.userId, session.user.id),
-        eq(conversationMembers.hasLeft, false)
-      ))
-      .limit(1);
-
-    if (!membership.length) {
-      return NextResponse.json({ error: 'Not a member of this conversation' }, { status: 403 });
-    }
-
-    // Build query
-    let query = db.select({
-      id: messages.id,
-      conversationId: messages.conversationId,
-      senderId: messages.senderId,
-      bodyRich: messages.bodyRich,
-      bodyPlain: messages.bodyPlain,
-      isEdited: messages.isEdited,
-      editedAt: messages.editedAt,
-      replyToId: messages.replyToId,
-      createdAt: messages.createdAt
-    })
-    .from(messages)
-    .where(eq(messages.conversationId, conversationId))
-    .orderBy(desc(messages.createdAt))
-    .limit(limit);
-
-    // Add cursor if provided
-    if (cursor) {
-      query = query.where(and(
-        eq(messages.conversationId, conversationId),
-        // Note: In a real implementation, you'd need to parse the cursor and use it properly
-      ));
-    }
-
-    const conversationMessages = await query;
+    const page = await messageService.listMessages({
+      ...query,
+      conversationId,
+      userId: session.user.id
+    });
 
     return NextResponse.json({
-      messages: conversationMessages.reverse(), // Reverse to get chronological order
-      hasMore: conversationMessages.length === limit
+      messages: page.messages,
+      pageInfo: page.pageInfo,
+      hasMore: page.pageInfo.hasOlder
     });
 
   } catch (error) {
     console.error('Error fetching messages:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return chatErrorResponse(error);
   }
 }
 
@@ -85,47 +52,19 @@ export async function POST(
 
     const conversationId = params.id;
     const body = await request.json();
-    const { content, replyToId } = body;
+    const validatedData = sendMessageSchema.parse(body);
 
-    if (!content) {
-      return NextResponse.json({ error: 'Message content is required' }, { status: 400 });
-    }
-
-    // Verify user is member of conversation
-    const membership = await db.select()
-      .from(conversationMembers)
-      .where(and(
-        eq(conversationMembers.conversationId, conversationId),
-        eq(conversationMembers.userId, session.user.id),
-        eq(conversationMembers.hasLeft, false)
-      ))
-      .limit(1);
-
-    if (!membership.length) {
-      return NextResponse.json({ error: 'Not a member of this conversation' }, { status: 403 });
-    }
-
-    // Create message
-    const [newMessage] = await db.insert(messages).values({
+    // Persist and broadcast through the shared message pipeline
+    const newMessage = await messageService.createMessage({
+      ...validatedData,
       conversationId,
-      senderId: session.user.id,
-      bodyRich: content,
-      bodyPlain: typeof content === 'string' ? content : JSON.stringify(content), // Extract plain text for search
-      replyToId: replyToId || null
-    }).returning();
-
-    // Update conversation's last message time
-    await db.update(conversations)
-      .set({ lastMessageAt: new Date(), updatedAt: new Date() })
-      .where(eq(conversations.id, conversationId));
-
-    // TODO: Emit real-time event via Socket.IO
-    // socketService.emitToConversation(conversationId, 'message:new', newMessage);
+      senderId: session.user.id
+    });
 
     return NextResponse.json({ message: newMessage }, { status: 201 });
 
   } catch (error) {
     console.error('Error sending message:', error);
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return chatErrorResponse(error);
   }
-}
\ No newline at end of file
+}
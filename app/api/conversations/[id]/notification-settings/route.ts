@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { notificationSettingsService } from '@/lib/chat/notification-settings-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { updateNotificationSettingsSchema } from '@/lib/validations/chat';
+
+// GET /api/conversations/[id]/notification-settings - The current user's notification settings
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const settings = await notificationSettingsService.getSettings(params.id, session.user.id);
+
+    return NextResponse.json({ settings });
+
+  } catch (error) {
+    console.error('Error fetching notification settings:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// PATCH /api/conversations/[id]/notification-settings - Change the level, or mute until a time
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = updateNotificationSettingsSchema.parse(body);
+
+    const settings = await notificationSettingsService.updateSettings(params.id, session.user.id, input);
+
+    return NextResponse.json({ settings });
+
+  } catch (error) {
+    console.error('Error updating notification settings:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { pinService } from '@/lib/chat/pin-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+
+// GET /api/conversations/[id]/pins - Pinned messages, most recently pinned first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const pins = await pinService.listPins(params.id, session.user.id);
+
+    return NextResponse.json({ pins });
+
+  } catch (error) {
+    console.error('Error fetching pinned messages:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { pollService } from '@/lib/chat/poll-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+
+// GET /api/conversations/[id]/polls/[pollId] - Poll tallies and the current user's votes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; pollId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const state = await pollService.getPoll(params.id, params.pollId, session.user.id);
+
+    return NextResponse.json(state);
+
+  } catch (error) {
+    console.error('Error fetching poll:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { pollService } from '@/lib/chat/poll-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { pollVoteSchema } from '@/lib/validations/chat';
+
+// PUT /api/conversations/[id]/polls/[pollId]/votes - Set the current user's votes
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; pollId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { optionIds } = pollVoteSchema.parse(body);
+
+    const state = await pollService.vote(params.id, params.pollId, session.user.id, optionIds);
+
+    return NextResponse.json(state);
+
+  } catch (error) {
+    console.error('Error voting on poll:', error);
+    return chatErrorResponse(error);
+  }
+}
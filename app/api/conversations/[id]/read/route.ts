@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { readService } from '@/lib/chat/read-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { markReadSchema } from '@/lib/validations/chat';
+
+// GET /api/conversations/[id]/read - Get members' read positions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const receipts = await readService.getReadReceipts(params.id, session.user.id);
+
+    return NextResponse.json({ receipts });
+
+  } catch (error) {
+    console.error('Error fetching read receipts:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// POST /api/conversations/[id]/read - Mark messages as read
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { messageId } = markReadSchema.parse(body);
+
+    const receipt = await readService.markRead(params.id, session.user.id, messageId);
+
+    return NextResponse.json({ receipt });
+
+  } catch (error) {
+    console.error('Error marking conversation as read:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { conversationService } from '@/lib/chat/conversation-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { updateConversationSchema } from '@/lib/validations/chat';
+
+// GET /api/conversations/[id] - Get a conversation with its members
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const conversation = await conversationService.getConversation(params.id, session.user.id);
+
+    return NextResponse.json({ conversation });
+
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// PATCH /api/conversations/[id] - Rename a group or change its avatar (group admins)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = updateConversationSchema.parse(body);
+
+    const conversation = await conversationService.updateConversation(params.id, session.user.id, input);
+
+    return NextResponse.json({ conversation });
+
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { scheduledMessageService } from '@/lib/chat/scheduled-message-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { updateScheduledMessageSchema } from '@/lib/validations/chat';
+
+// PATCH /api/conversations/[id]/scheduled/[scheduledId] - Edit or reschedule a pending message
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; scheduledId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = updateScheduledMessageSchema.parse(body);
+
+    const scheduled = await scheduledMessageService.update(params.id, params.scheduledId, session.user.id, input);
+
+    return NextResponse.json({ scheduled });
+
+  } catch (error) {
+    console.error('Error updating scheduled message:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// DELETE /api/conversations/[id]/scheduled/[scheduledId] - Cancel a pending message
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; scheduledId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await scheduledMessageService.cancel(params.id, params.scheduledId, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Scheduled message cancelled'
+    });
+
+  } catch (error) {
+    console.error('Error cancelling scheduled message:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { scheduledMessageService } from '@/lib/chat/scheduled-message-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { scheduleMessageSchema } from '@/lib/validations/chat';
+
+// GET /api/conversations/[id]/scheduled - The current user's pending scheduled messages
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scheduled = await scheduledMessageService.listPending(params.id, session.user.id);
+
+    return NextResponse.json({ scheduled });
+
+  } catch (error) {
+    console.error('Error fetching scheduled messages:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// POST /api/conversations/[id]/scheduled - Schedule a message
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const input = scheduleMessageSchema.parse(body);
+
+    const scheduled = await scheduledMessageService.schedule(params.id, session.user.id, input);
+
+    return NextResponse.json({ scheduled }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error scheduling message:', error);
+    return chatErrorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSessionFromRequest } from '@/lib/auth';
+import { conversationService } from '@/lib/chat/conversation-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+
+// GET /api/conversations/dm/[userId] - Get or create the DM with a user (your own ID for notes)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = z.string().uuid().parse(params.userId);
+
+    const { conversation, created } = await conversationService.getOrCreateDirectConversation(
+      session.user.id,
+      userId
+    );
+
+    return NextResponse.json({ conversation, created }, { status: created ? 201 : 200 });
+
+  } catch (error) {
+    console.error('Error fetching DM conversation:', error);
+    return chatErrorResponse(error);
+  }
+}
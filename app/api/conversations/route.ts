@@ -3,6 +3,9 @@ import { db } from '@/lib/db';
 import { eq, and, desc, ilike, sql } from 'drizzle-orm';
 import { conversations, conversationMembers, users } from '@/db/schema';
 import { getSessionFromRequest } from '@/lib/auth';
+import { unreadCountSql, badgeCountSql, firstUnreadMessageIdSql } from '@/lib/chat/read-service';
+import { conversationService } from '@/lib/chat/conversation-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
 import { z } from 'zod';
 
 const createConversationSchema = z.object({
@@ -34,7 +37,16 @@ export async function GET(request: NextRequest) {
         lastMessageAt: conversations.lastMessageAt,
         createdAt: conversations.createdAt,
         updatedAt: conversations.updatedAt,
-        memberCount: sql<number>`count(${conversationMembers.userId})`.as('member_count')
+        memberCount: sql<number>`(
+          select count(*)::int from ${conversationMembers} cm
+          where cm.conversation_id = ${conversations.id} and cm.has_left = false
+        )`.as('member_count'),
+        lastReadMessageId: conversationMembers.lastReadMessageId,
+        unreadCount: unreadCountSql.as('unread_count'),
+        badgeCount: badgeCountSql().as('badge_count'), // Honors the member's notification settings
+        notificationLevel: conversationMembers.notificationLevel,
+        mutedUntil: conversationMembers.mutedUntil,
+        firstUnreadMessageId: firstUnreadMessageIdSql.as('first_unread_message_id')
       })
       .from(conversations)
       .innerJoin(
@@ -86,34 +98,24 @@ export async function POST(request: NextRequest) {
     // Ensure current user is included in members
     const allMemberIds = Array.from(new Set([session.user.id, ...memberIds]));
 
-    // For DM conversations, check if one already exists
-    if (type === 'DM' && allMemberIds.length === 2) {
-      const existingDM = await db
-        .select({ id: conversations.id })
-        .from(conversations)
-        .innerJoin(
-          conversationMembers,
-          eq(conversations.id, conversationMembers.conversationId)
-        )
-        .where(and(
-          eq(conversations.type, 'DM'),
-          eq(conversationMembers.userId, allMemberIds[0])
-        ))
-        .groupBy(conversations.id)
-        .having(sql`count(*) = 2`); // DM should have exactly 2 members
-
-      if (existingDM.length > 0) {
-        return NextResponse.json({
-          conversation: existingDM[0],
-          message: 'DM conversation already exists'
-        }, { status: 200 });
+    // DMs are looked up by their member pair; a DM with yourself is for notes
+    if (type === 'DM') {
+      if (allMemberIds.length > 2) {
+        return NextResponse.json({ error: 'A DM has at most two members' }, { status: 400 });
       }
+
+      const otherUserId = allMemberIds.find(id => id !== session.user.id) ?? session.user.id;
+      const { conversation, created } = await conversationService.getOrCreateDirectConversation(session.user.id, otherUserId);
+
+      return created
+        ? NextResponse.json({ conversation }, { status: 201 })
+        : NextResponse.json({ conversation, message: 'DM conversation already exists' }, { status: 200 });
     }
 
     // Create conversation
     const [newConversation] = await db.insert(conversations).values({
       type,
-      title: type === 'DM' ? null : title,
+      title,
       createdBy: session.user.id,
       projectId: projectId || null
     }).returning();
@@ -123,6 +125,7 @@ export async function POST(request: NextRequest) {
       allMemberIds.map(userId => ({
         conversationId: newConversation.id,
         userId,
+        role: userId === session.user.id ? 'ADMIN' as const : 'MEMBER' as const,
         joinedAt: new Date()
       }))
     );
@@ -134,11 +137,6 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Error creating conversation:', error);
-
-    if (error instanceof z.ZodError) {
-      return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 });
-    }
-
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return chatErrorResponse(error);
   }
 }
\ No newline at end of file
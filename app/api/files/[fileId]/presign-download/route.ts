@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { minioService } from '@/lib/storage/minio-client';
 import { getSessionFromRequest } from '@/lib/auth';
+import { canAccessAttachment } from '@/lib/chat/conversation-access';
 
 // GET /api/files/[fileId]/presign-download - Generate presigned download URL
 export async function GET(
@@ -30,7 +31,7 @@ export async function GET(
       fileInfo.uploaderId === session.user.id ||
       fileInfo.isPublic ||
       (fileInfo.projectId && await checkProjectMembership(session.user.id, fileInfo.projectId)) ||
-      (fileInfo.messageId && await checkConversationMembership(session.user.id, fileId));
+      await canAccessAttachment(fileId, session.user.id);
 
     if (!hasPermission) {
       return NextResponse.json({ error: 'Permission denied' }, { status: 403 });
@@ -62,10 +63,3 @@ async function checkProjectMembership(userId: string, projectId: string): Promis
   // In a real implementation, you'd check the project_members table
   return false;
 }
-
-// Helper function to check conversation membership (placeholder)
-async function checkConversationMembership(userId: string, fileId: string): Promise<boolean> {
-  // In a real implementation, you'd check the conversation_members table
-  // by joining through the attachments table
-  return false;
-}
\ No newline at end of file
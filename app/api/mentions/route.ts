@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { mentionService } from '@/lib/chat/mention-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { listMentionsQuerySchema } from '@/lib/validations/chat';
+
+// GET /api/mentions - Messages the current user was mentioned in, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = listMentionsQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const { mentions, nextCursor } = await mentionService.listMentions({
+      ...query,
+      userId: session.user.id
+    });
+
+    return NextResponse.json({ mentions, nextCursor, hasMore: nextCursor !== null });
+
+  } catch (error) {
+    console.error('Error fetching mentions:', error);
+    return chatErrorResponse(error, 'Failed to fetch mentions');
+  }
+}
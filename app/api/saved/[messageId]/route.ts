@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { savedItemService } from '@/lib/chat/saved-item-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { saveMessageSchema } from '@/lib/validations/chat';
+
+// PUT /api/saved/[messageId] - Save a message, or update its note and reminder
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const input = saveMessageSchema.parse(body);
+
+    const item = await savedItemService.saveMessage(session.user.id, params.messageId, input);
+
+    return NextResponse.json({ item });
+
+  } catch (error) {
+    console.error('Error saving message:', error);
+    return chatErrorResponse(error);
+  }
+}
+
+// DELETE /api/saved/[messageId] - Remove a message from saved items
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { messageId: string } }
+) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await savedItemService.removeSavedItem(session.user.id, params.messageId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Saved item removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Error removing saved item:', error);
+    return chatErrorResponse(error);
+  }
+}
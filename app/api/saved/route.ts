@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { savedItemService } from '@/lib/chat/saved-item-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { listSavedItemsQuerySchema } from '@/lib/validations/chat';
+
+// GET /api/saved - The current user's saved messages, most recently saved first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = listSavedItemsQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const { items, nextCursor } = await savedItemService.listSavedItems({
+      ...query,
+      userId: session.user.id
+    });
+
+    return NextResponse.json({ items, nextCursor, hasMore: nextCursor !== null });
+
+  } catch (error) {
+    console.error('Error fetching saved items:', error);
+    return chatErrorResponse(error, 'Failed to fetch saved items');
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { searchService } from '@/lib/chat/search-service';
+import { chatErrorResponse } from '@/lib/chat/errors';
+import { searchMessagesQuerySchema } from '@/lib/validations/chat';
+
+// GET /api/search/messages - Full-text search across the caller's conversations
+// Filters: senderId, conversationId, from/to (dates), hasAttachment, inThread
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSessionFromRequest(request);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = searchMessagesQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const { results, hasMore } = await searchService.searchMessages({
+      ...query,
+      userId: session.user.id
+    });
+
+    return NextResponse.json({ results, hasMore });
+
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    return chatErrorResponse(error, 'Failed to search messages');
+  }
+}
@@ -3,6 +3,12 @@
 import React, { useState, useEffect } from 'react';
 import { useParams } from 'next/navigation';
 import { MessageList } from '@/components/chat/message-list';
+import { ThreadPanel } from '@/components/chat/thread-panel';
+import { PinnedBanner } from '@/components/chat/pinned-banner';
+import { ScheduledMessages } from '@/components/chat/scheduled-messages';
+import { ForwardDialog } from '@/components/chat/forward-dialog';
+import { MessageComposer } from '@/components/chat/message-composer';
+import { NotificationSettingsMenu } from '@/components/chat/notification-settings-menu';
 import { PresenceIndicator } from '@/components/chat/presence-indicator';
 import { OnlineUsersList } from '@/components/chat/presence-indicator';
 import { AIAssistant } from '@/components/ai/ai-assistant';
@@ -11,62 +17,107 @@ import { useAuth } from '@/lib/auth-client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/radix-ui/card';
 import { Button } from '@/radix-ui/button';
 import { Badge } from '@/radix-ui/badge';
+import type { MemberRemovedEvent } from '@/types/realtime';
 
-interface Message {
+interface ConversationMember {
+  userId: string;
+  name: string;
+  avatarUrl: string | null;
+  role: 'ADMIN' | 'MEMBER';
+  joinedAt: string;
+}
+
+interface ConversationDetails {
   id: string;
-  conversationId: string;
-  senderId: string;
-  senderName: string;
-  content: any;
-  createdAt: string;
+  type: 'DM' | 'GROUP' | 'PROJECT';
+  title: string | null;
+  avatarUrl: string | null;
+  members: ConversationMember[];
 }
 
 export default function ChatPage() {
   const params = useParams();
   const conversationId = params.conversationId as string;
   const { user } = useAuth();
-  const { isConnected, onlineUsers } = useSocketContext();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { socket, isConnected, onlineUsers } = useSocketContext();
   const [isLoading, setIsLoading] = useState(true);
-  const [conversation, setConversation] = useState<any>(null);
+  const [conversation, setConversation] = useState<ConversationDetails | null>(null);
+  const [removedReason, setRemovedReason] = useState<MemberRemovedEvent['reason'] | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [forwardingMessageId, setForwardingMessageId] = useState<string | null>(null);
+
+  // Load the conversation and its members
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setRemovedReason(null);
+
+    fetch(`/api/conversations/${conversationId}`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => {
+        if (!cancelled) setConversation(data.conversation);
+      })
+      .catch(error => console.error('Failed to load conversation:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
 
-  // Mock conversation data
+  // Keep the member list and group settings up to date
   useEffect(() => {
-    // Simulate loading conversation data
-    setTimeout(() => {
-      setConversation({
-        id: conversationId,
-        title: conversationId === '1' ? 'General Chat' : 'Project Discussion',
-        type: 'GROUP',
+    if (!socket) return;
+
+    const handleMembersAdded = (data: { conversationId: string; members: ConversationMember[] }) => {
+      if (data.conversationId !== conversationId) return;
+      setConversation(prev => prev && {
+        ...prev,
         members: [
-          { id: '1', name: 'John Doe', role: 'admin' },
-          { id: '2', name: 'Jane Smith', role: 'member' },
-          { id: user?.id || '3', name: user?.name || 'You', role: 'member' }
+          ...prev.members.filter(m => !data.members.some(added => added.userId === m.userId)),
+          ...data.members
         ]
       });
+    };
+
+    const handleMemberRemoved = (data: MemberRemovedEvent) => {
+      if (data.conversationId !== conversationId) return;
+      if (data.userId === user?.id) {
+        setRemovedReason(data.reason);
+      }
+      setConversation(prev => prev && {
+        ...prev,
+        members: prev.members.filter(m => m.userId !== data.userId)
+      });
+    };
+
+    const handleMemberUpdated = (data: { conversationId: string; member: ConversationMember }) => {
+      if (data.conversationId !== conversationId) return;
+      setConversation(prev => prev && {
+        ...prev,
+        members: prev.members.map(m => m.userId === data.member.userId ? data.member : m)
+      });
+    };
+
+    const handleConversationUpdated = (data: { conversationId: string; title: string | null; avatarUrl: string | null }) => {
+      if (data.conversationId !== conversationId) return;
+      setConversation(prev => prev && { ...prev, title: data.title, avatarUrl: data.avatarUrl });
+    };
+
+    socket.on('conversation:member:added', handleMembersAdded);
+    socket.on('conversation:member:removed', handleMemberRemoved);
+    socket.on('conversation:member:updated', handleMemberUpdated);
+    socket.on('conversation:updated', handleConversationUpdated);
 
-      // Mock initial messages
-      setMessages([
-        {
-          id: '1',
-          conversationId,
-          senderId: '1',
-          senderName: 'John Doe',
-          content: { type: 'text', text: 'Welcome to the chat!' },
-          createdAt: new Date(Date.now() - 3600000).toISOString()
-        },
-        {
-          id: '2',
-          conversationId,
-          senderId: '2',
-          senderName: 'Jane Smith',
-          content: { type: 'text', text: 'Hey everyone! 👋' },
-          createdAt: new Date(Date.now() - 1800000).toISOString()
-        }
-      ]);
-      setIsLoading(false);
-    }, 1000);
-  }, [conversationId, user]);
+    return () => {
+      socket.off('conversation:member:added', handleMembersAdded);
+      socket.off('conversation:member:removed', handleMemberRemoved);
+      socket.off('conversation:member:updated', handleMemberUpdated);
+      socket.off('conversation:updated', handleConversationUpdated);
+    };
+  }, [socket, conversationId, user?.id]);
 
   if (!user) {
     return (
@@ -84,6 +135,14 @@ export default function ChatPage() {
     );
   }
 
+  if (removedReason) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <p>{removedReason === 'left' ? 'You left this conversation' : 'You were removed from this conversation'}</p>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen bg-background">
       {/* Sidebar */}
@@ -106,15 +165,15 @@ export default function ChatPage() {
             Conversation Members
           </h3>
           <div className="space-y-2">
-            {conversation?.members.map((member: any) => (
-              <div key={member.id} className="flex items-center gap-2">
+            {conversation?.members.map(member => (
+              <div key={member.userId} className="flex items-center gap-2">
                 <PresenceIndicator
-                  userId={member.id}
+                  userId={member.userId}
                   userName={member.name}
                   showStatus={false}
                 />
                 <span className="text-sm">{member.name}</span>
-                {member.role === 'admin' && (
+                {member.role === 'ADMIN' && (
                   <Badge variant="secondary" className="text-xs">
                     Admin
                   </Badge>
@@ -137,6 +196,7 @@ export default function ChatPage() {
               </p>
             </div>
             <div className="flex items-center gap-2">
+              <NotificationSettingsMenu conversationId={conversationId} />
               <PresenceIndicator
                 userId={user.id}
                 userName={user.name}
@@ -146,16 +206,43 @@ export default function ChatPage() {
           </div>
         </div>
 
+        {/* Pinned messages */}
+        <PinnedBanner conversationId={conversationId} />
+
+        {/* Messages waiting to be sent */}
+        <ScheduledMessages conversationId={conversationId} />
+
         {/* Messages */}
         <div className="flex-1">
           <MessageList
             conversationId={conversationId}
-            initialMessages={messages}
             currentUserId={user.id}
+            conversationType={conversation?.type}
+            onOpenThread={setOpenThreadId}
+            onForward={setForwardingMessageId}
           />
         </div>
+
+        {/* Composer */}
+        <MessageComposer conversationId={conversationId} />
       </div>
 
+      {/* Thread side panel */}
+      {openThreadId && (
+        <ThreadPanel
+          conversationId={conversationId}
+          rootMessageId={openThreadId}
+          onClose={() => setOpenThreadId(null)}
+        />
+      )}
+
+      {forwardingMessageId && (
+        <ForwardDialog
+          messageIds={[forwardingMessageId]}
+          onClose={() => setForwardingMessageId(null)}
+        />
+      )}
+
       {/* Connection Status Indicator */}
       {!isConnected && (
         <div className="fixed bottom-4 left-4 bg-destructive text-destructive-foreground px-4 py-2 rounded-lg shadow-lg">
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/radix-ui/card';
 import { Button } from '@/radix-ui/button';
@@ -9,43 +9,41 @@ import { Badge } from '@/radix-ui/badge';
 import { useSocketContext } from '@/contexts/socket-context';
 import { useAuth } from '@/lib/auth';
 
+interface ConversationListItem {
+  id: string;
+  title: string | null;
+  type: 'DM' | 'GROUP' | 'PROJECT';
+  memberCount: number;
+  lastMessageAt: string | null;
+  unreadCount: number;
+  badgeCount: number; // Unread count after notification settings
+  notificationLevel: 'ALL' | 'MENTIONS' | 'NOTHING';
+  mutedUntil: string | null;
+}
+
+function isMuted(conversation: ConversationListItem) {
+  return conversation.notificationLevel === 'NOTHING'
+    || (conversation.mutedUntil !== null && new Date(conversation.mutedUntil) > new Date());
+}
+
 export default function ChatPage() {
   const { isConnected, onlineUsers } = useSocketContext();
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
 
-  const mockConversations = [
-    {
-      id: '1',
-      title: 'General Chat',
-      type: 'GROUP',
-      memberCount: 5,
-      lastMessage: 'Welcome to the chat!',
-      lastMessageAt: new Date(Date.now() - 3600000).toISOString(),
-      unreadCount: 2
-    },
-    {
-      id: '2',
-      title: 'Project Discussion',
-      type: 'PROJECT',
-      memberCount: 3,
-      lastMessage: 'How is the development going?',
-      lastMessageAt: new Date(Date.now() - 1800000).toISOString(),
-      unreadCount: 0
-    },
-    {
-      id: '3',
-      title: 'John Doe',
-      type: 'DM',
-      memberCount: 2,
-      lastMessage: 'Sure, let\'s discuss this tomorrow',
-      lastMessageAt: new Date(Date.now() - 900000).toISOString(),
-      unreadCount: 1
-    }
-  ];
+  const [conversations, setConversations] = useState<ConversationListItem[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
 
-  const filteredConversations = mockConversations.filter(conv =>
-    conv.title.toLowerCase().includes(searchTerm.toLowerCase())
+    fetch('/api/conversations')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => setConversations(data.conversations))
+      .catch(error => console.error('Failed to load conversations:', error));
+  }, [user]);
+
+  const filteredConversations = conversations.filter(conv =>
+    (conv.title ?? '').toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   if (!user) {
@@ -112,26 +110,30 @@ export default function ChatPage() {
                         <div className="flex items-start justify-between">
                           <div className="flex-1">
                             <div className="flex items-center gap-2">
-                              <h3 className="font-medium">{conversation.title}</h3>
+                              <h3 className={conversation.unreadCount > 0 && !isMuted(conversation) ? 'font-semibold' : 'font-medium'}>
+                                {conversation.title ?? 'Direct message'}
+                              </h3>
+                              {isMuted(conversation) && (
+                                <span className="text-xs text-muted-foreground" title="Muted">🔕</span>
+                              )}
                               <Badge variant="secondary" className="text-xs">
                                 {conversation.type}
                               </Badge>
                             </div>
-                            <p className="text-sm text-muted-foreground mt-1">
-                              {conversation.lastMessage}
-                            </p>
                             <div className="flex items-center gap-4 mt-2">
                               <span className="text-xs text-muted-foreground">
                                 {conversation.memberCount} members
                               </span>
-                              <span className="text-xs text-muted-foreground">
-                                {new Date(conversation.lastMessageAt).toLocaleString()}
-                              </span>
+                              {conversation.lastMessageAt && (
+                                <span className="text-xs text-muted-foreground">
+                                  {new Date(conversation.lastMessageAt).toLocaleString()}
+                                </span>
+                              )}
                             </div>
                           </div>
-                          {conversation.unreadCount > 0 && (
+                          {conversation.badgeCount > 0 && (
                             <Badge variant="default" className="ml-2">
-                              {conversation.unreadCount}
+                              {conversation.badgeCount}
                             </Badge>
                           )}
                         </div>
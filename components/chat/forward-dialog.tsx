@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+interface ConversationOption {
+  id: string;
+  title: string | null;
+  type: 'DM' | 'GROUP' | 'PROJECT';
+}
+
+interface ForwardDialogProps {
+  messageIds: string[];
+  onClose: () => void;
+}
+
+// Pick a conversation to forward messages to, with an optional comment
+export function ForwardDialog({ messageIds, onClose }: ForwardDialogProps) {
+  const [conversations, setConversations] = useState<ConversationOption[]>([]);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Reused when the request is retried, so messages are not forwarded twice
+  const [clientId] = useState(() => crypto.randomUUID());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/conversations')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => {
+        if (!cancelled) setConversations(data.conversations);
+      })
+      .catch(error => console.error('Failed to load conversations:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleForward = async () => {
+    if (!targetId || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/conversations/${targetId}/forward`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageIds, comment: comment.trim() || undefined, clientId })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? `HTTP ${response.status}`);
+      }
+
+      onClose();
+    } catch (error) {
+      console.error('Failed to forward messages:', error);
+      setError(error instanceof Error ? error.message : 'Failed to forward messages');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="w-96 space-y-3 rounded-lg border bg-background p-4 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold">
+          Forward {messageIds.length === 1 ? 'message' : `${messageIds.length} messages`}
+        </h2>
+
+        <div className="max-h-64 space-y-1 overflow-y-auto">
+          {conversations.map(conversation => (
+            <button
+              key={conversation.id}
+              onClick={() => setTargetId(conversation.id)}
+              className={`block w-full rounded px-2 py-1 text-left text-sm ${
+                targetId === conversation.id ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+              }`}
+            >
+              {conversation.title ?? 'Direct message'}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Add a comment (optional)"
+          rows={2}
+          className="w-full rounded border bg-background px-2 py-1 text-sm"
+        />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="rounded px-3 py-1 text-sm hover:bg-muted">
+            Cancel
+          </button>
+          <button
+            onClick={handleForward}
+            disabled={!targetId || isSubmitting}
+            className="rounded bg-primary px-3 py-1 text-sm text-primary-foreground disabled:opacity-50"
+          >
+            {isSubmitting ? 'Forwarding...' : 'Forward'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
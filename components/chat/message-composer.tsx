@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+
+interface SlashCommandInfo {
+  name: string;
+  description: string;
+  usage: string;
+  botName: string | null;
+}
+
+interface EphemeralReply {
+  id: string;
+  command: string;
+  text: string;
+}
+
+interface MessageComposerProps {
+  conversationId: string;
+}
+
+// "/name rest" typed in the composer
+function parseCommand(draft: string) {
+  const match = draft.match(/^\/([a-z0-9_-]+)(?:\s+([\s\S]*))?$/i);
+  return match ? { name: match[1].toLowerCase(), text: match[2] ?? '' } : null;
+}
+
+// Message input with slash command autocomplete. Command replies that only
+// the sender sees are shown above the input until dismissed.
+export function MessageComposer({ conversationId }: MessageComposerProps) {
+  const [commands, setCommands] = useState<SlashCommandInfo[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [replies, setReplies] = useState<EphemeralReply[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/conversations/${conversationId}/commands`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => {
+        if (!cancelled) setCommands(data.commands);
+      })
+      .catch(error => console.error('Failed to load commands:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  // Suggestions while the command name is being typed
+  const typedName = draft.match(/^\/([a-z0-9_-]*)$/i)?.[1].toLowerCase();
+  const suggestions = typedName === undefined
+    ? []
+    : commands.filter(command => command.name.startsWith(typedName));
+
+  const addReply = (command: string, text: string) => {
+    setReplies(prev => [...prev, { id: crypto.randomUUID(), command, text }]);
+  };
+
+  const send = async () => {
+    const content = draft.trim();
+    if (!content || isSending) return;
+
+    const command = parseCommand(content);
+    const clientId = crypto.randomUUID();
+
+    setIsSending(true);
+    try {
+      if (command) {
+        const response = await fetch(`/api/conversations/${conversationId}/commands`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ command: command.name, text: command.text, clientId })
+        });
+        const data = await response.json().catch(() => null);
+        if (!response.ok) {
+          addReply(command.name, data?.error ?? `Command failed (HTTP ${response.status})`);
+          return;
+        }
+        if (data.result.type === 'ephemeral') {
+          addReply(command.name, data.result.text);
+        }
+      } else {
+        const response = await fetch(`/api/conversations/${conversationId}/messages`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content, clientId })
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      }
+
+      setDraft('');
+    } catch (error) {
+      console.error('Failed to send message:', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const complete = (name: string) => setDraft(`/${name} `);
+
+  return (
+    <div className="border-t p-4 space-y-2">
+      {replies.map(reply => (
+        <div key={reply.id} className="flex items-start gap-2 rounded-md border bg-muted/40 px-3 py-2 text-sm">
+          <div className="flex-1">
+            <div className="text-xs text-muted-foreground">/{reply.command} · only visible to you</div>
+            <div className="whitespace-pre-wrap">{reply.text}</div>
+          </div>
+          <button
+            onClick={() => setReplies(prev => prev.filter(r => r.id !== reply.id))}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      {suggestions.length > 0 && (
+        <Command shouldFilter={false} className="border shadow-md">
+          <CommandList>
+            <CommandGroup heading="Commands">
+              {suggestions.map(command => (
+                <CommandItem key={command.name} value={command.name} onSelect={complete}>
+                  <span className="font-medium">/{command.name}</span>
+                  <span className="text-muted-foreground">{command.usage}</span>
+                  <span className="ml-auto truncate text-xs text-muted-foreground">
+                    {command.botName ? `${command.botName} · ` : ''}{command.description}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      )}
+
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Type a message, or / for commands"
+          rows={2}
+          onKeyDown={(event) => {
+            if (event.key === 'Tab' && suggestions.length > 0) {
+              event.preventDefault();
+              complete(suggestions[0].name);
+            } else if (event.key === 'Enter' && !event.shiftKey) {
+              event.preventDefault();
+              send();
+            }
+          }}
+        />
+        <Button size="sm" onClick={send} disabled={isSending || !draft.trim()}>
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+}
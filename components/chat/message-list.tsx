@@ -1,37 +1,148 @@
 'use client';
 
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useState, useRef } from 'react';
 import { format } from 'date-fns';
 import { useConversationSocket } from '@/lib/socket/client';
 import { Avatar, AvatarFallback, AvatarImage } from '@/radix-ui/avatar';
 import { Badge } from '@/radix-ui/badge';
+import { PollView, type Poll } from '@/components/chat/poll-view';
+import type { MessageSendPayload } from '@/types/realtime';
 
-interface Message {
+export interface Message {
   id: string;
   conversationId: string;
   senderId: string;
   senderName: string;
-  content: any; // TipTap JSON
-  replyToId?: string;
-  attachments?: string[];
+  bodyRich: unknown; // TipTap JSON, or the text of a plain message
+  bodyPlain: string;
+  isEdited: boolean;
+  editedAt: string | null;
+  replyToId: string | null;
+  deletedAt: string | null;
+  type?: 'USER' | 'SYSTEM'; // SYSTEM messages record membership and settings changes
+  seq?: number; // Position in the conversation
+  attachments?: Array<{ id: string; originalName: string; mimeType: string; sizeBytes: number }>;
   createdAt: string;
-  reactions?: Array<{ userId: string; emoji: string }>;
+  reactions?: Array<{ emoji: string; count: number; userIds: string[] }>;
+  thread?: {
+    replyCount: number;
+    lastReplyAt: string;
+    participants: Array<{ id: string; name: string }>;
+  } | null;
+  poll?: Poll | null;
+  forwardedFrom?: { messageId: string; senderId: string; senderName: string; createdAt: string } | null;
+  botName?: string | null; // Replies of chat bots, posted on behalf of the sender who ran the command
+  linkPreviews?: Array<{
+    url: string;
+    type: 'EXTERNAL' | 'PROJECT' | 'TASK' | 'FILE';
+    title: string | null;
+    description: string | null;
+    imageUrl: string | null;
+    siteName: string | null;
+  }>;
 }
 
+interface ReadReceipt {
+  userId: string;
+  name: string;
+  avatarUrl: string | null;
+  lastReadMessageId: string | null;
+}
+
+interface PageInfo {
+  startCursor: string | null;
+  endCursor: string | null;
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+// Update a thread root's summary for a new reply
+function withThreadReply(root: Message, reply: Message): Message {
+  const participants = [
+    { id: reply.senderId, name: reply.senderName },
+    ...(root.thread?.participants ?? []).filter(p => p.id !== reply.senderId)
+  ].slice(0, 3);
+
+  return {
+    ...root,
+    thread: {
+      replyCount: (root.thread?.replyCount ?? 0) + 1,
+      lastReplyAt: reply.createdAt,
+      participants
+    }
+  };
+}
+
+const PAGE_SIZE = 50;
+// Start loading older messages when scrolled this close to the top (px)
+const LOAD_OLDER_THRESHOLD = 100;
+
 interface MessageListProps {
   conversationId: string;
   initialMessages?: Message[];
   currentUserId: string;
+  conversationType?: 'DM' | 'GROUP' | 'PROJECT';
+  onOpenThread?: (messageId: string) => void;
+  onForward?: (messageId: string) => void;
 }
 
 export function MessageList({
   conversationId,
   initialMessages = [],
-  currentUserId
+  currentUserId,
+  conversationType,
+  onOpenThread,
+  onForward
 }: MessageListProps) {
   const [messages, setMessages] = useState<Message[]>(initialMessages);
   const [isTyping, setIsTyping] = useState(false);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [readReceipts, setReadReceipts] = useState<ReadReceipt[]>([]);
+  // "Seen by" avatars are shown in DMs and group chats only
+  const showSeenBy = conversationType === 'DM' || conversationType === 'GROUP';
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // scrollHeight before older messages were prepended, to keep the viewport in place
+  const prependScrollHeightRef = useRef<number | null>(null);
+
+  const fetchMessages = useCallback(async (query: Record<string, string>) => {
+    const searchParams = new URLSearchParams({ limit: String(PAGE_SIZE), ...query });
+    const response = await fetch(`/api/conversations/${conversationId}/messages?${searchParams}`);
+    if (!response.ok) throw new Error('Failed to load messages');
+
+    return response.json() as Promise<{ messages: Message[]; pageInfo: PageInfo }>;
+  }, [conversationId]);
+
+  // Merge messages sent, edited or deleted while the socket was disconnected
+  const handleMissedMessages = useCallback((missed: Message[], sinceSeq: number) => {
+    setMessages(prev => missed.reduce((next, message) => {
+      const isNew = (message.seq ?? 0) > sinceSeq;
+
+      if (message.replyToId) {
+        return isNew
+          ? next.map(m => m.id === message.replyToId ? withThreadReply(m, message) : m)
+          : next;
+      }
+
+      return next.some(m => m.id === message.id)
+        ? next.map(m => m.id === message.id ? { ...m, ...message } : m)
+        : [...next, message];
+    }, prev));
+  }, []);
+
+  // Too many older messages changed to merge them; load the latest page again
+  const handleResyncRequired = useCallback(() => {
+    fetchMessages({})
+      .then(data => {
+        setMessages(data.messages);
+        setPageInfo(data.pageInfo);
+      })
+      .catch(error => {
+        console.error('Error reloading messages:', error);
+      });
+  }, [fetchMessages]);
+
   const {
     socket,
     isConnected,
@@ -42,61 +153,189 @@ export function MessageList({
     markAsRead,
     addReaction,
     removeReaction
-  } = useConversationSocket(conversationId);
+  } = useConversationSocket(conversationId, {
+    onMissedMessages: handleMissedMessages,
+    onResyncRequired: handleResyncRequired
+  });
 
   // Scroll to bottom when new messages arrive
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  useEffect(() => {
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (container && prependScrollHeightRef.current !== null) {
+      container.scrollTop += container.scrollHeight - prependScrollHeightRef.current;
+      prependScrollHeightRef.current = null;
+      return;
+    }
+
     scrollToBottom();
   }, [messages]);
 
+  // Load the latest page of history
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchMessages({})
+      .then(data => {
+        if (cancelled) return;
+        setMessages(data.messages);
+        setPageInfo(data.pageInfo);
+
+        const latest = data.messages[data.messages.length - 1];
+        if (latest) {
+          markAsRead(latest.id);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading messages:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchMessages, markAsRead]);
+
+  // Load members' read positions for "seen by" avatars
+  useEffect(() => {
+    if (!showSeenBy) return;
+
+    fetch(`/api/conversations/${conversationId}/read`)
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load read receipts');
+        return response.json();
+      })
+      .then(data => setReadReceipts(data.receipts))
+      .catch(error => {
+        console.error('Error loading read receipts:', error);
+      });
+  }, [conversationId, showSeenBy]);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (isLoadingOlder || !pageInfo?.hasOlder || !pageInfo.startCursor) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const data = await fetchMessages({ cursor: pageInfo.startCursor, direction: 'backward' });
+
+      prependScrollHeightRef.current = scrollContainerRef.current?.scrollHeight ?? null;
+      setMessages(prev => [
+        ...data.messages.filter(message => !prev.some(m => m.id === message.id)),
+        ...prev
+      ]);
+      setPageInfo(prev => ({
+        startCursor: data.pageInfo.startCursor ?? prev?.startCursor ?? null,
+        endCursor: prev?.endCursor ?? data.pageInfo.endCursor,
+        hasOlder: data.pageInfo.hasOlder,
+        hasNewer: prev?.hasNewer ?? false
+      }));
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [isLoadingOlder, pageInfo, fetchMessages]);
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    if (event.currentTarget.scrollTop < LOAD_OLDER_THRESHOLD) {
+      loadOlderMessages();
+    }
+  };
+
   // Handle incoming messages
   useEffect(() => {
     if (!socket || !isConnected) return;
 
     const handleNewMessage = (message: Message) => {
-      setMessages(prev => [...prev, message]);
+      if (message.conversationId !== conversationId) return;
+
+      // Thread replies only update the summary on their root message
+      if (message.replyToId) {
+        setMessages(prev => prev.map(m => m.id === message.replyToId ? withThreadReply(m, message) : m));
+        return;
+      }
+
+      // The sender also receives its own message, so skip ones already shown
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
 
       // Mark as read if it's not our own message
       if (message.senderId !== currentUserId) {
-        markAsRead();
+        markAsRead(message.id);
       }
     };
 
-    const handleReaction = (data: { messageId: string; userId: string; emoji: string; action: 'add' | 'remove' }) => {
+    const handleReaction = (data: { messageId: string; conversationId: string; userId: string; emoji: string; action: 'add' | 'remove' }) => {
+      if (data.conversationId !== conversationId) return;
+
       setMessages(prev => prev.map(msg => {
-        if (msg.id === data.messageId) {
-          const reactions = msg.reactions || [];
-          if (data.action === 'add') {
-            return {
-              ...msg,
-              reactions: [...reactions.filter(r => !(r.userId === data.userId && r.emoji === data.emoji)), { userId: data.userId, emoji: data.emoji }]
-            };
-          } else {
-            return {
-              ...msg,
-              reactions: reactions.filter(r => !(r.userId === data.userId && r.emoji === data.emoji))
-            };
-          }
+        if (msg.id !== data.messageId) return msg;
+
+        const reactions = msg.reactions || [];
+        const existing = reactions.find(r => r.emoji === data.emoji);
+        const userIds = (existing?.userIds ?? []).filter(id => id !== data.userId);
+        if (data.action === 'add') {
+          userIds.push(data.userId);
         }
-        return msg;
+
+        const updated = { emoji: data.emoji, count: userIds.length, userIds };
+        return {
+          ...msg,
+          reactions: existing
+            ? reactions.map(r => r.emoji === data.emoji ? updated : r).filter(r => r.count > 0)
+            : [...reactions, updated].filter(r => r.count > 0)
+        };
       }));
     };
 
+    const handleMessageUpdated = (message: Message) => {
+      if (message.conversationId !== conversationId) return;
+      setMessages(prev => prev.map(m => m.id === message.id ? { ...m, ...message } : m));
+    };
+
+    const handleMessageDeleted = (data: { messageId: string; conversationId: string; deletedAt: string }) => {
+      if (data.conversationId !== conversationId) return;
+      setMessages(prev => prev.map(m => m.id === data.messageId
+        ? { ...m, deletedAt: data.deletedAt, bodyRich: null, bodyPlain: '', attachments: [], reactions: [], poll: null }
+        : m
+      ));
+    };
+
+    const handlePollUpdated = (data: { conversationId: string; messageId: string; poll: Poll }) => {
+      if (data.conversationId !== conversationId) return;
+      setMessages(prev => prev.map(m => m.id === data.messageId ? { ...m, poll: data.poll } : m));
+    };
+
+    const handleConversationRead = (data: { conversationId: string; userId: string; lastReadMessageId: string }) => {
+      if (data.conversationId !== conversationId) return;
+      setReadReceipts(prev => prev.map(receipt => receipt.userId === data.userId
+        ? { ...receipt, lastReadMessageId: data.lastReadMessageId }
+        : receipt
+      ));
+    };
+
     socket.on('message:new', handleNewMessage);
+    socket.on('message:updated', handleMessageUpdated);
+    socket.on('conversation:read', handleConversationRead);
+    socket.on('message:deleted', handleMessageDeleted);
     socket.on('message:reaction', handleReaction);
+    socket.on('poll:updated', handlePollUpdated);
 
     return () => {
       socket.off('message:new', handleNewMessage);
+      socket.off('message:updated', handleMessageUpdated);
+      socket.off('conversation:read', handleConversationRead);
+      socket.off('message:deleted', handleMessageDeleted);
       socket.off('message:reaction', handleReaction);
+      socket.off('poll:updated', handlePollUpdated);
     };
-  }, [socket, isConnected, currentUserId, markAsRead]);
+  }, [socket, isConnected, conversationId, currentUserId, markAsRead]);
 
-  const handleSendMessage = (content: any) => {
-    sendMessage(content);
+  const handleSendMessage = (content: MessageSendPayload['content']) => {
+    sendMessage(content).catch((error) => {
+      console.error('Failed to send message:', error);
+    });
     setIsTyping(false);
     stopTyping();
   };
@@ -117,7 +356,7 @@ export function MessageList({
     const message = messages.find(m => m.id === messageId);
     if (!message) return;
 
-    const existingReaction = message.reactions?.find(r => r.userId === currentUserId && r.emoji === emoji);
+    const existingReaction = message.reactions?.find(r => r.emoji === emoji && r.userIds.includes(currentUserId));
     if (existingReaction) {
       removeReaction(messageId, emoji);
     } else {
@@ -126,9 +365,21 @@ export function MessageList({
   };
 
   const renderMessage = (message: Message) => {
-    const isOwn = message.senderId === currentUserId;
     const messageDate = new Date(message.createdAt);
 
+    if (message.type === 'SYSTEM') {
+      return (
+        <div key={message.id} className="py-2 text-center text-xs text-muted-foreground">
+          {message.bodyPlain} · {format(messageDate, 'HH:mm')}
+        </div>
+      );
+    }
+
+    const isOwn = message.senderId === currentUserId;
+    const seenBy = showSeenBy
+      ? readReceipts.filter(receipt => receipt.lastReadMessageId === message.id && receipt.userId !== currentUserId)
+      : [];
+
     return (
       <div
         key={message.id}
@@ -146,8 +397,13 @@ export function MessageList({
         <div className={`flex-1 space-y-1 ${isOwn ? 'text-right' : 'text-left'}`}>
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-muted-foreground">
-              {message.senderName}
+              {message.botName ? `${message.botName} (via ${message.senderName})` : message.senderName}
             </span>
+            {message.botName && (
+              <Badge variant="outline" className="text-xs">
+                Bot
+              </Badge>
+            )}
             <span className="text-xs text-muted-foreground">
               {format(messageDate, 'HH:mm')}
             </span>
@@ -165,44 +421,130 @@ export function MessageList({
                 : 'bg-muted text-muted-foreground'
             }`}
           >
+            {message.forwardedFrom && !message.deletedAt && (
+              <div className="mb-1 text-xs italic opacity-70">
+                ↪ Forwarded from {message.forwardedFrom.senderName} · {format(new Date(message.forwardedFrom.createdAt), 'MMM d, HH:mm')}
+              </div>
+            )}
+
             {/* Message content would be rendered here using TipTap content */}
-            <div className="text-sm">
-              {JSON.stringify(message.content)}
-            </div>
+            {message.deletedAt ? (
+              <div className="text-sm italic opacity-70">
+                Message deleted
+              </div>
+            ) : message.poll ? (
+              <PollView poll={message.poll} conversationId={conversationId} currentUserId={currentUserId} />
+            ) : (
+              <div className="text-sm whitespace-pre-wrap">
+                {message.bodyPlain}
+                {message.isEdited && (
+                  <span className="ml-1 text-xs opacity-70">(edited)</span>
+                )}
+              </div>
+            )}
+
+            {/* Link previews */}
+            {!message.deletedAt && message.linkPreviews && message.linkPreviews.length > 0 && (
+              <div className="mt-2 space-y-2 text-left">
+                {message.linkPreviews.map(preview => (
+                  <a
+                    key={preview.url}
+                    href={preview.url}
+                    target={preview.type === 'EXTERNAL' ? '_blank' : undefined}
+                    rel={preview.type === 'EXTERNAL' ? 'noopener noreferrer' : undefined}
+                    className="flex max-w-sm gap-2 rounded border-l-4 border-primary/40 bg-background/60 p-2 text-foreground"
+                  >
+                    <div className="min-w-0 flex-1">
+                      {preview.siteName && (
+                        <div className="truncate text-xs text-muted-foreground">{preview.siteName}</div>
+                      )}
+                      <div className="truncate text-sm font-medium">{preview.title}</div>
+                      {preview.description && (
+                        <div className="line-clamp-2 text-xs text-muted-foreground">{preview.description}</div>
+                      )}
+                    </div>
+                    {preview.imageUrl && (
+                      <img src={preview.imageUrl} alt="" className="h-16 w-16 flex-shrink-0 rounded object-cover" loading="lazy" />
+                    )}
+                  </a>
+                ))}
+              </div>
+            )}
 
             {/* Attachments */}
             {message.attachments && message.attachments.length > 0 && (
               <div className="mt-2 space-y-1">
-                {message.attachments.map((attachment, index) => (
-                  <div key={index} className="text-xs text-muted-foreground">
-                    📎 {attachment}
+                {message.attachments.map(attachment => (
+                  <div key={attachment.id} className="text-xs text-muted-foreground">
+                    📎 {attachment.originalName}
                   </div>
                 ))}
               </div>
             )}
           </div>
 
+          {/* Thread summary and actions */}
+          {!message.deletedAt && (message.thread || onOpenThread || onForward) && (
+            <div className={`flex gap-3 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+              {(message.thread || onOpenThread) && (
+                <button
+                  onClick={() => onOpenThread?.(message.id)}
+                  className="text-xs text-primary hover:underline"
+                >
+                  {message.thread
+                    ? `${message.thread.replyCount} ${message.thread.replyCount === 1 ? 'reply' : 'replies'} · ${message.thread.participants.map(p => p.name).join(', ')} · last ${format(new Date(message.thread.lastReplyAt), 'HH:mm')}`
+                    : 'Reply in thread'}
+                </button>
+              )}
+              {onForward && !message.poll && (
+                <button
+                  onClick={() => onForward(message.id)}
+                  className="text-xs text-primary hover:underline"
+                >
+                  Forward
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Reactions */}
           {message.reactions && message.reactions.length > 0 && (
             <div className={`flex gap-1 mt-2 ${isOwn ? 'justify-end' : 'justify-start'}`}>
-              {message.reactions.map((reaction, index) => (
+              {message.reactions.map(reaction => (
                 <button
-                  key={index}
+                  key={reaction.emoji}
                   onClick={() => handleReactionClick(message.id, reaction.emoji)}
                   className={`px-2 py-1 rounded-full text-xs border ${
-                    reaction.userId === currentUserId
+                    reaction.userIds.includes(currentUserId)
                       ? 'bg-primary/10 border-primary/30'
                       : 'bg-muted border-border hover:bg-muted/80'
                   } transition-colors`}
                 >
                   {reaction.emoji}
                   <span className="ml-1 text-muted-foreground">
-                    {/* Count would be calculated here */}
+                    {reaction.count}
                   </span>
                 </button>
               ))}
             </div>
           )}
+
+          {/* Seen by */}
+          {seenBy.length > 0 && (
+            <div
+              className={`flex -space-x-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}
+              title={`Seen by ${seenBy.map(receipt => receipt.name).join(', ')}`}
+            >
+              {seenBy.map(receipt => (
+                <Avatar key={receipt.userId} className="w-4 h-4 border border-background">
+                  <AvatarImage src={receipt.avatarUrl ?? ''} alt={receipt.name} />
+                  <AvatarFallback className="text-[8px]">
+                    {receipt.name.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -211,7 +553,17 @@ export function MessageList({
   return (
     <div className="flex flex-col h-full">
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto space-y-2">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto space-y-2"
+      >
+        {isLoadingOlder && (
+          <div className="text-center py-2 text-sm text-muted-foreground">
+            Loading earlier messages...
+          </div>
+        )}
+
         {messages.map(renderMessage)}
 
         {/* Typing indicators */}
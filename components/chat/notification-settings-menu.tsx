@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSocketContext } from '@/contexts/socket-context';
+
+type NotificationLevel = 'ALL' | 'MENTIONS' | 'NOTHING';
+
+interface NotificationSettings {
+  conversationId: string;
+  notificationLevel: NotificationLevel;
+  mutedUntil: string | null;
+  isMuted: boolean;
+}
+
+interface NotificationSettingsMenuProps {
+  conversationId: string;
+}
+
+const LEVEL_LABELS: Record<NotificationLevel, string> = {
+  ALL: 'All messages',
+  MENTIONS: 'Mentions only',
+  NOTHING: 'Nothing'
+};
+
+// Snooze durations offered in the menu, in hours
+const SNOOZE_HOURS = [1, 8, 24];
+
+// The current user's notification level and snooze for a conversation
+export function NotificationSettingsMenu({ conversationId }: NotificationSettingsMenuProps) {
+  const { socket } = useSocketContext();
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/conversations/${conversationId}/notification-settings`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => {
+        if (!cancelled) setSettings(data.settings);
+      })
+      .catch(error => console.error('Failed to load notification settings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // Changes made on another device
+    const handleUpdated = (updated: NotificationSettings) => {
+      if (updated.conversationId !== conversationId) return;
+      setSettings(updated);
+    };
+
+    socket.on('conversation:notifications:updated', handleUpdated);
+
+    return () => {
+      socket.off('conversation:notifications:updated', handleUpdated);
+    };
+  }, [socket, conversationId]);
+
+  const update = async (changes: { notificationLevel?: NotificationLevel; mutedUntil?: string | null }) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/notification-settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const data = await response.json();
+      setSettings(data.settings);
+    } catch (error) {
+      console.error('Failed to update notification settings:', error);
+    }
+  };
+
+  if (!settings) return null;
+
+  const isSnoozed = settings.mutedUntil !== null && new Date(settings.mutedUntil) > new Date();
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span aria-hidden>{settings.isMuted ? '🔕' : '🔔'}</span>
+      <select
+        value={settings.notificationLevel}
+        onChange={(e) => update({ notificationLevel: e.target.value as NotificationLevel })}
+        className="rounded border bg-background px-1 text-xs"
+        aria-label="Notifications"
+      >
+        {Object.entries(LEVEL_LABELS).map(([level, label]) => (
+          <option key={level} value={level}>{label}</option>
+        ))}
+      </select>
+      {isSnoozed ? (
+        <button
+          onClick={() => update({ mutedUntil: null })}
+          className="text-xs text-muted-foreground hover:text-foreground"
+          title={`Muted until ${new Date(settings.mutedUntil!).toLocaleString()}`}
+        >
+          Unmute
+        </button>
+      ) : (
+        <select
+          value=""
+          onChange={(e) => update({
+            mutedUntil: new Date(Date.now() + Number(e.target.value) * 60 * 60 * 1000).toISOString()
+          })}
+          className="rounded border bg-background px-1 text-xs"
+          aria-label="Mute for"
+        >
+          <option value="" disabled>Mute for…</option>
+          {SNOOZE_HOURS.map(hours => (
+            <option key={hours} value={hours}>{hours === 1 ? '1 hour' : `${hours} hours`}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSocketContext } from '@/contexts/socket-context';
+
+interface PinnedMessage {
+  messageId: string;
+  conversationId: string;
+  senderName: string;
+  bodyPlain: string;
+  pinnedByName: string;
+  pinnedAt: string;
+}
+
+interface PinnedBannerProps {
+  conversationId: string;
+  onJumpToMessage?: (messageId: string) => void;
+}
+
+// Pinned messages shown under the chat header, kept in sync over the socket
+export function PinnedBanner({ conversationId, onJumpToMessage }: PinnedBannerProps) {
+  const { socket } = useSocketContext();
+  const [pins, setPins] = useState<PinnedMessage[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/conversations/${conversationId}/pins`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => {
+        if (!cancelled) setPins(data.pins);
+      })
+      .catch(error => console.error('Failed to load pinned messages:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePinned = (pin: PinnedMessage) => {
+      if (pin.conversationId !== conversationId) return;
+      setPins(prev => [pin, ...prev.filter(p => p.messageId !== pin.messageId)]);
+    };
+
+    const handleUnpinned = (data: { conversationId: string; messageId: string }) => {
+      if (data.conversationId !== conversationId) return;
+      setPins(prev => prev.filter(p => p.messageId !== data.messageId));
+    };
+
+    // Deleted messages drop out of the pinned list
+    const handleDeleted = (data: { conversationId: string; messageId: string }) => {
+      if (data.conversationId !== conversationId) return;
+      setPins(prev => prev.filter(p => p.messageId !== data.messageId));
+    };
+
+    socket.on('message:pinned', handlePinned);
+    socket.on('message:unpinned', handleUnpinned);
+    socket.on('message:deleted', handleDeleted);
+
+    return () => {
+      socket.off('message:pinned', handlePinned);
+      socket.off('message:unpinned', handleUnpinned);
+      socket.off('message:deleted', handleDeleted);
+    };
+  }, [socket, conversationId]);
+
+  const handleUnpin = (messageId: string) => {
+    fetch(`/api/conversations/${conversationId}/messages/${messageId}/pin`, { method: 'DELETE' })
+      .catch((error) => console.error('Failed to unpin message:', error));
+  };
+
+  if (pins.length === 0) return null;
+
+  const visiblePins = isExpanded ? pins : pins.slice(0, 1);
+
+  return (
+    <div className="border-b bg-muted/30 px-4 py-2 space-y-1">
+      {visiblePins.map(pin => (
+        <div key={pin.messageId} className="flex items-center gap-2 text-sm">
+          <span aria-hidden>📌</span>
+          <button
+            onClick={() => onJumpToMessage?.(pin.messageId)}
+            className="flex-1 truncate text-left hover:underline"
+            title={`Pinned by ${pin.pinnedByName}`}
+          >
+            <span className="font-medium">{pin.senderName}:</span> {pin.bodyPlain}
+          </button>
+          <button
+            onClick={() => handleUnpin(pin.messageId)}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Unpin
+          </button>
+        </div>
+      ))}
+      {pins.length > 1 && (
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="text-xs text-primary hover:underline"
+        >
+          {isExpanded ? 'Show less' : `${pins.length} pinned messages`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+
+export interface Poll {
+  id: string;
+  question: string;
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: string | null;
+  closedAt: string | null;
+  isClosed: boolean;
+  voterCount: number;
+  options: Array<{ id: string; text: string; voteCount: number; voterIds: string[] }>;
+}
+
+interface PollViewProps {
+  poll: Poll;
+  conversationId: string;
+  currentUserId: string;
+}
+
+// Poll results with voting; tallies arrive live through the message list
+export function PollView({ poll, conversationId, currentUserId }: PollViewProps) {
+  // Anonymous polls do not list voters, so the user's own votes are fetched
+  const [anonymousVotes, setAnonymousVotes] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!poll.isAnonymous) return;
+    let cancelled = false;
+
+    fetch(`/api/conversations/${conversationId}/polls/${poll.id}`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => {
+        if (!cancelled) setAnonymousVotes(data.myOptionIds);
+      })
+      .catch(error => console.error('Failed to load poll votes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, poll.id, poll.isAnonymous]);
+
+  const myOptionIds = poll.isAnonymous
+    ? anonymousVotes
+    : poll.options.filter(option => option.voterIds.includes(currentUserId)).map(option => option.id);
+
+  const totalVotes = poll.options.reduce((sum, option) => sum + option.voteCount, 0);
+
+  const handleVote = async (optionId: string) => {
+    if (poll.isClosed || isSubmitting) return;
+
+    const isSelected = myOptionIds.includes(optionId);
+    const optionIds = poll.allowsMultiple
+      ? (isSelected ? myOptionIds.filter(id => id !== optionId) : [...myOptionIds, optionId])
+      : (isSelected ? [] : [optionId]);
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/polls/${poll.id}/votes`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ optionIds })
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const data = await response.json();
+      setAnonymousVotes(data.myOptionIds);
+    } catch (error) {
+      console.error('Failed to vote:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 min-w-64 space-y-2 text-left">
+      <div className="text-sm font-medium">📊 {poll.question}</div>
+      <div className="space-y-1">
+        {poll.options.map(option => {
+          const percent = totalVotes > 0 ? Math.round(option.voteCount / totalVotes * 100) : 0;
+          const isSelected = myOptionIds.includes(option.id);
+
+          return (
+            <button
+              key={option.id}
+              onClick={() => handleVote(option.id)}
+              disabled={poll.isClosed || isSubmitting}
+              className={`relative block w-full overflow-hidden rounded border px-2 py-1 text-left text-xs ${
+                isSelected ? 'border-primary' : 'border-border'
+              } disabled:cursor-default`}
+            >
+              <span
+                className="absolute inset-y-0 left-0 bg-primary/15"
+                style={{ width: `${percent}%` }}
+                aria-hidden
+              />
+              <span className="relative flex justify-between gap-2">
+                <span>{poll.allowsMultiple ? (isSelected ? '☑' : '☐') : (isSelected ? '◉' : '○')} {option.text}</span>
+                <span>{option.voteCount} · {percent}%</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="text-xs opacity-70">
+        {poll.voterCount} {poll.voterCount === 1 ? 'voter' : 'voters'}
+        {poll.isAnonymous && ' · anonymous'}
+        {poll.allowsMultiple && ' · multiple choice'}
+        {poll.isClosed
+          ? ' · closed'
+          : poll.closesAt && ` · closes ${format(new Date(poll.closesAt), 'MMM d, HH:mm')}`}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSocketContext } from '@/contexts/socket-context';
+
+interface ScheduledMessage {
+  id: string;
+  conversationId: string;
+  bodyRich: string | { text?: string };
+  sendAt: string;
+  status: 'PENDING' | 'SENDING' | 'SENT' | 'CANCELLED' | 'FAILED';
+  error: string | null;
+}
+
+interface ScheduledMessagesProps {
+  conversationId: string;
+}
+
+// Value for a datetime-local input, in the browser's time zone
+function toLocalInputValue(date: Date) {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function previewText(body: ScheduledMessage['bodyRich']) {
+  return typeof body === 'string' ? body : body.text ?? '';
+}
+
+// The current user's messages waiting to be sent in this conversation
+export function ScheduledMessages({ conversationId }: ScheduledMessagesProps) {
+  const { socket } = useSocketContext();
+  const [scheduled, setScheduled] = useState<ScheduledMessage[]>([]);
+  const [failed, setFailed] = useState<ScheduledMessage[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/conversations/${conversationId}/scheduled`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => {
+        if (!cancelled) setScheduled(data.scheduled);
+      })
+      .catch(error => console.error('Failed to load scheduled messages:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // Sent messages leave the list, failed ones stay visible with the reason
+    const handleUpdated = (item: ScheduledMessage) => {
+      if (item.conversationId !== conversationId) return;
+      setScheduled(prev => prev.filter(s => s.id !== item.id));
+      if (item.status === 'FAILED') {
+        setFailed(prev => [...prev.filter(s => s.id !== item.id), item]);
+      }
+    };
+
+    socket.on('scheduled:updated', handleUpdated);
+
+    return () => {
+      socket.off('scheduled:updated', handleUpdated);
+    };
+  }, [socket, conversationId]);
+
+  const handleCancel = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/scheduled/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setScheduled(prev => prev.filter(s => s.id !== id));
+    } catch (error) {
+      console.error('Failed to cancel scheduled message:', error);
+    }
+  };
+
+  const handleReschedule = async (id: string, value: string) => {
+    if (!value) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/scheduled/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sendAt: new Date(value).toISOString() })
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const data = await response.json();
+      setScheduled(prev => prev
+        .map(s => s.id === id ? data.scheduled : s)
+        .sort((a, b) => new Date(a.sendAt).getTime() - new Date(b.sendAt).getTime()));
+    } catch (error) {
+      console.error('Failed to reschedule message:', error);
+    }
+  };
+
+  if (scheduled.length === 0 && failed.length === 0) return null;
+
+  return (
+    <div className="border-b bg-muted/30 px-4 py-2 space-y-1 text-sm">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="text-xs text-primary hover:underline"
+      >
+        {scheduled.length} scheduled {scheduled.length === 1 ? 'message' : 'messages'}
+        {failed.length > 0 && `, ${failed.length} failed`}
+      </button>
+
+      {isExpanded && scheduled.map(item => (
+        <div key={item.id} className="flex items-center gap-2">
+          <span aria-hidden>🕒</span>
+          <span className="flex-1 truncate">{previewText(item.bodyRich)}</span>
+          <input
+            type="datetime-local"
+            defaultValue={toLocalInputValue(new Date(item.sendAt))}
+            onBlur={(e) => handleReschedule(item.id, e.target.value)}
+            className="rounded border bg-background px-1 text-xs"
+          />
+          <button
+            onClick={() => handleCancel(item.id)}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Cancel
+          </button>
+        </div>
+      ))}
+
+      {isExpanded && failed.map(item => (
+        <div key={item.id} className="flex items-center gap-2 text-destructive">
+          <span aria-hidden>⚠</span>
+          <span className="flex-1 truncate">{previewText(item.bodyRich)}</span>
+          <span className="text-xs">{item.error}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { X, Bell, BellOff } from 'lucide-react';
+import { useSocketContext } from '@/contexts/socket-context';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import type { Message } from '@/components/chat/message-list';
+
+interface ThreadPanelProps {
+  conversationId: string;
+  rootMessageId: string;
+  onClose: () => void;
+}
+
+export function ThreadPanel({ conversationId, rootMessageId, onClose }: ThreadPanelProps) {
+  const { socket } = useSocketContext();
+  const [root, setRoot] = useState<Message | null>(null);
+  const [replies, setReplies] = useState<Message[]>([]);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const threadUrl = `/api/conversations/${conversationId}/messages/${rootMessageId}/thread`;
+
+  // Load the thread
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetch(`${threadUrl}?limit=100`)
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load thread');
+        return response.json();
+      })
+      .then(data => {
+        if (cancelled) return;
+        setRoot(data.root);
+        setReplies(data.messages);
+        setIsFollowing(data.isFollowing);
+      })
+      .catch(error => {
+        console.error('Error loading thread:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [threadUrl]);
+
+  // Live replies
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleNewMessage = (message: Message) => {
+      if (message.replyToId !== rootMessageId) return;
+      setReplies(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+    };
+
+    socket.on('message:new', handleNewMessage);
+
+    return () => {
+      socket.off('message:new', handleNewMessage);
+    };
+  }, [socket, rootMessageId]);
+
+  const toggleFollow = useCallback(async () => {
+    try {
+      const response = await fetch(`${threadUrl}/follow`, { method: isFollowing ? 'DELETE' : 'PUT' });
+      if (!response.ok) throw new Error('Failed to update thread follow');
+
+      const data = await response.json();
+      setIsFollowing(data.isFollowing);
+    } catch (error) {
+      console.error('Error updating thread follow:', error);
+    }
+  }, [threadUrl, isFollowing]);
+
+  const sendReply = async () => {
+    const content = draft.trim();
+    if (!content) return;
+
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, replyToId: rootMessageId })
+      });
+      if (!response.ok) throw new Error('Failed to send reply');
+
+      const { message } = await response.json();
+      setReplies(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      setIsFollowing(true);
+      setDraft('');
+    } catch (error) {
+      console.error('Error sending reply:', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const renderMessage = (message: Message) => (
+    <div key={message.id} className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">{message.senderName}</span>
+        <span className="text-xs text-muted-foreground">
+          {format(new Date(message.createdAt), 'MMM d, HH:mm')}
+        </span>
+      </div>
+      <div className="text-sm whitespace-pre-wrap">
+        {message.deletedAt ? <span className="italic text-muted-foreground">Message deleted</span> : message.bodyPlain}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-96 border-l flex flex-col h-full bg-background">
+      <div className="flex items-center justify-between border-b p-4">
+        <h2 className="font-semibold">Thread</h2>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleFollow}
+            title={isFollowing ? 'Stop getting notified about replies' : 'Get notified about new replies'}
+          >
+            {isFollowing ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+            <span className="ml-1">{isFollowing ? 'Unfollow' : 'Follow'}</span>
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close thread">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading thread...</p>
+        )}
+
+        {root && (
+          <div className="pb-4 border-b">
+            {renderMessage(root)}
+          </div>
+        )}
+
+        {!isLoading && (
+          <p className="text-xs text-muted-foreground">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </p>
+        )}
+
+        {replies.map(renderMessage)}
+      </div>
+
+      <div className="border-t p-4 space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Reply in thread..."
+          rows={2}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' && !event.shiftKey) {
+              event.preventDefault();
+              sendReply();
+            }
+          }}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={sendReply} disabled={isSending || !draft.trim()}>
+            Reply
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
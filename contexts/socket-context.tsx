@@ -1,11 +1,11 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { Socket } from 'socket.io-client';
-import { useSocket, ServerToClientEvents } from '@/lib/socket/client';
+import { useSocket, type ClientSocket } from '@/lib/socket/client';
+import type { PresenceEvent } from '@/types/realtime';
 
 interface SocketContextType {
-  socket: Socket<ServerToClientEvents, any> | null;
+  socket: ClientSocket | null;
   isConnected: boolean;
   isConnecting: boolean;
   error: string | null;
@@ -13,6 +13,10 @@ interface SocketContextType {
   userStatuses: Map<string, { status: string; lastSeen?: string }>;
 }
 
+// Report "away" after this long without keyboard or pointer activity
+const AWAY_AFTER_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'focus'] as const;
+
 const SocketContext = createContext<SocketContextType | undefined>(undefined);
 
 export function SocketProvider({ children }: { children: React.ReactNode }) {
@@ -23,34 +27,71 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     if (!socket) return;
 
-    const handlePresenceUser = (data: { userId: string; status: string; lastSeen?: string }) => {
+    const applyPresence = (events: PresenceEvent[]) => {
       setOnlineUsers(prev => {
         const newSet = new Set(prev);
-        if (data.status === 'online') {
-          newSet.add(data.userId);
-        } else {
-          newSet.delete(data.userId);
+        for (const data of events) {
+          if (data.status === 'online') {
+            newSet.add(data.userId);
+          } else {
+            newSet.delete(data.userId);
+          }
         }
         return newSet;
       });
 
       setUserStatuses(prev => {
         const newMap = new Map(prev);
-        newMap.set(data.userId, {
-          status: data.status,
-          lastSeen: data.lastSeen
-        });
+        for (const data of events) {
+          newMap.set(data.userId, {
+            status: data.status,
+            lastSeen: data.lastSeen
+          });
+        }
         return newMap;
       });
     };
 
+    const handlePresenceUser = (data: PresenceEvent) => applyPresence([data]);
+
     socket.on('presence:user', handlePresenceUser);
+    socket.on('presence:snapshot', applyPresence);
 
     return () => {
       socket.off('presence:user', handlePresenceUser);
+      socket.off('presence:snapshot', applyPresence);
     };
   }, [socket]);
 
+  // Automatic away status while the user is idle
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    let isAway = false;
+    let idleTimer: ReturnType<typeof setTimeout>;
+
+    const handleActivity = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        isAway = true;
+        socket.emit('presence:update', 'away');
+      }, AWAY_AFTER_MS);
+
+      if (isAway) {
+        isAway = false;
+        socket.emit('presence:update', 'online');
+      }
+    };
+
+    handleActivity();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      clearTimeout(idleTimer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [socket, isConnected]);
+
   const value: SocketContextType = {
     socket,
     isConnected,
@@ -7,13 +7,30 @@ import {
   boolean,
   integer,
   jsonb,
-  pgIndex,
-  uniqueIndex
+  index as pgIndex,
+  uniqueIndex,
+  customType,
+  type AnyPgColumn
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+// PostgreSQL full-text search vector
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  }
+});
 
 // Enums for user roles and other constants
 export const userRoleEnum = pgEnum("user_role", ["ADMIN", "USER"]);
 export const conversationTypeEnum = pgEnum("conversation_type", ["DM", "GROUP", "PROJECT"]);
+export const conversationMemberRoleEnum = pgEnum("conversation_member_role", ["ADMIN", "MEMBER"]);
+export const notificationLevelEnum = pgEnum("notification_level", ["ALL", "MENTIONS", "NOTHING"]);
+export const messageTypeEnum = pgEnum("message_type", ["USER", "SYSTEM"]);
+export const scheduledMessageStatusEnum = pgEnum("scheduled_message_status", ["PENDING", "SENDING", "SENT", "CANCELLED", "FAILED"]);
+export const exportFormatEnum = pgEnum("export_format", ["JSON", "MARKDOWN", "HTML"]);
+export const exportStatusEnum = pgEnum("export_status", ["QUEUED", "RUNNING", "COMPLETED", "FAILED"]);
+export const linkPreviewTypeEnum = pgEnum("link_preview_type", ["EXTERNAL", "PROJECT", "TASK", "FILE"]);
 export const taskStatusEnum = pgEnum("task_status", ["TODO", "IN_PROGRESS", "DONE"]);
 export const taskPriorityEnum = pgEnum("task_priority", ["LOW", "MEDIUM", "HIGH", "URGENT"]);
 export const projectMemberRoleEnum = pgEnum("project_member_role", ["OWNER", "MAINTAINER", "CONTRIBUTOR"]);
@@ -30,6 +47,7 @@ export const users = pgTable("users", {
   avatarUrl: text("avatar_url"),
   isActive: boolean("is_active").notNull().default(true),
   lastLoginAt: timestamp("last_login_at"),
+  lastSeenAt: timestamp("last_seen_at"), // Last time the user was connected
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow()
 }, (table) => ({
@@ -79,22 +97,31 @@ export const conversations = pgTable("conversations", {
   id: uuid("id").primaryKey().defaultRandom(),
   type: conversationTypeEnum("type").notNull(),
   title: text("title"),
+  avatarUrl: text("avatar_url"),
   createdBy: uuid("created_by").notNull().references(() => users.id),
   projectId: uuid("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  dmKey: text("dm_key"), // DMs only: the member IDs sorted and joined with ":", one DM per pair
   lastMessageAt: timestamp("last_message_at"),
+  lastSeq: integer("last_seq").notNull().default(0), // Sequence number of the latest message
+  legalHold: boolean("legal_hold").notNull().default(false), // Blocks retention purges
+  legalHoldReason: text("legal_hold_reason"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow()
 }, (table) => ({
   createdByIdx: pgIndex("idx_conversations_created_by").on(table.createdBy),
   projectIdIdx: pgIndex("idx_conversations_project_id").on(table.projectId),
   typeIdx: pgIndex("idx_conversations_type").on(table.type),
-  lastMessageAtIdx: pgIndex("idx_conversations_last_message_at").on(table.lastMessageAt)
+  lastMessageAtIdx: pgIndex("idx_conversations_last_message_at").on(table.lastMessageAt),
+  uniqueDmKey: uniqueIndex("idx_unique_conversation_dm_key").on(table.dmKey)
 }));
 
 export const conversationMembers = pgTable("conversation_members", {
   conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   lastReadMessageId: uuid("last_read_message_id").references(() => messages.id),
+  role: conversationMemberRoleEnum("role").notNull().default("MEMBER"), // ADMINs manage GROUP members and settings
+  notificationLevel: notificationLevelEnum("notification_level").notNull().default("ALL"),
+  mutedUntil: timestamp("muted_until"), // Snooze: nothing is notified or badged until then
   joinedAt: timestamp("joined_at").notNull().defaultNow(),
   hasLeft: boolean("has_left").notNull().default(false)
 }, (table) => ({
@@ -107,19 +134,227 @@ export const messages = pgTable("messages", {
   id: uuid("id").primaryKey().defaultRandom(),
   conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
   senderId: uuid("sender_id").notNull().references(() => users.id),
+  type: messageTypeEnum("type").notNull().default("USER"), // SYSTEM messages record membership and settings changes
+  systemEvent: jsonb("system_event"), // Structured details of a SYSTEM message
+  seq: integer("seq").notNull().default(0), // Per-conversation sequence number, for resync after reconnect
+  clientId: text("client_id"), // Client-generated idempotency ID, retried sends reuse it
   bodyRich: jsonb("body_rich").notNull(), // Rich text content (TipTap JSON)
   bodyPlain: text("body_plain").notNull(), // Plain text for search
   isEdited: boolean("is_edited").notNull().default(false),
   editedAt: timestamp("edited_at"),
-  replyToId: uuid("reply_to_id").references(() => messages.id), // For threading
+  replyToId: uuid("reply_to_id").references((): AnyPgColumn => messages.id), // For threading
+  forwardedFromId: uuid("forwarded_from_id").references((): AnyPgColumn => messages.id, { onDelete: "set null" }), // Original message of a forward
+  botName: text("bot_name"), // Chat bot that wrote the message, posted on behalf of the sender who ran its command
+  deletedAt: timestamp("deleted_at"), // Soft delete, shown as a "message deleted" placeholder
+  deletedBy: uuid("deleted_by").references(() => users.id),
+  // Maintained by PostgreSQL from body_plain
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`to_tsvector('english', coalesce(body_plain, ''))`),
   createdAt: timestamp("created_at").notNull().defaultNow()
 }, (table) => ({
   conversationIdIdx: pgIndex("idx_messages_conversation_id").on(table.conversationId),
   senderIdIdx: pgIndex("idx_messages_sender_id").on(table.senderId),
   replyToIdIdx: pgIndex("idx_messages_reply_to_id").on(table.replyToId),
   createdAtIdx: pgIndex("idx_messages_created_at").on(table.createdAt),
+  conversationSeqIdx: pgIndex("idx_messages_conversation_seq").on(table.conversationId, table.seq),
+  uniqueSenderClientId: uniqueIndex("idx_unique_message_sender_client_id").on(table.senderId, table.clientId),
   // Full-text search index
-  bodyPlainSearchIdx: pgIndex("idx_messages_body_plain_search").using("gin", table.bodyPlain)
+  searchVectorIdx: pgIndex("idx_messages_search_vector").using("gin", table.searchVector)
+}));
+
+// Previous versions of edited (or deleted) messages
+export const messageRevisions = pgTable("message_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  bodyRich: jsonb("body_rich").notNull(),
+  bodyPlain: text("body_plain").notNull(),
+  editedBy: uuid("edited_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  messageIdIdx: pgIndex("idx_message_revisions_message_id").on(table.messageId)
+}));
+
+// Attachments of forwarded messages point to the original attachment records
+export const messageAttachmentShares = pgTable("message_attachment_shares", {
+  messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  attachmentId: uuid("attachment_id").notNull().references(() => attachments.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueMessageAttachment: uniqueIndex("idx_unique_message_attachment_share").on(table.messageId, table.attachmentId),
+  attachmentIdIdx: pgIndex("idx_message_attachment_shares_attachment_id").on(table.attachmentId)
+}));
+
+// Previews of the links in a message, in the order they appear
+export const messageLinkPreviews = pgTable("message_link_previews", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  url: text("url").notNull(),
+  type: linkPreviewTypeEnum("type").notNull(),
+  resourceId: uuid("resource_id"), // Project, task or file of an internal link
+  title: text("title"),
+  description: text("description"),
+  imageUrl: text("image_url"),
+  siteName: text("site_name"),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueMessagePosition: uniqueIndex("idx_unique_message_link_preview").on(table.messageId, table.position)
+}));
+
+// Fetched previews of external URLs, reused across messages until stale.
+// A row without a title records a failed fetch.
+export const linkPreviewCache = pgTable("link_preview_cache", {
+  url: text("url").primaryKey(),
+  title: text("title"),
+  description: text("description"),
+  imageUrl: text("image_url"),
+  siteName: text("site_name"),
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow()
+});
+
+// Users following a thread (root message) get notified about new replies
+export const threadFollowers = pgTable("thread_followers", {
+  messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  isFollowing: boolean("is_following").notNull().default(true), // false = explicitly unfollowed
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueMessageUser: uniqueIndex("idx_unique_thread_follower").on(table.messageId, table.userId),
+  userIdIdx: pgIndex("idx_thread_followers_user_id").on(table.userId)
+}));
+
+// Users mentioned in a message, directly or through @here/@channel
+export const messageMentions = pgTable("message_mentions", {
+  messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  mentionType: text("mention_type").notNull(), // user, here or channel
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueMessageUser: uniqueIndex("idx_unique_message_mention").on(table.messageId, table.userId),
+  userIdIdx: pgIndex("idx_message_mentions_user_id").on(table.userId)
+}));
+
+// Polls are posted as messages; the poll row holds the settings
+export const polls = pgTable("polls", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  createdBy: uuid("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  question: text("question").notNull(),
+  allowsMultiple: boolean("allows_multiple").notNull().default(false),
+  isAnonymous: boolean("is_anonymous").notNull().default(false), // Voters are hidden from other members
+  closesAt: timestamp("closes_at"),
+  closedAt: timestamp("closed_at"), // Set when closed manually or by the background job
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueMessage: uniqueIndex("idx_unique_poll_message").on(table.messageId),
+  closesAtIdx: pgIndex("idx_polls_closes_at").on(table.closesAt)
+}));
+
+export const pollOptions = pgTable("poll_options", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  pollId: uuid("poll_id").notNull().references(() => polls.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  text: text("text").notNull()
+}, (table) => ({
+  pollIdIdx: pgIndex("idx_poll_options_poll_id").on(table.pollId)
+}));
+
+export const pollVotes = pgTable("poll_votes", {
+  pollId: uuid("poll_id").notNull().references(() => polls.id, { onDelete: "cascade" }),
+  optionId: uuid("option_id").notNull().references(() => pollOptions.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueOptionUser: uniqueIndex("idx_unique_poll_vote").on(table.optionId, table.userId),
+  pollUserIdx: pgIndex("idx_poll_votes_poll_user").on(table.pollId, table.userId)
+}));
+
+// Messages to be sent later by the background scheduler
+export const scheduledMessages = pgTable("scheduled_messages", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  senderId: uuid("sender_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  bodyRich: jsonb("body_rich").notNull(), // Message content as accepted by the send path
+  replyToId: uuid("reply_to_id").references(() => messages.id, { onDelete: "set null" }),
+  attachmentIds: jsonb("attachment_ids").$type<string[]>().notNull().default([]),
+  sendAt: timestamp("send_at").notNull(),
+  status: scheduledMessageStatusEnum("status").notNull().default("PENDING"),
+  sentMessageId: uuid("sent_message_id").references(() => messages.id, { onDelete: "set null" }),
+  error: text("error"), // Why sending failed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+}, (table) => ({
+  senderIdIdx: pgIndex("idx_scheduled_messages_sender_id").on(table.senderId),
+  statusSendAtIdx: pgIndex("idx_scheduled_messages_status_send_at").on(table.status, table.sendAt)
+}));
+
+// Third-party bots; their slash commands are forwarded to the webhook URL
+export const chatBots = pgTable("chat_bots", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  description: text("description"),
+  webhookUrl: text("webhook_url").notNull(),
+  signingSecret: text("signing_secret").notNull(), // HMAC key the bot uses to verify requests
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: uuid("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+});
+
+export const botCommands = pgTable("bot_commands", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  botId: uuid("bot_id").notNull().references(() => chatBots.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Lowercase, without the leading slash
+  description: text("description").notNull(),
+  usage: text("usage"), // Argument hint shown in autocomplete, e.g. "<city>"
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueName: uniqueIndex("idx_unique_bot_command_name").on(table.name),
+  botIdIdx: pgIndex("idx_bot_commands_bot_id").on(table.botId)
+}));
+
+export const pinnedMessages = pgTable("pinned_messages", {
+  messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  pinnedBy: uuid("pinned_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueMessage: uniqueIndex("idx_unique_pinned_message").on(table.messageId),
+  conversationIdIdx: pgIndex("idx_pinned_messages_conversation_id").on(table.conversationId)
+}));
+
+// Conversation history archives, generated by a background job and stored in MinIO
+export const conversationExports = pgTable("conversation_exports", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  requestedBy: uuid("requested_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  format: exportFormatEnum("format").notNull(),
+  status: exportStatusEnum("status").notNull().default("QUEUED"),
+  progress: integer("progress").notNull().default(0), // Percent of messages written
+  messageCount: integer("message_count"),
+  storageKey: text("storage_key"), // MinIO key of the finished archive
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow()
+}, (table) => ({
+  conversationIdIdx: pgIndex("idx_conversation_exports_conversation_id").on(table.conversationId),
+  statusIdx: pgIndex("idx_conversation_exports_status").on(table.status)
+}));
+
+// Personal bookmarks, optionally with a reminder
+export const savedMessages = pgTable("saved_messages", {
+  messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  note: text("note"),
+  remindAt: timestamp("remind_at"),
+  remindedAt: timestamp("reminded_at"), // Set once the reminder notification was sent
+  createdAt: timestamp("created_at").notNull().defaultNow()
+}, (table) => ({
+  uniqueUserMessage: uniqueIndex("idx_unique_saved_message").on(table.userId, table.messageId),
+  userIdIdx: pgIndex("idx_saved_messages_user_id").on(table.userId),
+  remindAtIdx: pgIndex("idx_saved_messages_remind_at").on(table.remindAt)
 }));
 
 export const messageReactions = pgTable("message_reactions", {
@@ -11,6 +11,21 @@ export {
   conversations,
   conversationMembers,
   messages,
+  messageRevisions,
+  messageAttachmentShares,
+  messageLinkPreviews,
+  linkPreviewCache,
+  threadFollowers,
+  messageMentions,
+  polls,
+  pollOptions,
+  pollVotes,
+  scheduledMessages,
+  chatBots,
+  botCommands,
+  pinnedMessages,
+  savedMessages,
+  conversationExports,
   messageReactions,
   attachments,
   projects,
@@ -27,6 +42,13 @@ export {
 export {
   userRoleEnum,
   conversationTypeEnum,
+  conversationMemberRoleEnum,
+  messageTypeEnum,
+  notificationLevelEnum,
+  scheduledMessageStatusEnum,
+  exportFormatEnum,
+  exportStatusEnum,
+  linkPreviewTypeEnum,
   taskStatusEnum,
   taskPriorityEnum,
   projectMemberRoleEnum,
@@ -1,277 +1,288 @@
--- Initial schema for EPOP Platform
--- Generated from Drizzle schema
-
--- Create enums
-CREATE TYPE user_role AS ENUM ('ADMIN', 'USER');
-CREATE TYPE conversation_type AS ENUM ('DM', 'GROUP', 'PROJECT');
-CREATE TYPE task_status AS ENUM ('TODO', 'IN_PROGRESS', 'DONE');
-CREATE TYPE task_priority AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
-CREATE TYPE project_member_role AS ENUM ('OWNER', 'MAINTAINER', 'CONTRIBUTOR');
-CREATE TYPE calendar_event_source AS ENUM ('MANUAL', 'MESSAGE_EXTRACT');
-CREATE TYPE notification_type AS ENUM ('MESSAGE', 'TASK_ASSIGNED', 'PROJECT_INVITE', 'REMINDER', 'SYSTEM');
-
--- Users table
-CREATE TABLE IF NOT EXISTS users (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    email TEXT NOT NULL UNIQUE,
-    password_hash TEXT NOT NULL,
-    name TEXT NOT NULL,
-    role user_role NOT NULL DEFAULT 'USER',
-    avatar_url TEXT,
-    is_active BOOLEAN NOT NULL DEFAULT true,
-    last_login_at TIMESTAMP,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    updated_at TIMESTAMP NOT NULL DEFAULT now()
+CREATE TYPE "public"."calendar_event_source" AS ENUM('MANUAL', 'MESSAGE_EXTRACT');--> statement-breakpoint
+CREATE TYPE "public"."conversation_type" AS ENUM('DM', 'GROUP', 'PROJECT');--> statement-breakpoint
+CREATE TYPE "public"."notification_type" AS ENUM('MESSAGE', 'TASK_ASSIGNED', 'PROJECT_INVITE', 'REMINDER', 'SYSTEM');--> statement-breakpoint
+CREATE TYPE "public"."project_member_role" AS ENUM('OWNER', 'MAINTAINER', 'CONTRIBUTOR');--> statement-breakpoint
+CREATE TYPE "public"."task_priority" AS ENUM('LOW', 'MEDIUM', 'HIGH', 'URGENT');--> statement-breakpoint
+CREATE TYPE "public"."task_status" AS ENUM('TODO', 'IN_PROGRESS', 'DONE');--> statement-breakpoint
+CREATE TYPE "public"."user_role" AS ENUM('ADMIN', 'USER');--> statement-breakpoint
+CREATE TABLE "attachments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid,
+	"project_id" uuid,
+	"uploader_id" uuid NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"storage_key" text NOT NULL,
+	"is_public" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "attachments_storage_key_unique" UNIQUE("storage_key")
 );
-
--- FCM tokens table
-CREATE TABLE IF NOT EXISTS fcm_tokens (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    token TEXT NOT NULL UNIQUE,
-    platform TEXT NOT NULL,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    last_used_at TIMESTAMP
+--> statement-breakpoint
+CREATE TABLE "audit_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"actor_id" uuid,
+	"action" text NOT NULL,
+	"target" text NOT NULL,
+	"metadata" jsonb,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Divisions table
-CREATE TABLE IF NOT EXISTS divisions (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    name TEXT NOT NULL,
-    parent_id UUID REFERENCES divisions(id) ON DELETE SET NULL,
-    description TEXT,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    updated_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "calendar_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"project_id" uuid,
+	"title" text NOT NULL,
+	"description" text,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"is_all_day" boolean DEFAULT false NOT NULL,
+	"source" "calendar_event_source" DEFAULT 'MANUAL' NOT NULL,
+	"reminder_minutes" integer,
+	"location" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Division members table
-CREATE TABLE IF NOT EXISTS division_members (
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    division_id UUID NOT NULL REFERENCES divisions(id) ON DELETE CASCADE,
-    role_in_division TEXT NOT NULL,
-    joined_at TIMESTAMP NOT NULL DEFAULT now(),
-    UNIQUE(user_id, division_id)
+--> statement-breakpoint
+CREATE TABLE "conversation_members" (
+	"conversation_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"last_read_message_id" uuid,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	"has_left" boolean DEFAULT false NOT NULL
 );
-
--- Conversations table
-CREATE TABLE IF NOT EXISTS conversations (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    type conversation_type NOT NULL,
-    title TEXT,
-    created_by UUID NOT NULL REFERENCES users(id),
-    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
-    last_message_at TIMESTAMP,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    updated_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "conversations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" "conversation_type" NOT NULL,
+	"title" text,
+	"created_by" uuid NOT NULL,
+	"project_id" uuid,
+	"last_message_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Conversation members table
-CREATE TABLE IF NOT EXISTS conversation_members (
-    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    last_read_message_id UUID REFERENCES messages(id),
-    joined_at TIMESTAMP NOT NULL DEFAULT now(),
-    has_left BOOLEAN NOT NULL DEFAULT false,
-    UNIQUE(conversation_id, user_id)
+--> statement-breakpoint
+CREATE TABLE "division_members" (
+	"user_id" uuid NOT NULL,
+	"division_id" uuid NOT NULL,
+	"role_in_division" text NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Messages table
-CREATE TABLE IF NOT EXISTS messages (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
-    sender_id UUID NOT NULL REFERENCES users(id),
-    body_rich JSONB NOT NULL,
-    body_plain TEXT NOT NULL,
-    is_edited BOOLEAN NOT NULL DEFAULT false,
-    edited_at TIMESTAMP,
-    reply_to_id UUID REFERENCES messages(id),
-    created_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "divisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"parent_id" uuid,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Message reactions table
-CREATE TABLE IF NOT EXISTS message_reactions (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    emoji TEXT NOT NULL,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    UNIQUE(message_id, user_id, emoji)
+--> statement-breakpoint
+CREATE TABLE "fcm_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"token" text NOT NULL,
+	"platform" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_used_at" timestamp,
+	CONSTRAINT "fcm_tokens_token_unique" UNIQUE("token")
 );
-
--- Attachments table
-CREATE TABLE IF NOT EXISTS attachments (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
-    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
-    uploader_id UUID NOT NULL REFERENCES users(id),
-    filename TEXT NOT NULL,
-    original_name TEXT NOT NULL,
-    mime_type TEXT NOT NULL,
-    size_bytes INTEGER NOT NULL,
-    storage_key TEXT NOT NULL UNIQUE,
-    is_public BOOLEAN NOT NULL DEFAULT false,
-    created_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "message_reactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"emoji" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Projects table
-CREATE TABLE IF NOT EXISTS projects (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    name TEXT NOT NULL,
-    description TEXT,
-    created_by UUID NOT NULL REFERENCES users(id),
-    division_id UUID REFERENCES divisions(id),
-    status TEXT NOT NULL DEFAULT 'ACTIVE',
-    start_date TIMESTAMP,
-    end_date TIMESTAMP,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    updated_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"sender_id" uuid NOT NULL,
+	"body_rich" jsonb NOT NULL,
+	"body_plain" text NOT NULL,
+	"is_edited" boolean DEFAULT false NOT NULL,
+	"edited_at" timestamp,
+	"reply_to_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Project members table
-CREATE TABLE IF NOT EXISTS project_members (
-    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    role project_member_role NOT NULL DEFAULT 'CONTRIBUTOR',
-    joined_at TIMESTAMP NOT NULL DEFAULT now(),
-    UNIQUE(project_id, user_id)
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "notification_type" NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"payload" jsonb,
+	"is_read" boolean DEFAULT false NOT NULL,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Tasks table
-CREATE TABLE IF NOT EXISTS tasks (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
-    title TEXT NOT NULL,
-    description TEXT,
-    assignee_id UUID REFERENCES users(id) ON DELETE SET NULL,
-    reporter_id UUID NOT NULL REFERENCES users(id),
-    status task_status NOT NULL DEFAULT 'TODO',
-    priority task_priority NOT NULL DEFAULT 'MEDIUM',
-    due_date TIMESTAMP,
-    completed_at TIMESTAMP,
-    estimated_hours INTEGER,
-    actual_hours INTEGER,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    updated_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "password_reset_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"token" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"is_used" boolean DEFAULT false NOT NULL,
+	"used_at" timestamp,
+	"ip_address" text,
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "password_reset_tokens_token_unique" UNIQUE("token")
 );
-
--- Calendar events table
-CREATE TABLE IF NOT EXISTS calendar_events (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
-    title TEXT NOT NULL,
-    description TEXT,
-    starts_at TIMESTAMP NOT NULL,
-    ends_at TIMESTAMP NOT NULL,
-    is_all_day BOOLEAN NOT NULL DEFAULT false,
-    source calendar_event_source NOT NULL DEFAULT 'MANUAL',
-    reminder_minutes INTEGER,
-    location TEXT,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    updated_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "project_members" (
+	"project_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" "project_member_role" DEFAULT 'CONTRIBUTOR' NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Notifications table
-CREATE TABLE IF NOT EXISTS notifications (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    type notification_type NOT NULL,
-    title TEXT NOT NULL,
-    message TEXT NOT NULL,
-    payload JSONB,
-    is_read BOOLEAN NOT NULL DEFAULT false,
-    read_at TIMESTAMP,
-    created_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_by" uuid NOT NULL,
+	"division_id" uuid,
+	"status" text DEFAULT 'ACTIVE' NOT NULL,
+	"start_date" timestamp,
+	"end_date" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Settings table
-CREATE TABLE IF NOT EXISTS settings (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    key TEXT NOT NULL UNIQUE,
-    value JSONB NOT NULL,
-    description TEXT,
-    is_public BOOLEAN NOT NULL DEFAULT false,
-    created_at TIMESTAMP NOT NULL DEFAULT now(),
-    updated_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key" text NOT NULL,
+	"value" jsonb NOT NULL,
+	"description" text,
+	"is_public" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "settings_key_unique" UNIQUE("key")
 );
-
--- Audit logs table
-CREATE TABLE IF NOT EXISTS audit_logs (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
-    action TEXT NOT NULL,
-    target TEXT NOT NULL,
-    metadata JSONB,
-    ip_address TEXT,
-    user_agent TEXT,
-    created_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "tasks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"assignee_id" uuid,
+	"reporter_id" uuid NOT NULL,
+	"status" "task_status" DEFAULT 'TODO' NOT NULL,
+	"priority" "task_priority" DEFAULT 'MEDIUM' NOT NULL,
+	"due_date" timestamp,
+	"completed_at" timestamp,
+	"estimated_hours" integer,
+	"actual_hours" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
 );
-
--- Password reset tokens table
-CREATE TABLE IF NOT EXISTS password_reset_tokens (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    token TEXT NOT NULL UNIQUE,
-    expires_at TIMESTAMP NOT NULL,
-    is_used BOOLEAN NOT NULL DEFAULT false,
-    used_at TIMESTAMP,
-    ip_address TEXT,
-    user_agent TEXT,
-    created_at TIMESTAMP NOT NULL DEFAULT now()
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"name" text NOT NULL,
+	"role" "user_role" DEFAULT 'USER' NOT NULL,
+	"avatar_url" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_login_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_email_unique" UNIQUE("email")
 );
-
--- Create indexes for performance
-CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
-CREATE INDEX IF NOT EXISTS idx_users_name ON users USING gin(name);
-CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
-CREATE INDEX IF NOT EXISTS idx_fcm_tokens_user_id ON fcm_tokens(user_id);
-CREATE INDEX IF NOT EXISTS idx_divisions_name ON divisions USING gin(name);
-CREATE INDEX IF NOT EXISTS idx_divisions_parent_id ON divisions(parent_id);
-CREATE INDEX IF NOT EXISTS idx_division_members_user_id ON division_members(user_id);
-CREATE INDEX IF NOT EXISTS idx_division_members_division_id ON division_members(division_id);
-CREATE INDEX IF NOT EXISTS idx_conversations_created_by ON conversations(created_by);
-CREATE INDEX IF NOT EXISTS idx_conversations_project_id ON conversations(project_id);
-CREATE INDEX IF NOT EXISTS idx_conversations_type ON conversations(type);
-CREATE INDEX IF NOT EXISTS idx_conversations_last_message_at ON conversations(last_message_at);
-CREATE INDEX IF NOT EXISTS idx_conversation_members_conversation_id ON conversation_members(conversation_id);
-CREATE INDEX IF NOT EXISTS idx_conversation_members_user_id ON conversation_members(user_id);
-CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages(conversation_id);
-CREATE INDEX IF NOT EXISTS idx_messages_sender_id ON messages(sender_id);
-CREATE INDEX IF NOT EXISTS idx_messages_reply_to_id ON messages(reply_to_id);
-CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
-CREATE INDEX IF NOT EXISTS idx_messages_body_plain_search ON messages USING gin(body_plain);
-CREATE INDEX IF NOT EXISTS idx_message_reactions_message_id ON message_reactions(message_id);
-CREATE INDEX IF NOT EXISTS idx_message_reactions_user_id ON message_reactions(user_id);
-CREATE INDEX IF NOT EXISTS idx_attachments_message_id ON attachments(message_id);
-CREATE INDEX IF NOT EXISTS idx_attachments_project_id ON attachments(project_id);
-CREATE INDEX IF NOT EXISTS idx_attachments_uploader_id ON attachments(uploader_id);
-CREATE INDEX IF NOT EXISTS idx_attachments_filename ON attachments USING gin(filename);
-CREATE INDEX IF NOT EXISTS idx_projects_name ON projects USING gin(name);
-CREATE INDEX IF NOT EXISTS idx_projects_created_by ON projects(created_by);
-CREATE INDEX IF NOT EXISTS idx_projects_division_id ON projects(division_id);
-CREATE INDEX IF NOT EXISTS idx_projects_status ON projects(status);
-CREATE INDEX IF NOT EXISTS idx_project_members_project_id ON project_members(project_id);
-CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
-CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
-CREATE INDEX IF NOT EXISTS idx_tasks_assignee_id ON tasks(assignee_id);
-CREATE INDEX IF NOT EXISTS idx_tasks_reporter_id ON tasks(reporter_id);
-CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
-CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date);
-CREATE INDEX IF NOT EXISTS idx_tasks_title ON tasks USING gin(title);
-CREATE INDEX IF NOT EXISTS idx_calendar_events_user_id ON calendar_events(user_id);
-CREATE INDEX IF NOT EXISTS idx_calendar_events_project_id ON calendar_events(project_id);
-CREATE INDEX IF NOT EXISTS idx_calendar_events_starts_at ON calendar_events(starts_at);
-CREATE INDEX IF NOT EXISTS idx_calendar_events_title ON calendar_events USING gin(title);
-CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);
-CREATE INDEX IF NOT EXISTS idx_notifications_type ON notifications(type);
-CREATE INDEX IF NOT EXISTS idx_notifications_is_read ON notifications(is_read);
-CREATE INDEX IF NOT EXISTS idx_notifications_created_at ON notifications(created_at);
-CREATE INDEX IF NOT EXISTS idx_settings_key ON settings(key);
-CREATE INDEX IF NOT EXISTS idx_audit_logs_actor_id ON audit_logs(actor_id);
-CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
-CREATE INDEX IF NOT EXISTS idx_audit_logs_target ON audit_logs(target);
-CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at);
-CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
-CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_token ON password_reset_tokens(token);
-CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_expires_at ON password_reset_tokens(expires_at);
\ No newline at end of file
+--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_uploader_id_users_id_fk" FOREIGN KEY ("uploader_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calendar_events" ADD CONSTRAINT "calendar_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calendar_events" ADD CONSTRAINT "calendar_events_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_members" ADD CONSTRAINT "conversation_members_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_members" ADD CONSTRAINT "conversation_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_members" ADD CONSTRAINT "conversation_members_last_read_message_id_messages_id_fk" FOREIGN KEY ("last_read_message_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "division_members" ADD CONSTRAINT "division_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "division_members" ADD CONSTRAINT "division_members_division_id_divisions_id_fk" FOREIGN KEY ("division_id") REFERENCES "public"."divisions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "divisions" ADD CONSTRAINT "divisions_parent_id_divisions_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."divisions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fcm_tokens" ADD CONSTRAINT "fcm_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_reply_to_id_messages_id_fk" FOREIGN KEY ("reply_to_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_division_id_divisions_id_fk" FOREIGN KEY ("division_id") REFERENCES "public"."divisions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_assignee_id_users_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_reporter_id_users_id_fk" FOREIGN KEY ("reporter_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_attachments_message_id" ON "attachments" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "idx_attachments_project_id" ON "attachments" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX "idx_attachments_uploader_id" ON "attachments" USING btree ("uploader_id");--> statement-breakpoint
+CREATE INDEX "idx_attachments_filename" ON "attachments" USING gin ("filename");--> statement-breakpoint
+CREATE INDEX "idx_audit_logs_actor_id" ON "audit_logs" USING btree ("actor_id");--> statement-breakpoint
+CREATE INDEX "idx_audit_logs_action" ON "audit_logs" USING btree ("action");--> statement-breakpoint
+CREATE INDEX "idx_audit_logs_target" ON "audit_logs" USING btree ("target");--> statement-breakpoint
+CREATE INDEX "idx_audit_logs_created_at" ON "audit_logs" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "idx_calendar_events_user_id" ON "calendar_events" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_calendar_events_project_id" ON "calendar_events" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX "idx_calendar_events_starts_at" ON "calendar_events" USING btree ("starts_at");--> statement-breakpoint
+CREATE INDEX "idx_calendar_events_title" ON "calendar_events" USING gin ("title");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_conversation_user" ON "conversation_members" USING btree ("conversation_id","user_id");--> statement-breakpoint
+CREATE INDEX "idx_conversation_members_conversation_id" ON "conversation_members" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "idx_conversation_members_user_id" ON "conversation_members" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_conversations_created_by" ON "conversations" USING btree ("created_by");--> statement-breakpoint
+CREATE INDEX "idx_conversations_project_id" ON "conversations" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX "idx_conversations_type" ON "conversations" USING btree ("type");--> statement-breakpoint
+CREATE INDEX "idx_conversations_last_message_at" ON "conversations" USING btree ("last_message_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_user_division" ON "division_members" USING btree ("user_id","division_id");--> statement-breakpoint
+CREATE INDEX "idx_division_members_user_id" ON "division_members" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_division_members_division_id" ON "division_members" USING btree ("division_id");--> statement-breakpoint
+CREATE INDEX "idx_divisions_name" ON "divisions" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "idx_divisions_parent_id" ON "divisions" USING btree ("parent_id");--> statement-breakpoint
+CREATE INDEX "idx_fcm_tokens_user_id" ON "fcm_tokens" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_message_user_emoji" ON "message_reactions" USING btree ("message_id","user_id","emoji");--> statement-breakpoint
+CREATE INDEX "idx_message_reactions_message_id" ON "message_reactions" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "idx_message_reactions_user_id" ON "message_reactions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_messages_conversation_id" ON "messages" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "idx_messages_sender_id" ON "messages" USING btree ("sender_id");--> statement-breakpoint
+CREATE INDEX "idx_messages_reply_to_id" ON "messages" USING btree ("reply_to_id");--> statement-breakpoint
+CREATE INDEX "idx_messages_created_at" ON "messages" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "idx_messages_body_plain_search" ON "messages" USING gin ("body_plain");--> statement-breakpoint
+CREATE INDEX "idx_notifications_user_id" ON "notifications" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_notifications_type" ON "notifications" USING btree ("type");--> statement-breakpoint
+CREATE INDEX "idx_notifications_is_read" ON "notifications" USING btree ("is_read");--> statement-breakpoint
+CREATE INDEX "idx_notifications_created_at" ON "notifications" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "idx_password_reset_tokens_user_id" ON "password_reset_tokens" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_password_reset_tokens_token" ON "password_reset_tokens" USING btree ("token");--> statement-breakpoint
+CREATE INDEX "idx_password_reset_tokens_expires_at" ON "password_reset_tokens" USING btree ("expires_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_project_user" ON "project_members" USING btree ("project_id","user_id");--> statement-breakpoint
+CREATE INDEX "idx_project_members_project_id" ON "project_members" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX "idx_project_members_user_id" ON "project_members" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_projects_name" ON "projects" USING gin ("name");--> statement-breakpoint
+CREATE INDEX "idx_projects_created_by" ON "projects" USING btree ("created_by");--> statement-breakpoint
+CREATE INDEX "idx_projects_division_id" ON "projects" USING btree ("division_id");--> statement-breakpoint
+CREATE INDEX "idx_projects_status" ON "projects" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_settings_key" ON "settings" USING btree ("key");--> statement-breakpoint
+CREATE INDEX "idx_tasks_project_id" ON "tasks" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX "idx_tasks_assignee_id" ON "tasks" USING btree ("assignee_id");--> statement-breakpoint
+CREATE INDEX "idx_tasks_reporter_id" ON "tasks" USING btree ("reporter_id");--> statement-breakpoint
+CREATE INDEX "idx_tasks_status" ON "tasks" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_tasks_priority" ON "tasks" USING btree ("priority");--> statement-breakpoint
+CREATE INDEX "idx_tasks_due_date" ON "tasks" USING btree ("due_date");--> statement-breakpoint
+CREATE INDEX "idx_tasks_title" ON "tasks" USING gin ("title");--> statement-breakpoint
+CREATE INDEX "idx_users_email" ON "users" USING btree ("email");--> statement-breakpoint
+CREATE INDEX "idx_users_name" ON "users" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "idx_users_role" ON "users" USING btree ("role");
\ No newline at end of file
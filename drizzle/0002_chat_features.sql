@@ -0,0 +1,232 @@
+CREATE TYPE "public"."conversation_member_role" AS ENUM('ADMIN', 'MEMBER');--> statement-breakpoint
+CREATE TYPE "public"."export_format" AS ENUM('JSON', 'MARKDOWN', 'HTML');--> statement-breakpoint
+CREATE TYPE "public"."export_status" AS ENUM('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED');--> statement-breakpoint
+CREATE TYPE "public"."link_preview_type" AS ENUM('EXTERNAL', 'PROJECT', 'TASK', 'FILE');--> statement-breakpoint
+CREATE TYPE "public"."message_type" AS ENUM('USER', 'SYSTEM');--> statement-breakpoint
+CREATE TYPE "public"."notification_level" AS ENUM('ALL', 'MENTIONS', 'NOTHING');--> statement-breakpoint
+CREATE TYPE "public"."scheduled_message_status" AS ENUM('PENDING', 'SENDING', 'SENT', 'CANCELLED', 'FAILED');--> statement-breakpoint
+CREATE TABLE "bot_commands" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bot_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"usage" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "chat_bots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"webhook_url" text NOT NULL,
+	"signing_secret" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "conversation_exports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"requested_by" uuid NOT NULL,
+	"format" "export_format" NOT NULL,
+	"status" "export_status" DEFAULT 'QUEUED' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"message_count" integer,
+	"storage_key" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "link_preview_cache" (
+	"url" text PRIMARY KEY NOT NULL,
+	"title" text,
+	"description" text,
+	"image_url" text,
+	"site_name" text,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_attachment_shares" (
+	"message_id" uuid NOT NULL,
+	"attachment_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_link_previews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"url" text NOT NULL,
+	"type" "link_preview_type" NOT NULL,
+	"resource_id" uuid,
+	"title" text,
+	"description" text,
+	"image_url" text,
+	"site_name" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_mentions" (
+	"message_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"mention_type" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"body_rich" jsonb NOT NULL,
+	"body_plain" text NOT NULL,
+	"edited_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pinned_messages" (
+	"message_id" uuid NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"pinned_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "poll_options" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"poll_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"text" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "poll_votes" (
+	"poll_id" uuid NOT NULL,
+	"option_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "polls" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" uuid NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"created_by" uuid NOT NULL,
+	"question" text NOT NULL,
+	"allows_multiple" boolean DEFAULT false NOT NULL,
+	"is_anonymous" boolean DEFAULT false NOT NULL,
+	"closes_at" timestamp,
+	"closed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saved_messages" (
+	"message_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"note" text,
+	"remind_at" timestamp,
+	"reminded_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scheduled_messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"sender_id" uuid NOT NULL,
+	"body_rich" jsonb NOT NULL,
+	"reply_to_id" uuid,
+	"attachment_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"send_at" timestamp NOT NULL,
+	"status" "scheduled_message_status" DEFAULT 'PENDING' NOT NULL,
+	"sent_message_id" uuid,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "thread_followers" (
+	"message_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"is_following" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "idx_messages_body_plain_search";--> statement-breakpoint
+ALTER TABLE "conversation_members" ADD COLUMN "role" "conversation_member_role" DEFAULT 'MEMBER' NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversation_members" ADD COLUMN "notification_level" "notification_level" DEFAULT 'ALL' NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversation_members" ADD COLUMN "muted_until" timestamp;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "avatar_url" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "dm_key" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "last_seq" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "legal_hold" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "legal_hold_reason" text;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "type" "message_type" DEFAULT 'USER' NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "system_event" jsonb;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "seq" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "client_id" text;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "forwarded_from_id" uuid;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "bot_name" text;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "deleted_by" uuid;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', coalesce(body_plain, ''))) STORED;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_seen_at" timestamp;--> statement-breakpoint
+ALTER TABLE "bot_commands" ADD CONSTRAINT "bot_commands_bot_id_chat_bots_id_fk" FOREIGN KEY ("bot_id") REFERENCES "public"."chat_bots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_bots" ADD CONSTRAINT "chat_bots_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_exports" ADD CONSTRAINT "conversation_exports_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_exports" ADD CONSTRAINT "conversation_exports_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_attachment_shares" ADD CONSTRAINT "message_attachment_shares_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_attachment_shares" ADD CONSTRAINT "message_attachment_shares_attachment_id_attachments_id_fk" FOREIGN KEY ("attachment_id") REFERENCES "public"."attachments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_link_previews" ADD CONSTRAINT "message_link_previews_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_mentions" ADD CONSTRAINT "message_mentions_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_mentions" ADD CONSTRAINT "message_mentions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_revisions" ADD CONSTRAINT "message_revisions_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_revisions" ADD CONSTRAINT "message_revisions_edited_by_users_id_fk" FOREIGN KEY ("edited_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pinned_messages" ADD CONSTRAINT "pinned_messages_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pinned_messages" ADD CONSTRAINT "pinned_messages_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pinned_messages" ADD CONSTRAINT "pinned_messages_pinned_by_users_id_fk" FOREIGN KEY ("pinned_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_options" ADD CONSTRAINT "poll_options_poll_id_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."polls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_poll_id_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."polls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_option_id_poll_options_id_fk" FOREIGN KEY ("option_id") REFERENCES "public"."poll_options"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "polls" ADD CONSTRAINT "polls_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "polls" ADD CONSTRAINT "polls_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "polls" ADD CONSTRAINT "polls_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_messages" ADD CONSTRAINT "saved_messages_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_messages" ADD CONSTRAINT "saved_messages_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_reply_to_id_messages_id_fk" FOREIGN KEY ("reply_to_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_messages" ADD CONSTRAINT "scheduled_messages_sent_message_id_messages_id_fk" FOREIGN KEY ("sent_message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "thread_followers" ADD CONSTRAINT "thread_followers_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "thread_followers" ADD CONSTRAINT "thread_followers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_bot_command_name" ON "bot_commands" USING btree ("name");--> statement-breakpoint
+CREATE INDEX "idx_bot_commands_bot_id" ON "bot_commands" USING btree ("bot_id");--> statement-breakpoint
+CREATE INDEX "idx_conversation_exports_conversation_id" ON "conversation_exports" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "idx_conversation_exports_status" ON "conversation_exports" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_message_attachment_share" ON "message_attachment_shares" USING btree ("message_id","attachment_id");--> statement-breakpoint
+CREATE INDEX "idx_message_attachment_shares_attachment_id" ON "message_attachment_shares" USING btree ("attachment_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_message_link_preview" ON "message_link_previews" USING btree ("message_id","position");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_message_mention" ON "message_mentions" USING btree ("message_id","user_id");--> statement-breakpoint
+CREATE INDEX "idx_message_mentions_user_id" ON "message_mentions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_message_revisions_message_id" ON "message_revisions" USING btree ("message_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_pinned_message" ON "pinned_messages" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "idx_pinned_messages_conversation_id" ON "pinned_messages" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "idx_poll_options_poll_id" ON "poll_options" USING btree ("poll_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_poll_vote" ON "poll_votes" USING btree ("option_id","user_id");--> statement-breakpoint
+CREATE INDEX "idx_poll_votes_poll_user" ON "poll_votes" USING btree ("poll_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_poll_message" ON "polls" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "idx_polls_closes_at" ON "polls" USING btree ("closes_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_saved_message" ON "saved_messages" USING btree ("user_id","message_id");--> statement-breakpoint
+CREATE INDEX "idx_saved_messages_user_id" ON "saved_messages" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_saved_messages_remind_at" ON "saved_messages" USING btree ("remind_at");--> statement-breakpoint
+CREATE INDEX "idx_scheduled_messages_sender_id" ON "scheduled_messages" USING btree ("sender_id");--> statement-breakpoint
+CREATE INDEX "idx_scheduled_messages_status_send_at" ON "scheduled_messages" USING btree ("status","send_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_thread_follower" ON "thread_followers" USING btree ("message_id","user_id");--> statement-breakpoint
+CREATE INDEX "idx_thread_followers_user_id" ON "thread_followers" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_forwarded_from_id_messages_id_fk" FOREIGN KEY ("forwarded_from_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_conversation_dm_key" ON "conversations" USING btree ("dm_key");--> statement-breakpoint
+CREATE INDEX "idx_messages_conversation_seq" ON "messages" USING btree ("conversation_id","seq");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_message_sender_client_id" ON "messages" USING btree ("sender_id","client_id");--> statement-breakpoint
+CREATE INDEX "idx_messages_search_vector" ON "messages" USING gin ("search_vector");
\ No newline at end of file
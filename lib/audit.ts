@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server';
+
+// Request details recorded in audit_logs
+export interface AuditContext {
+  ipAddress: string;
+  userAgent: string;
+}
+
+export function getAuditContext(request: NextRequest): AuditContext {
+  return {
+    ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+    userAgent: request.headers.get('user-agent') || 'unknown'
+  };
+}
@@ -23,17 +23,24 @@ const JWT_CONFIG = {
 const JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'your-access-secret-key';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key';
 
+// The token stores live on globalThis so API route bundles and the Socket.IO
+// server (loaded from server.ts) share the same refresh tokens and blacklist
+const globalForTokens = globalThis as unknown as {
+  refreshTokens?: Map<string, {
+    userId: string;
+    tokenId: string;
+    expiresAt: number;
+    createdAt: number;
+    isRevoked: boolean;
+  }>;
+  blacklistedTokens?: Set<string>;
+};
+
 // In-memory store for refresh tokens (in production, use Redis or database)
-const refreshTokens = new Map<string, {
-  userId: string;
-  tokenId: string;
-  expiresAt: number;
-  createdAt: number;
-  isRevoked: boolean;
-}>();
+const refreshTokens = globalForTokens.refreshTokens ??= new Map();
 
 // In-memory store for blacklisted tokens
-const blacklistedTokens = new Set<string>();
+const blacklistedTokens = globalForTokens.blacklistedTokens ??= new Set<string>();
 
 export interface JWTPayload {
   sub: string; // User ID
@@ -295,6 +302,13 @@ export class JWTService {
     }
   }
 
+  /**
+   * Check whether a token ID (jti) has been blacklisted
+   */
+  static isTokenBlacklisted(tokenId: string): boolean {
+    return blacklistedTokens.has(tokenId);
+  }
+
   /**
    * Clean up expired tokens
    */
@@ -397,4 +411,5 @@ export const refreshTokens = JWTService.refreshTokens.bind(JWTService);
 export const revokeRefreshToken = JWTService.revokeRefreshToken.bind(JWTService);
 export const revokeAllUserTokens = JWTService.revokeAllUserTokens.bind(JWTService);
 export const blacklistToken = JWTService.blacklistToken.bind(JWTService);
+export const isTokenBlacklisted = JWTService.isTokenBlacklisted.bind(JWTService);
 export const extractTokenFromHeader = JWTService.extractTokenFromHeader.bind(JWTService);
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitArguments } from '@/lib/chat/builtin-commands';
+
+describe('splitArguments', () => {
+  it('splits on whitespace', () => {
+    assert.deepEqual(splitArguments('one two\tthree\nfour'), ['one', 'two', 'three', 'four']);
+  });
+
+  it('keeps quoted phrases together without the quotes', () => {
+    assert.deepEqual(
+      splitArguments('"Where do we meet?" "Main office" Remote'),
+      ['Where do we meet?', 'Main office', 'Remote']
+    );
+  });
+
+  it('keeps empty quoted arguments', () => {
+    assert.deepEqual(splitArguments('"" next'), ['', 'next']);
+  });
+
+  it('ignores surrounding and repeated whitespace', () => {
+    assert.deepEqual(splitArguments('   a    "b  c"   '), ['a', 'b  c']);
+  });
+
+  it('returns no arguments for blank text', () => {
+    assert.deepEqual(splitArguments(''), []);
+    assert.deepEqual(splitArguments('   '), []);
+  });
+
+  it('treats an unmatched quote as part of a word', () => {
+    assert.deepEqual(splitArguments('"unclosed phrase'), ['"unclosed', 'phrase']);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getExportWriter, type ExportedMessage, type ExportHeader } from '@/lib/chat/export-formats';
+
+const header: ExportHeader = {
+  conversationId: '5d9c1f5e-3b0a-4c61-8f0e-6a2d7b9e4c13',
+  conversationType: 'GROUP',
+  title: '<Launch> & "Plans"',
+  exportedAt: new Date('2025-03-02T09:00:00.000Z'),
+  exportedBy: 'Ada <admin>'
+};
+
+function exportedMessage(overrides: Partial<ExportedMessage> = {}): ExportedMessage {
+  return {
+    id: '0b6f1c52-6a4e-4c1e-9d7a-2f4b8e1d3c5a',
+    seq: 1,
+    type: 'USER',
+    senderId: '7e0d2a4b-1c3f-4e5a-9b8c-6d7e8f9a0b1c',
+    senderName: 'Bob "The Builder"',
+    botName: null,
+    createdAt: new Date('2025-03-01T12:00:00.000Z'),
+    editedAt: null,
+    deletedAt: null,
+    bodyPlain: '<script>alert("hi")</script> & more\nsecond line',
+    bodyRich: null,
+    systemEvent: null,
+    reactions: [{ emoji: '👍', userNames: ['Carol <c@example.com>'] }],
+    attachments: [{
+      id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+      originalName: '<img src=x onerror=alert(1)>.png',
+      mimeType: 'image/png',
+      sizeBytes: 1024,
+      storageKey: 'files/a1b2.png'
+    }],
+    revisions: [{ bodyPlain: 'old <b>text</b>', editedBy: 'Bob', createdAt: new Date('2025-03-01T11:59:00.000Z') }],
+    forwardedFrom: { messageId: 'f0e1d2c3-b4a5-4968-8776-655443322110', senderName: 'Dan & Co', createdAt: new Date('2025-02-28T08:00:00.000Z') },
+    poll: {
+      question: 'Where?',
+      allowsMultiple: false,
+      isAnonymous: false,
+      closesAt: null,
+      closedAt: new Date('2025-03-01T13:00:00.000Z'),
+      isClosed: true,
+      voterCount: 1,
+      options: [{ text: '<Office>', voteCount: 1, voterNames: ['Eve'] }, { text: 'Remote', voteCount: 0, voterNames: [] }]
+    },
+    replies: [],
+    ...overrides
+  };
+}
+
+function render(format: 'JSON' | 'MARKDOWN' | 'HTML', messages: ExportedMessage[]): string {
+  const writer = getExportWriter(format);
+  return writer.begin(header) + messages.map((message, index) => writer.message(message, index)).join('') + writer.end();
+}
+
+describe('JSON export', () => {
+  it('produces valid JSON with every message', () => {
+    const messages = [exportedMessage(), exportedMessage({ id: 'second', seq: 2 })];
+    const parsed = JSON.parse(render('JSON', messages));
+
+    assert.equal(parsed.conversation.title, header.title);
+    assert.equal(parsed.messages.length, 2);
+    assert.equal(parsed.messages[0].bodyPlain, messages[0].bodyPlain);
+    assert.equal(parsed.messages[0].poll.options[0].text, '<Office>');
+    assert.equal(parsed.messages[0].forwardedFrom.senderName, 'Dan & Co');
+  });
+
+  it('produces valid JSON without messages', () => {
+    assert.deepEqual(JSON.parse(render('JSON', [])).messages, []);
+  });
+});
+
+describe('HTML export', () => {
+  const html = render('HTML', [exportedMessage()]);
+
+  it('escapes message content', () => {
+    assert.ok(!html.includes('<script>'));
+    assert.ok(html.includes('&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt; &amp; more<br>second line'));
+  });
+
+  it('escapes the title, names, attachments, reactions, revisions, forwards and polls', () => {
+    assert.ok(html.includes('<title>&lt;Launch&gt; &amp; &quot;Plans&quot;</title>'));
+    assert.ok(html.includes('by Ada &lt;admin&gt;'));
+    assert.ok(html.includes('<strong>Bob &quot;The Builder&quot;</strong>'));
+    assert.ok(html.includes('&lt;img src=x onerror=alert(1)&gt;.png'));
+    assert.ok(html.includes('title="Carol &lt;c@example.com&gt;"'));
+    assert.ok(html.includes('old &lt;b&gt;text&lt;/b&gt;'));
+    assert.ok(html.includes('Forwarded from Dan &amp; Co'));
+    assert.ok(html.includes('<li>&lt;Office&gt; — 1 vote: Eve</li>'));
+    assert.ok(!html.includes('<img'));
+  });
+
+  it('names the bot that wrote a message', () => {
+    const reply = render('HTML', [exportedMessage({ botName: '<Deploy Bot>' })]);
+    assert.ok(reply.includes('<strong>&lt;Deploy Bot&gt; (bot, via Bob &quot;The Builder&quot;)</strong>'));
+  });
+
+  it('hides the body of deleted messages', () => {
+    const deleted = render('HTML', [exportedMessage({ deletedAt: new Date('2025-03-01T14:00:00.000Z') })]);
+    assert.ok(deleted.includes('<div class="body">(message deleted)</div>'));
+    assert.ok(!deleted.includes('second line'));
+  });
+});
+
+describe('Markdown export', () => {
+  it('quotes every line of thread replies', () => {
+    const reply = exportedMessage({ id: 'reply', bodyPlain: 'first\nsecond', poll: null, forwardedFrom: null });
+    const markdown = render('MARKDOWN', [exportedMessage({ replies: [reply] })]);
+    const replyText = markdown.slice(markdown.indexOf('> **'));
+
+    for (const line of replyText.split('\n---')[0].trimEnd().split('\n')) {
+      assert.ok(line.startsWith('> '), `unquoted reply line: ${line}`);
+    }
+  });
+
+  it('includes poll results and the forward source', () => {
+    const markdown = render('MARKDOWN', [exportedMessage()]);
+    assert.ok(markdown.includes('_Forwarded from Dan & Co (2025-02-28T08:00:00.000Z)_'));
+    assert.ok(markdown.includes('📊 Poll (closed 2025-03-01T13:00:00.000Z, 1 voters)'));
+    assert.ok(markdown.includes('- <Office> — 1 vote: Eve'));
+    assert.ok(markdown.includes('- Remote — 0 votes'));
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPublicAddress, parseHtmlPreview } from '@/lib/chat/link-preview-fetcher';
+
+describe('isPublicAddress', () => {
+  it('allows public IPv4 and IPv6 addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '93.184.216.34', '2606:4700:4700::1111', '2001:db8::1']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('blocks private, loopback, link-local and reserved IPv4 ranges', () => {
+    const blocked = [
+      '0.0.0.0', '10.0.0.1', '10.255.255.255', '100.64.0.1', '127.0.0.1', '169.254.169.254',
+      '172.16.0.1', '172.31.255.255', '192.0.0.8', '192.168.1.1', '198.18.0.1', '224.0.0.1', '255.255.255.255'
+    ];
+    for (const address of blocked) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('allows addresses right outside the blocked ranges', () => {
+    for (const address of ['9.255.255.255', '11.0.0.0', '100.128.0.0', '172.15.255.255', '172.32.0.0', '198.20.0.0', '223.255.255.255']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('blocks loopback, unique local, link-local and multicast IPv6', () => {
+    for (const address of ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'FEBF::1', 'ff02::1']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('checks IPv4-mapped IPv6 addresses as IPv4', () => {
+    assert.equal(isPublicAddress('::ffff:127.0.0.1'), false);
+    assert.equal(isPublicAddress('::FFFF:10.1.2.3'), false);
+    assert.equal(isPublicAddress('::ffff:8.8.8.8'), true);
+  });
+
+  it('checks IPv4 embedded in hex-form IPv6 addresses as IPv4', () => {
+    for (const address of ['::ffff:7f00:1', '::ffff:a00:1', '::ffff:a9fe:a9fe', '64:ff9b::7f00:1', '64:ff9b::c0a8:101', '::7f00:1', '0:0:0:0:0:ffff:7f00:1']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+    for (const address of ['::ffff:808:808', '64:ff9b::808:808', '::808:808']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('checks the hostnames URL parsing produces for bracketed addresses', () => {
+    for (const url of ['http://[::ffff:127.0.0.1]/', 'http://[::ffff:10.0.0.1]/', 'http://[64:ff9b::127.0.0.1]/', 'http://[::127.0.0.1]/']) {
+      const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+      assert.equal(isPublicAddress(hostname), false, url);
+    }
+  });
+
+  it('rejects values that are not IP addresses', () => {
+    assert.equal(isPublicAddress('localhost'), false);
+  });
+});
+
+describe('parseHtmlPreview', () => {
+  const pageUrl = new URL('https://example.com/articles/1');
+
+  it('reads Open Graph tags', () => {
+    const html = `<html><head>
+      <meta property="og:title" content="Launch &amp; Learn">
+      <meta property="og:description" content='A look at &quot;what&#39;s next&quot;'>
+      <meta property="og:image" content="/images/cover.png">
+      <meta property="og:site_name" content="Example News">
+      <title>Ignored</title>
+    </head></html>`;
+
+    assert.deepEqual(parseHtmlPreview(html, pageUrl), {
+      title: 'Launch & Learn',
+      description: 'A look at "what\'s next"',
+      imageUrl: 'https://example.com/images/cover.png',
+      siteName: 'Example News'
+    });
+  });
+
+  it('falls back to the title tag, description meta tag and hostname', () => {
+    const html = '<title>\n  Plain   page\n</title><meta content="Short summary" name="description">';
+
+    assert.deepEqual(parseHtmlPreview(html, pageUrl), {
+      title: 'Plain page',
+      description: 'Short summary',
+      imageUrl: null,
+      siteName: 'example.com'
+    });
+  });
+
+  it('uses the first of repeated tags', () => {
+    const html = '<meta property="og:title" content="First"><meta property="og:title" content="Second">';
+    assert.equal(parseHtmlPreview(html, pageUrl)?.title, 'First');
+  });
+
+  it('returns nothing without a title', () => {
+    assert.equal(parseHtmlPreview('<meta property="og:description" content="No title">', pageUrl), null);
+    assert.equal(parseHtmlPreview('<title>   </title>', pageUrl), null);
+  });
+
+  it('drops images that are not http(s) URLs', () => {
+    const html = '<meta property="og:title" content="Page"><meta property="og:image" content="javascript:alert(1)">';
+    assert.equal(parseHtmlPreview(html, pageUrl)?.imageUrl, null);
+  });
+
+  it('limits the length of the title', () => {
+    const html = `<title>${'a'.repeat(500)}</title>`;
+    assert.equal(parseHtmlPreview(html, pageUrl)?.title?.length, 300);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMentions } from '@/lib/chat/mention-service';
+import type { RichTextNode } from '@/lib/chat/rich-text';
+
+const ADA = '3f0c4a52-1b2d-4e6f-8a9b-0c1d2e3f4a5b';
+const BOB = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d';
+
+const doc = (...content: RichTextNode[]): RichTextNode => ({ type: 'doc', content: [{ type: 'paragraph', content }] });
+const mention = (id: unknown): RichTextNode => ({ type: 'mention', attrs: { id } });
+const text = (value: string): RichTextNode => ({ type: 'text', text: value });
+
+describe('parseMentions', () => {
+  it('collects mentioned user IDs', () => {
+    assert.deepEqual(parseMentions(doc(text('Hi '), mention(ADA), text(' and '), mention(BOB))), {
+      userIds: [ADA, BOB],
+      here: false,
+      channel: false
+    });
+  });
+
+  it('lists a user mentioned twice once', () => {
+    assert.deepEqual(parseMentions(doc(mention(ADA), text(' '), mention(ADA))).userIds, [ADA]);
+  });
+
+  it('reads @here and @channel mention nodes', () => {
+    assert.deepEqual(parseMentions(doc(mention('here'))), { userIds: [], here: true, channel: false });
+    assert.deepEqual(parseMentions(doc(mention('channel'))), { userIds: [], here: false, channel: true });
+  });
+
+  it('reads @here and @channel typed as text', () => {
+    assert.deepEqual(parseMentions(doc(text('@here please look'))), { userIds: [], here: true, channel: false });
+    assert.deepEqual(parseMentions(doc(text('ping\n@channel'))), { userIds: [], here: false, channel: true });
+    assert.deepEqual(parseMentions('@here and @channel'), { userIds: [], here: true, channel: true });
+  });
+
+  it('ignores group mentions inside words and longer names', () => {
+    assert.deepEqual(parseMentions('mail me@here or @channels'), { userIds: [], here: false, channel: false });
+  });
+
+  it('ignores malformed mention nodes', () => {
+    const body = doc(
+      mention('not-a-uuid'),
+      mention(42),
+      { type: 'mention' },
+      { type: 'mention', attrs: { label: 'Ada' } },
+      { type: 'text' }
+    );
+    assert.deepEqual(parseMentions(body), { userIds: [], here: false, channel: false });
+  });
+
+  it('finds mentions in nested content', () => {
+    const body: RichTextNode = {
+      type: 'doc',
+      content: [{ type: 'bulletList', content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [mention(BOB)] }] }] }]
+    };
+    assert.deepEqual(parseMentions(body).userIds, [BOB]);
+  });
+
+  it('returns no mentions for input that is not a document', () => {
+    for (const input of [null, undefined, 42, '']) {
+      assert.deepEqual(parseMentions(input), { userIds: [], here: false, channel: false }, String(input));
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeCursor, decodeCursor } from '@/lib/chat/message-cursor';
+
+const position = {
+  createdAt: new Date('2025-03-01T12:30:45.123Z'),
+  id: '0b6f1c52-6a4e-4c1e-9d7a-2f4b8e1d3c5a'
+};
+
+function rawCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('message cursors', () => {
+  it('round-trips a position', () => {
+    assert.deepEqual(decodeCursor(encodeCursor(position)), position);
+  });
+
+  it('keeps millisecond precision', () => {
+    assert.equal(decodeCursor(encodeCursor(position)).createdAt.getTime(), position.createdAt.getTime());
+  });
+
+  it('rejects a cursor that is not base64 JSON', () => {
+    assert.throws(() => decodeCursor('not a cursor'), { message: 'Invalid cursor' });
+  });
+
+  it('rejects an id that is not a UUID', () => {
+    const cursor = rawCursor([position.createdAt.toISOString(), "1' or '1'='1"]);
+    assert.throws(() => decodeCursor(cursor), { message: 'Invalid cursor' });
+  });
+
+  it('rejects an invalid date', () => {
+    assert.throws(() => decodeCursor(rawCursor(['yesterday', position.id])), { message: 'Invalid cursor' });
+  });
+
+  it('rejects extra or missing parts', () => {
+    assert.throws(() => decodeCursor(rawCursor([position.createdAt.toISOString()])), { message: 'Invalid cursor' });
+    assert.throws(() => decodeCursor(rawCursor({ createdAt: position.createdAt, id: position.id })), { message: 'Invalid cursor' });
+  });
+});
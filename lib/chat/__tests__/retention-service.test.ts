@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveRetentionRule } from '@/lib/chat/retention-service';
+import { retentionPolicySchema } from '@/lib/validations/chat';
+
+const ROOT = '11111111-1111-4111-8111-111111111111';
+const CHILD = '22222222-2222-4222-8222-222222222222';
+const GRANDCHILD = '33333333-3333-4333-8333-333333333333';
+const OTHER = '44444444-4444-4444-8444-444444444444';
+
+// ROOT <- CHILD <- GRANDCHILD
+const parents = new Map<string, string | null>([
+  [ROOT, null],
+  [CHILD, ROOT],
+  [GRANDCHILD, CHILD],
+  [OTHER, null]
+]);
+
+const policy = retentionPolicySchema.parse({
+  types: { DM: { days: 30 }, GROUP: { days: 365, action: 'ARCHIVE' } },
+  divisions: {
+    [ROOT]: { DM: { days: 90 } },
+    [CHILD]: { GROUP: { days: null } }
+  }
+});
+
+describe('resolveRetentionRule', () => {
+  it('uses the type rule without a division', () => {
+    assert.deepEqual(resolveRetentionRule(policy, 'DM', null, parents), { days: 30, action: 'DELETE' });
+  });
+
+  it("uses the division's own rule", () => {
+    assert.deepEqual(resolveRetentionRule(policy, 'DM', ROOT, parents), { days: 90, action: 'DELETE' });
+  });
+
+  it('inherits the closest ancestor rule', () => {
+    assert.deepEqual(resolveRetentionRule(policy, 'DM', GRANDCHILD, parents), { days: 90, action: 'DELETE' });
+    assert.deepEqual(resolveRetentionRule(policy, 'GROUP', GRANDCHILD, parents), { days: null, action: 'DELETE' });
+  });
+
+  it('falls back to the type rule when no division in the chain has one', () => {
+    assert.deepEqual(resolveRetentionRule(policy, 'GROUP', ROOT, parents), { days: 365, action: 'ARCHIVE' });
+    assert.deepEqual(resolveRetentionRule(policy, 'DM', OTHER, parents), { days: 30, action: 'DELETE' });
+  });
+
+  it('returns nothing when no rule applies', () => {
+    assert.equal(resolveRetentionRule(policy, 'PROJECT', GRANDCHILD, parents), undefined);
+  });
+
+  it('stops at a cycle in the division tree', () => {
+    const cyclic = new Map<string, string | null>([[CHILD, GRANDCHILD], [GRANDCHILD, CHILD]]);
+    assert.deepEqual(resolveRetentionRule(policy, 'DM', GRANDCHILD, cyclic), { days: 30, action: 'DELETE' });
+  });
+
+  it('ignores divisions missing from the tree', () => {
+    assert.deepEqual(resolveRetentionRule(policy, 'DM', OTHER, new Map()), { days: 30, action: 'DELETE' });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { richTextToPlainText, walkRichText, type RichTextNode } from '@/lib/chat/rich-text';
+
+const doc = (...content: RichTextNode[]): RichTextNode => ({ type: 'doc', content });
+const paragraph = (...content: RichTextNode[]): RichTextNode => ({ type: 'paragraph', content });
+const text = (value: string, marks?: RichTextNode['marks']): RichTextNode => ({ type: 'text', text: value, marks });
+const listItem = (...content: RichTextNode[]): RichTextNode => ({ type: 'listItem', content });
+
+describe('walkRichText', () => {
+  it('visits every node depth first', () => {
+    const types: string[] = [];
+    walkRichText(doc(paragraph(text('a')), { type: 'bulletList', content: [listItem(paragraph(text('b')))] }), node => {
+      types.push(node.type ?? '');
+    });
+
+    assert.deepEqual(types, ['doc', 'paragraph', 'text', 'bulletList', 'listItem', 'paragraph', 'text']);
+  });
+
+  it('skips content that is not an array', () => {
+    const visited: RichTextNode[] = [];
+    walkRichText({ type: 'doc', content: 'oops' as unknown as RichTextNode[] }, node => visited.push(node));
+    assert.equal(visited.length, 1);
+  });
+});
+
+describe('richTextToPlainText', () => {
+  it('joins text across nested marks', () => {
+    const body = doc(paragraph(
+      text('Hello '),
+      text('bold ', [{ type: 'bold' }]),
+      text('and italic', [{ type: 'bold' }, { type: 'italic' }]),
+      text('!')
+    ));
+    assert.equal(richTextToPlainText(body), 'Hello bold and italic!');
+  });
+
+  it('keeps link URLs that differ from the text', () => {
+    const body = doc(paragraph(
+      text('docs', [{ type: 'link', attrs: { href: 'https://example.com/docs' } }]),
+      text(' and '),
+      text('https://example.com', [{ type: 'link', attrs: { href: 'https://example.com' } }])
+    ));
+    assert.equal(richTextToPlainText(body), 'docs (https://example.com/docs) and https://example.com');
+  });
+
+  it('renders mentions by label, then by the names given, then by ID', () => {
+    const id = '3f0c4a52-1b2d-4e6f-8a9b-0c1d2e3f4a5b';
+    const body = doc(paragraph(
+      { type: 'mention', attrs: { id: 'x', label: 'Ada' } },
+      text(' '),
+      { type: 'mention', attrs: { id } },
+      text(' '),
+      { type: 'mention', attrs: { id: 'unknown' } }
+    ));
+    assert.equal(richTextToPlainText(body, new Map([[id, 'Bob']])), '@Ada @Bob @unknown');
+  });
+
+  it('puts paragraphs and hard breaks on separate lines', () => {
+    const body = doc(
+      paragraph(text('first'), { type: 'hardBreak' }, text('second')),
+      paragraph(),
+      paragraph(),
+      paragraph(),
+      paragraph(text('third'))
+    );
+    assert.equal(richTextToPlainText(body), 'first\nsecond\n\nthird');
+  });
+
+  it('renders bullet, ordered and task lists', () => {
+    const body = doc(
+      { type: 'bulletList', content: [listItem(paragraph(text('one'))), listItem(paragraph(text('two')))] },
+      { type: 'orderedList', attrs: { start: 3 }, content: [listItem(paragraph(text('three'))), listItem(paragraph(text('four')))] },
+      {
+        type: 'taskList',
+        content: [
+          { type: 'taskItem', attrs: { checked: true }, content: [paragraph(text('done'))] },
+          { type: 'taskItem', attrs: { checked: false }, content: [paragraph(text('todo'))] }
+        ]
+      }
+    );
+    assert.equal(richTextToPlainText(body), '- one\n- two\n3. three\n4. four\n[x] done\n[ ] todo');
+  });
+
+  it('indents nested lists and continuation lines', () => {
+    const body = doc({
+      type: 'bulletList',
+      content: [listItem(
+        paragraph(text('parent'), { type: 'hardBreak' }, text('more')),
+        { type: 'bulletList', content: [listItem(paragraph(text('child')))] }
+      )]
+    });
+    assert.equal(richTextToPlainText(body), '- parent\n  more\n  - child');
+  });
+
+  it('keeps code blocks verbatim and quotes every blockquote line', () => {
+    const body = doc(
+      { type: 'codeBlock', content: [text('if (a) {\n  b();\n}')] },
+      { type: 'blockquote', content: [paragraph(text('quoted')), paragraph(text('lines'))] }
+    );
+    assert.equal(richTextToPlainText(body), 'if (a) {\n  b();\n}\n> quoted\n> lines');
+  });
+
+  it('renders emoji, images, tables and rules', () => {
+    const body = doc(
+      paragraph({ type: 'emoji', attrs: { emoji: '🎉' } }, text(' '), { type: 'emoji', attrs: { name: 'party' } }, { type: 'image', attrs: { alt: 'chart' } }),
+      { type: 'table', content: [{ type: 'tableRow', content: [{ type: 'tableCell', content: [paragraph(text('a'))] }, { type: 'tableCell', content: [paragraph(text('b'))] }] }] },
+      { type: 'horizontalRule' }
+    );
+    assert.equal(richTextToPlainText(body), '🎉 :party:chart\na | b\n---');
+  });
+
+  it('returns strings unchanged', () => {
+    assert.equal(richTextToPlainText('  plain text  '), '  plain text  ');
+  });
+
+  it('returns nothing for input that is not a document', () => {
+    for (const input of [null, undefined, 42, true]) {
+      assert.equal(richTextToPlainText(input), '', String(input));
+    }
+    assert.equal(richTextToPlainText({ type: 'doc' }), '');
+    assert.equal(richTextToPlainText({ foo: 'bar' }), '');
+  });
+
+  it('renders unknown node types through their children', () => {
+    assert.equal(richTextToPlainText(doc({ type: 'callout', content: [paragraph(text('inside'))] })), 'inside');
+  });
+});
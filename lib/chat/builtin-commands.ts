@@ -0,0 +1,201 @@
+import { openai } from '@ai-sdk/openai';
+import { generateText } from 'ai';
+import { format } from 'date-fns';
+import { db } from '@/lib/db';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { conversations, messages, projectMembers, tasks, users } from '@/db/schema';
+import { messageService } from '@/lib/chat/message-service';
+import { savedItemService } from '@/lib/chat/saved-item-service';
+import { pollSchema } from '@/lib/validations/chat';
+import type { SlashCommand, SlashCommandResult } from '@/lib/chat/slash-command-service';
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+// Messages read by /summarize when no count is given, and the most it reads
+const DEFAULT_SUMMARY_MESSAGES = 50;
+const MAX_SUMMARY_MESSAGES = 200;
+
+function usage(command: SlashCommand): SlashCommandResult {
+  return { type: 'ephemeral', text: `Usage: /${command.name} ${command.usage}` };
+}
+
+// Split arguments on whitespace, keeping "quoted phrases" together
+export function splitArguments(text: string): string[] {
+  return Array.from(text.matchAll(/"([^"]*)"|(\S+)/g), match => match[1] ?? match[2]);
+}
+
+const taskCommand: SlashCommand = {
+  name: 'task',
+  description: 'Create a task in the project of this conversation',
+  usage: '<title>',
+  async run({ conversationId, userId, text, clientId }) {
+    const title = text.trim();
+    if (!title) return usage(taskCommand);
+
+    const [conversation] = await db.select({ projectId: conversations.projectId })
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+
+    if (!conversation?.projectId) {
+      return { type: 'ephemeral', text: 'Tasks can only be created in project conversations.' };
+    }
+
+    const [membership] = await db.select({ role: projectMembers.role })
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, conversation.projectId), eq(projectMembers.userId, userId)))
+      .limit(1);
+
+    if (!membership) {
+      throw new Error('Not a member of this project');
+    }
+
+    // A retried command returns the stored message without a second task
+    if (clientId) {
+      const existing = await messageService.findByClientId(userId, clientId);
+      if (existing) return { type: 'message', message: existing };
+    }
+
+    const [task] = await db.insert(tasks).values({
+      projectId: conversation.projectId,
+      title: title.slice(0, 255),
+      reporterId: userId
+    }).returning({ id: tasks.id, title: tasks.title });
+
+    const message = await messageService.createMessage({
+      conversationId,
+      senderId: userId,
+      content: `📋 Created task: ${task.title}`,
+      clientId
+    });
+
+    return { type: 'message', message };
+  }
+};
+
+const remindCommand: SlashCommand = {
+  name: 'remind',
+  description: 'Remind me about the latest message later',
+  usage: '<10m|2h|1d> [note]',
+  async run({ conversationId, userId, text }) {
+    const match = text.trim().match(/^(\d{1,4})([mhd])\b\s*([\s\S]*)$/);
+    if (!match || Number(match[1]) === 0) return usage(remindCommand);
+
+    const remindAt = new Date(Date.now() + Number(match[1]) * DURATION_UNITS_MS[match[2]]);
+    const note = match[3].trim().slice(0, 500) || null;
+
+    const [latest] = await db.select({ id: messages.id })
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.type, 'USER'),
+        isNull(messages.deletedAt)
+      ))
+      .orderBy(desc(messages.createdAt))
+      .limit(1);
+
+    if (!latest) {
+      return { type: 'ephemeral', text: 'There is no message to be reminded about yet.' };
+    }
+
+    // Reminders go through saved items, so the message also shows up there
+    await savedItemService.saveMessage(userId, latest.id, { note, remindAt });
+
+    return { type: 'ephemeral', text: `I will remind you on ${format(remindAt, 'MMM d, HH:mm')}.` };
+  }
+};
+
+const pollCommand: SlashCommand = {
+  name: 'poll',
+  description: 'Post a poll',
+  usage: '"Question" "Option 1" "Option 2" ...',
+  async run({ conversationId, userId, text, clientId }) {
+    const [question, ...options] = splitArguments(text);
+    if (!question || options.length === 0) return usage(pollCommand);
+
+    const poll = pollSchema.safeParse({ question, options });
+    if (!poll.success) {
+      return { type: 'ephemeral', text: poll.error.issues[0].message };
+    }
+
+    const message = await messageService.createMessage({
+      conversationId,
+      senderId: userId,
+      content: poll.data.question,
+      poll: poll.data,
+      clientId
+    });
+
+    return { type: 'message', message };
+  }
+};
+
+// Placeholder until a GIF provider is configured
+const giphyCommand: SlashCommand = {
+  name: 'giphy',
+  description: 'Search for a GIF',
+  usage: '<search terms>',
+  async run({ text }) {
+    if (!text.trim()) return usage(giphyCommand);
+    return { type: 'ephemeral', text: 'GIF search is not available yet.' };
+  }
+};
+
+const summarizeCommand: SlashCommand = {
+  name: 'summarize',
+  description: 'Summarize recent messages (only you see the summary)',
+  usage: `[number of messages, default ${DEFAULT_SUMMARY_MESSAGES}]`,
+  async run({ conversationId, text }) {
+    const requested = text.trim() ? Number(text.trim()) : DEFAULT_SUMMARY_MESSAGES;
+    if (!Number.isInteger(requested) || requested < 1) return usage(summarizeCommand);
+
+    if (!process.env.OPENAI_API_KEY) {
+      return { type: 'ephemeral', text: 'Summaries are not available: the AI assistant is not configured.' };
+    }
+
+    const recent = await db.select({
+      senderName: users.name,
+      bodyPlain: messages.bodyPlain,
+      createdAt: messages.createdAt
+    })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.type, 'USER'),
+        isNull(messages.deletedAt)
+      ))
+      .orderBy(desc(messages.createdAt))
+      .limit(Math.min(requested, MAX_SUMMARY_MESSAGES));
+
+    if (recent.length === 0) {
+      return { type: 'ephemeral', text: 'There are no messages to summarize.' };
+    }
+
+    const transcript = recent.reverse()
+      .map(message => `${message.senderName} (${format(message.createdAt, 'MMM d, HH:mm')}): ${message.bodyPlain}`)
+      .join('\n');
+
+    const { text: summary } = await generateText({
+      model: openai('gpt-3.5-turbo'),
+      system: 'Summarize this chat transcript in a few short bullet points: decisions, open questions and action items with their owners.',
+      prompt: transcript,
+      temperature: 0.3
+    });
+
+    return { type: 'ephemeral', text: summary };
+  }
+};
+
+// Commands available in every conversation. Bot commands cannot reuse these names.
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+  taskCommand,
+  remindCommand,
+  pollCommand,
+  giphyCommand,
+  summarizeCommand
+];
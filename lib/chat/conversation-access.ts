@@ -0,0 +1,63 @@
+import { db } from '@/lib/db';
+import { eq, and, sql } from 'drizzle-orm';
+import { conversationMembers, messages, attachments, messageAttachmentShares } from '@/db/schema';
+
+export type ConversationMembership = typeof conversationMembers.$inferSelect;
+
+/**
+ * Get the active membership of a user in a conversation, or null if the user
+ * is not a member (or has left).
+ */
+export async function getActiveMembership(
+  conversationId: string,
+  userId: string
+): Promise<ConversationMembership | null> {
+  const [membership] = await db.select()
+    .from(conversationMembers)
+    .where(and(
+      eq(conversationMembers.conversationId, conversationId),
+      eq(conversationMembers.userId, userId),
+      eq(conversationMembers.hasLeft, false)
+    ))
+    .limit(1);
+
+  return membership ?? null;
+}
+
+/**
+ * Same as getActiveMembership, but throws when the user is not a member
+ */
+export async function requireConversationMember(
+  conversationId: string,
+  userId: string
+): Promise<ConversationMembership> {
+  const membership = await getActiveMembership(conversationId, userId);
+  if (!membership) {
+    throw new Error('Not a member of this conversation');
+  }
+  return membership;
+}
+
+/**
+ * Whether a user can read an attachment through a conversation: they are an
+ * active member of the conversation of a message it was uploaded to or
+ * forwarded with.
+ */
+export async function canAccessAttachment(attachmentId: string, userId: string): Promise<boolean> {
+  const [row] = await db.select({ found: sql<number>`1` })
+    .from(messages)
+    .innerJoin(conversationMembers, and(
+      eq(conversationMembers.conversationId, messages.conversationId),
+      eq(conversationMembers.userId, userId),
+      eq(conversationMembers.hasLeft, false)
+    ))
+    .where(sql`${messages.id} in (
+      select ${attachments.messageId} from ${attachments} where ${attachments.id} = ${attachmentId}
+      union
+      select ${messageAttachmentShares.messageId} from ${messageAttachmentShares}
+      where ${messageAttachmentShares.attachmentId} = ${attachmentId}
+    )`)
+    .limit(1);
+
+  return Boolean(row);
+}
@@ -0,0 +1,467 @@
+import { db } from '@/lib/db';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { conversations, conversationMembers, users } from '@/db/schema';
+import { requireConversationMember, getActiveMembership } from '@/lib/chat/conversation-access';
+import { messageService } from '@/lib/chat/message-service';
+import { emitToConversation, emitToUser, removeUserFromConversation } from '@/lib/socket/broadcast';
+import type { UpdateConversationInput } from '@/lib/validations/chat';
+
+export type ConversationRole = 'ADMIN' | 'MEMBER';
+
+// Stored on SYSTEM messages; the actor is the message sender
+export type SystemEvent =
+  | { action: 'members_added'; userIds: string[] }
+  | { action: 'member_removed'; userId: string }
+  | { action: 'member_left' }
+  | { action: 'role_changed'; userId: string; role: ConversationRole }
+  | { action: 'renamed'; title: string }
+  | { action: 'avatar_changed'; avatarUrl: string | null };
+
+export interface ConversationMember {
+  userId: string;
+  name: string;
+  avatarUrl: string | null;
+  role: ConversationRole;
+  joinedAt: Date;
+}
+
+// Canonical key of the DM between two users (the same user twice for notes)
+export function dmKey(userId: string, otherUserId: string): string {
+  return [userId, otherUserId].sort().join(':');
+}
+
+// "Bob", "Bob and Carol", "Bob, Carol and Dave"
+function formatNames(names: string[]): string {
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Conversation Service - DM lookup, and membership and settings of GROUP
+ * conversations. Group changes are recorded as SYSTEM messages and
+ * broadcast to the members.
+ */
+class ConversationService {
+  /**
+   * Get a conversation with its active members
+   */
+  async getConversation(conversationId: string, userId: string) {
+    await requireConversationMember(conversationId, userId);
+
+    const [conversation] = await db.select()
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    return {
+      ...conversation,
+      members: await this.getMembers(conversationId)
+    };
+  }
+
+  /**
+   * Get the DM between two users, creating it if needed. A DM with yourself
+   * works as a notes conversation.
+   */
+  async getOrCreateDirectConversation(userId: string, otherUserId: string) {
+    const [other] = await db.select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.id, otherUserId), eq(users.isActive, true)))
+      .limit(1);
+
+    if (!other) {
+      throw new Error('User not found');
+    }
+
+    const key = dmKey(userId, otherUserId);
+
+    const existing = await this.findDirectConversation(key)
+      ?? await this.adoptLegacyDirectConversation(userId, otherUserId, key);
+    if (existing) {
+      return { conversation: existing, created: false };
+    }
+
+    // The unique dm_key makes concurrent requests converge on one conversation
+    const created = await db.transaction(async (tx) => {
+      const [conversation] = await tx.insert(conversations)
+        .values({ type: 'DM', title: null, createdBy: userId, dmKey: key })
+        .onConflictDoNothing({ target: conversations.dmKey })
+        .returning();
+
+      if (!conversation) return null;
+
+      await tx.insert(conversationMembers).values(
+        Array.from(new Set([userId, otherUserId]), memberId => ({
+          conversationId: conversation.id,
+          userId: memberId,
+          joinedAt: conversation.createdAt
+        }))
+      );
+
+      return conversation;
+    });
+
+    if (created) {
+      return { conversation: created, created: true };
+    }
+
+    const conversation = await this.findDirectConversation(key);
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    return { conversation, created: false };
+  }
+
+  /**
+   * Active members, in the order they joined
+   */
+  async listMembers(conversationId: string, userId: string): Promise<ConversationMember[]> {
+    await requireConversationMember(conversationId, userId);
+    return this.getMembers(conversationId);
+  }
+
+  /**
+   * Add users to a group, or bring back members who left
+   */
+  async addMembers(conversationId: string, actorId: string, userIds: string[]): Promise<ConversationMember[]> {
+    await this.requireGroupAdmin(conversationId, actorId);
+
+    const requestedIds = Array.from(new Set(userIds));
+    const found = await db.select({ id: users.id })
+      .from(users)
+      .where(and(inArray(users.id, requestedIds), eq(users.isActive, true)));
+
+    if (found.length !== requestedIds.length) {
+      throw new Error('User not found');
+    }
+
+    const currentIds = new Set((await this.getMembers(conversationId)).map(member => member.userId));
+    const newIds = requestedIds.filter(id => !currentIds.has(id));
+    if (newIds.length === 0) return [];
+
+    const joinedAt = new Date();
+    await db.insert(conversationMembers)
+      .values(newIds.map(userId => ({ conversationId, userId, role: 'MEMBER' as const, joinedAt })))
+      .onConflictDoUpdate({
+        target: [conversationMembers.conversationId, conversationMembers.userId],
+        set: { hasLeft: false, role: 'MEMBER', joinedAt }
+      });
+
+    const added = await this.getMembers(conversationId, newIds);
+    const actorName = await this.getUserName(actorId);
+
+    await messageService.createSystemMessage(
+      conversationId,
+      actorId,
+      { action: 'members_added', userIds: newIds },
+      `${actorName} added ${formatNames(added.map(member => member.name))}`
+    );
+
+    const event = { conversationId, members: added };
+    emitToConversation(conversationId, 'conversation:member:added', event);
+    // New members are not in the room yet
+    newIds.forEach(userId => emitToUser(userId, 'conversation:member:added', event));
+
+    return added;
+  }
+
+  /**
+   * Remove another member from a group. Removing yourself is leaving.
+   */
+  async removeMember(conversationId: string, actorId: string, userId: string): Promise<void> {
+    if (userId === actorId) {
+      return this.leave(conversationId, actorId);
+    }
+
+    await this.requireGroupAdmin(conversationId, actorId);
+
+    const membership = await getActiveMembership(conversationId, userId);
+    if (!membership) {
+      throw new Error('Member not found');
+    }
+
+    await this.markLeft(conversationId, userId);
+
+    const [actorName, memberName] = await Promise.all([this.getUserName(actorId), this.getUserName(userId)]);
+    await messageService.createSystemMessage(
+      conversationId,
+      actorId,
+      { action: 'member_removed', userId },
+      `${actorName} removed ${memberName}`
+    );
+
+    this.broadcastRemoval(conversationId, userId, 'removed');
+  }
+
+  /**
+   * Leave a group. When the last admin leaves, the longest-standing member
+   * becomes an admin.
+   */
+  async leave(conversationId: string, userId: string): Promise<void> {
+    await this.requireGroup(conversationId);
+    const membership = await requireConversationMember(conversationId, userId);
+
+    await this.markLeft(conversationId, userId);
+
+    await messageService.createSystemMessage(
+      conversationId,
+      userId,
+      { action: 'member_left' },
+      `${await this.getUserName(userId)} left`
+    );
+
+    this.broadcastRemoval(conversationId, userId, 'left');
+
+    if (membership.role === 'ADMIN') {
+      const remaining = await this.getMembers(conversationId);
+      if (remaining.length > 0 && !remaining.some(member => member.role === 'ADMIN')) {
+        await this.setRole(conversationId, remaining[0].userId, 'ADMIN');
+        emitToConversation(conversationId, 'conversation:member:updated', {
+          conversationId,
+          member: { ...remaining[0], role: 'ADMIN' }
+        });
+      }
+    }
+  }
+
+  /**
+   * Make a member an admin or a regular member
+   */
+  async updateMemberRole(
+    conversationId: string,
+    actorId: string,
+    userId: string,
+    role: ConversationRole
+  ): Promise<ConversationMember> {
+    await this.requireGroupAdmin(conversationId, actorId);
+
+    const members = await this.getMembers(conversationId);
+    const member = members.find(m => m.userId === userId);
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    if (member.role === role) return member;
+
+    if (role === 'MEMBER' && members.filter(m => m.role === 'ADMIN').length === 1) {
+      throw new Error('A group needs at least one admin');
+    }
+
+    await this.setRole(conversationId, userId, role);
+
+    const actorName = await this.getUserName(actorId);
+    await messageService.createSystemMessage(
+      conversationId,
+      actorId,
+      { action: 'role_changed', userId, role },
+      role === 'ADMIN'
+        ? `${actorName} made ${member.name} an admin`
+        : `${actorName} removed ${member.name} as admin`
+    );
+
+    const updated = { ...member, role };
+    emitToConversation(conversationId, 'conversation:member:updated', { conversationId, member: updated });
+
+    return updated;
+  }
+
+  /**
+   * Rename a group or change its avatar
+   */
+  async updateConversation(conversationId: string, actorId: string, input: UpdateConversationInput) {
+    const conversation = await this.requireGroupAdmin(conversationId, actorId);
+
+    const titleChanged = input.title !== undefined && input.title !== conversation.title;
+    const avatarChanged = input.avatarUrl !== undefined && input.avatarUrl !== conversation.avatarUrl;
+    if (!titleChanged && !avatarChanged) return conversation;
+
+    const [updated] = await db.update(conversations)
+      .set({
+        ...(titleChanged ? { title: input.title } : {}),
+        ...(avatarChanged ? { avatarUrl: input.avatarUrl } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(conversations.id, conversationId))
+      .returning();
+
+    const actorName = await this.getUserName(actorId);
+
+    if (titleChanged) {
+      await messageService.createSystemMessage(
+        conversationId,
+        actorId,
+        { action: 'renamed', title: updated.title ?? '' },
+        `${actorName} renamed the group to "${updated.title}"`
+      );
+    }
+
+    if (avatarChanged) {
+      await messageService.createSystemMessage(
+        conversationId,
+        actorId,
+        { action: 'avatar_changed', avatarUrl: updated.avatarUrl },
+        updated.avatarUrl ? `${actorName} changed the group photo` : `${actorName} removed the group photo`
+      );
+    }
+
+    emitToConversation(conversationId, 'conversation:updated', {
+      conversationId,
+      title: updated.title,
+      avatarUrl: updated.avatarUrl,
+      updatedAt: updated.updatedAt
+    });
+
+    return updated;
+  }
+
+  private async findDirectConversation(key: string) {
+    const [conversation] = await db.select()
+      .from(conversations)
+      .where(eq(conversations.dmKey, key))
+      .limit(1);
+
+    return conversation ?? null;
+  }
+
+  /**
+   * DMs created before dm_key existed: find the one with exactly these
+   * members and give it its key
+   */
+  private async adoptLegacyDirectConversation(userId: string, otherUserId: string, key: string) {
+    const memberIds = Array.from(new Set([userId, otherUserId]));
+
+    const [legacy] = await db.select({ id: conversations.id })
+      .from(conversations)
+      .innerJoin(conversationMembers, eq(conversationMembers.conversationId, conversations.id))
+      .where(and(eq(conversations.type, 'DM'), isNull(conversations.dmKey)))
+      .groupBy(conversations.id)
+      .having(and(
+        sql`count(*) = ${memberIds.length}`,
+        sql`bool_and(${inArray(conversationMembers.userId, memberIds)})`
+      ))
+      .orderBy(asc(conversations.createdAt))
+      .limit(1);
+
+    if (!legacy) return null;
+
+    try {
+      const [conversation] = await db.update(conversations)
+        .set({ dmKey: key })
+        .where(and(eq(conversations.id, legacy.id), isNull(conversations.dmKey)))
+        .returning();
+
+      return conversation ?? this.findDirectConversation(key);
+    } catch {
+      // Another request created or adopted the DM first
+      return this.findDirectConversation(key);
+    }
+  }
+
+  private async requireGroup(conversationId: string) {
+    const [conversation] = await db.select()
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    if (conversation.type !== 'GROUP') {
+      throw new Error('Only group conversations can be managed');
+    }
+
+    return conversation;
+  }
+
+  private async requireGroupAdmin(conversationId: string, userId: string) {
+    const conversation = await this.requireGroup(conversationId);
+    const membership = await requireConversationMember(conversationId, userId);
+
+    if (membership.role === 'ADMIN') {
+      return conversation;
+    }
+
+    // Groups created before admin roles have no admin; their creator manages them
+    if (conversation.createdBy === userId && !await this.hasAdmin(conversationId)) {
+      return conversation;
+    }
+
+    throw new Error('Permission denied');
+  }
+
+  private async hasAdmin(conversationId: string): Promise<boolean> {
+    const [admin] = await db.select({ userId: conversationMembers.userId })
+      .from(conversationMembers)
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        eq(conversationMembers.role, 'ADMIN'),
+        eq(conversationMembers.hasLeft, false)
+      ))
+      .limit(1);
+
+    return Boolean(admin);
+  }
+
+  private async getMembers(conversationId: string, userIds?: string[]): Promise<ConversationMember[]> {
+    return db.select({
+      userId: conversationMembers.userId,
+      name: users.name,
+      avatarUrl: users.avatarUrl,
+      role: conversationMembers.role,
+      joinedAt: conversationMembers.joinedAt
+    })
+      .from(conversationMembers)
+      .innerJoin(users, eq(conversationMembers.userId, users.id))
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        eq(conversationMembers.hasLeft, false),
+        userIds ? inArray(conversationMembers.userId, userIds) : undefined
+      ))
+      .orderBy(asc(conversationMembers.joinedAt));
+  }
+
+  private async markLeft(conversationId: string, userId: string) {
+    await db.update(conversationMembers)
+      .set({ hasLeft: true, role: 'MEMBER' })
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        eq(conversationMembers.userId, userId)
+      ));
+  }
+
+  private async setRole(conversationId: string, userId: string, role: ConversationRole) {
+    await db.update(conversationMembers)
+      .set({ role })
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        eq(conversationMembers.userId, userId)
+      ));
+  }
+
+  private async getUserName(userId: string): Promise<string> {
+    const [user] = await db.select({ name: users.name })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    return user?.name ?? 'Unknown';
+  }
+
+  // Tell the remaining members and the removed user, then drop the user's
+  // sockets from the conversation room
+  private broadcastRemoval(conversationId: string, userId: string, reason: 'removed' | 'left') {
+    const event = { conversationId, userId, reason };
+    emitToConversation(conversationId, 'conversation:member:removed', event);
+    emitToUser(userId, 'conversation:member:removed', event);
+    removeUserFromConversation(userId, conversationId);
+  }
+}
+
+// Export singleton instance
+export const conversationService = new ConversationService();
+export default conversationService;
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// Error messages thrown by the chat services, mapped to HTTP status codes
+const CHAT_ERROR_STATUS: Record<string, number> = {
+  'Not a member of this conversation': 403,
+  'Permission denied': 403,
+  'Conversation not found': 404,
+  'Message not found': 404,
+  'Reply target not found': 400,
+  'Invalid attachments': 400,
+  'Invalid cursor': 400,
+  'Edit window has expired': 403,
+  'Message is not a thread root': 400,
+  'Only group conversations can be managed': 400,
+  'User not found': 404,
+  'Member not found': 404,
+  'A group needs at least one admin': 400,
+  'Too many pinned messages': 400,
+  'Message is not pinned': 404,
+  'Saved item not found': 404,
+  'Scheduled message not found': 404,
+  'Export not found': 404,
+  'Export is not ready': 409,
+  'Poll not found': 404,
+  'Poll is closed': 409,
+  'Only one option can be chosen': 400,
+  'Invalid poll options': 400,
+  'System messages cannot be forwarded': 400,
+  'Polls cannot be forwarded': 400,
+  'Unknown command': 404,
+  'Not a member of this project': 403,
+  'Bot did not respond': 502
+};
+
+/**
+ * Message of an error thrown by a chat service that can be shown to clients,
+ * e.g. in socket acks. Other errors (database, network) get the fallback.
+ */
+export function chatErrorMessage(error: unknown, fallbackMessage: string): string {
+  if (error instanceof z.ZodError) {
+    return 'Invalid input';
+  }
+
+  return error instanceof Error && CHAT_ERROR_STATUS[error.message] ? error.message : fallbackMessage;
+}
+
+/**
+ * Convert an error thrown by a chat service into an API response
+ */
+export function chatErrorResponse(error: unknown, fallbackMessage = 'Internal server error'): NextResponse {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid input', details: error.issues }, { status: 400 });
+  }
+
+  if (error instanceof Error && CHAT_ERROR_STATUS[error.message]) {
+    return NextResponse.json({ error: error.message }, { status: CHAT_ERROR_STATUS[error.message] });
+  }
+
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
@@ -0,0 +1,202 @@
+import type { conversationExports } from '@/db/schema';
+
+export type ExportFormat = typeof conversationExports.$inferSelect['format'];
+
+export interface ExportedMessage {
+  id: string;
+  seq: number;
+  type: 'USER' | 'SYSTEM';
+  senderId: string;
+  senderName: string;
+  botName: string | null; // Chat bot that wrote the message on the sender's behalf
+  createdAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  bodyPlain: string;
+  bodyRich: unknown;
+  systemEvent: unknown;
+  reactions: { emoji: string; userNames: string[] }[];
+  attachments: { id: string; originalName: string; mimeType: string; sizeBytes: number; storageKey: string }[];
+  revisions: { bodyPlain: string; editedBy: string; createdAt: Date }[]; // Earlier versions, oldest first
+  forwardedFrom: { messageId: string; senderName: string; createdAt: Date } | null;
+  poll: ExportedPoll | null;
+  replies: ExportedMessage[]; // Thread replies, on root messages only
+}
+
+export interface ExportedPoll {
+  question: string;
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: Date | null;
+  closedAt: Date | null;
+  isClosed: boolean;
+  voterCount: number;
+  options: { text: string; voteCount: number; voterNames: string[] }[]; // No voter names for anonymous polls
+}
+
+export interface ExportHeader {
+  conversationId: string;
+  conversationType: string;
+  title: string | null;
+  exportedAt: Date;
+  exportedBy: string;
+}
+
+/**
+ * Turns an export into text chunks: begin, one chunk per root message (with
+ * its thread), end. Chunks are streamed into the archive as they are produced.
+ */
+export interface ExportWriter {
+  contentType: string;
+  extension: string;
+  begin(header: ExportHeader): string;
+  message(message: ExportedMessage, index: number): string;
+  end(): string;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function authorName(message: ExportedMessage) {
+  return message.botName ? `${message.botName} (bot, via ${message.senderName})` : message.senderName;
+}
+
+function messageText(message: ExportedMessage) {
+  return message.deletedAt ? '(message deleted)' : message.bodyPlain;
+}
+
+const jsonWriter: ExportWriter = {
+  contentType: 'application/json',
+  extension: 'json',
+  begin: header => `{"conversation":${JSON.stringify(header)},"messages":[`,
+  message: (message, index) => (index > 0 ? ',' : '') + JSON.stringify(message),
+  end: () => ']}'
+};
+
+function pollStatus(poll: ExportedPoll): string {
+  const closedAt = poll.closedAt ?? poll.closesAt;
+  if (poll.isClosed) return closedAt ? `closed ${closedAt.toISOString()}` : 'closed';
+  return poll.closesAt ? `closes ${poll.closesAt.toISOString()}` : 'open';
+}
+
+function optionVotes(option: ExportedPoll['options'][number]): string {
+  return `${option.voteCount} vote${option.voteCount === 1 ? '' : 's'}`
+    + (option.voterNames.length > 0 ? `: ${option.voterNames.join(', ')}` : '');
+}
+
+function markdownMessage(message: ExportedMessage, quote: string): string {
+  const lines = [`**${authorName(message)}** · ${message.createdAt.toISOString()}${message.editedAt ? ' (edited)' : ''}`, ''];
+  if (message.forwardedFrom) {
+    lines.push(`_Forwarded from ${message.forwardedFrom.senderName} (${message.forwardedFrom.createdAt.toISOString()})_`, '');
+  }
+  lines.push(...messageText(message).split('\n'));
+
+  if (message.poll) {
+    lines.push('', `📊 Poll (${pollStatus(message.poll)}, ${message.poll.voterCount} voters)`);
+    lines.push(...message.poll.options.map(option => `- ${option.text} — ${optionVotes(option)}`));
+  }
+
+  for (const attachment of message.attachments) {
+    lines.push(`- 📎 ${attachment.originalName} (${attachment.mimeType}, ${attachment.sizeBytes} bytes, id ${attachment.id})`);
+  }
+  if (message.reactions.length > 0) {
+    lines.push('', message.reactions.map(r => `${r.emoji} ${r.userNames.join(', ')}`).join(' · '));
+  }
+  for (const revision of message.revisions) {
+    lines.push('', `_Earlier version (${revision.createdAt.toISOString()}):_ ${revision.bodyPlain}`);
+  }
+
+  return lines.map(line => quote + line).join('\n') + '\n';
+}
+
+const markdownWriter: ExportWriter = {
+  contentType: 'text/markdown',
+  extension: 'md',
+  begin: header => `# ${header.title ?? 'Conversation'}\n\n`
+    + `Exported ${header.exportedAt.toISOString()} by ${header.exportedBy} (${header.conversationType}, ${header.conversationId})\n\n`,
+  message: (message) => {
+    const parts = [markdownMessage(message, '')];
+    for (const reply of message.replies) {
+      parts.push(markdownMessage(reply, '> '));
+    }
+    return parts.join('\n') + '\n---\n\n';
+  },
+  end: () => ''
+};
+
+function htmlMessage(message: ExportedMessage): string {
+  const parts = [
+    `<div class="message${message.type === 'SYSTEM' ? ' system' : ''}" id="m-${message.id}">`,
+    `<div class="meta"><strong>${escapeHtml(authorName(message))}</strong> <time>${message.createdAt.toISOString()}</time>${message.editedAt ? ' (edited)' : ''}</div>`
+  ];
+
+  if (message.forwardedFrom) {
+    parts.push(`<div class="forwarded">Forwarded from ${escapeHtml(message.forwardedFrom.senderName)} (${message.forwardedFrom.createdAt.toISOString()})</div>`);
+  }
+  parts.push(`<div class="body">${escapeHtml(messageText(message)).replace(/\n/g, '<br>')}</div>`);
+
+  if (message.poll) {
+    parts.push(`<div class="poll">📊 Poll (${pollStatus(message.poll)}, ${message.poll.voterCount} voters)<ul>`, ...message.poll.options.map(option =>
+      `<li>${escapeHtml(option.text)} — ${escapeHtml(optionVotes(option))}</li>`
+    ), '</ul></div>');
+  }
+
+  if (message.attachments.length > 0) {
+    parts.push('<ul class="attachments">', ...message.attachments.map(a =>
+      `<li>📎 ${escapeHtml(a.originalName)} (${escapeHtml(a.mimeType)}, ${a.sizeBytes} bytes, id ${a.id})</li>`
+    ), '</ul>');
+  }
+  if (message.reactions.length > 0) {
+    parts.push(`<div class="reactions">${message.reactions.map(r =>
+      `<span title="${escapeHtml(r.userNames.join(', '))}">${escapeHtml(r.emoji)} ${r.userNames.length}</span>`
+    ).join(' ')}</div>`);
+  }
+  for (const revision of message.revisions) {
+    parts.push(`<div class="revision">Earlier version (${revision.createdAt.toISOString()}): ${escapeHtml(revision.bodyPlain)}</div>`);
+  }
+  if (message.replies.length > 0) {
+    parts.push('<div class="thread">', ...message.replies.map(htmlMessage), '</div>');
+  }
+
+  parts.push('</div>');
+  return parts.join('\n');
+}
+
+const htmlWriter: ExportWriter = {
+  contentType: 'text/html',
+  extension: 'html',
+  begin: header => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(header.title ?? 'Conversation')}</title>
+<style>
+body { font-family: sans-serif; max-width: 48rem; margin: 2rem auto; }
+.message { padding: 0.5rem 0; border-bottom: 1px solid #eee; }
+.system { color: #666; font-style: italic; }
+.meta, .forwarded, .reactions, .revision { font-size: 0.85rem; color: #555; }
+.thread { margin-left: 1.5rem; padding-left: 0.75rem; border-left: 2px solid #ddd; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(header.title ?? 'Conversation')}</h1>
+<p>Exported ${header.exportedAt.toISOString()} by ${escapeHtml(header.exportedBy)} (${header.conversationType}, ${header.conversationId})</p>
+`,
+  message: message => htmlMessage(message) + '\n',
+  end: () => '</body>\n</html>\n'
+};
+
+const WRITERS: Record<ExportFormat, ExportWriter> = {
+  JSON: jsonWriter,
+  MARKDOWN: markdownWriter,
+  HTML: htmlWriter
+};
+
+export function getExportWriter(format: ExportFormat): ExportWriter {
+  return WRITERS[format];
+}
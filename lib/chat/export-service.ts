@@ -0,0 +1,485 @@
+import { PassThrough } from 'stream';
+import { once } from 'events';
+import { db } from '@/lib/db';
+import { eq, and, asc, desc, count, inArray, isNull, sql, getTableColumns } from 'drizzle-orm';
+import {
+  conversations,
+  conversationExports,
+  messages,
+  messageReactions,
+  messageRevisions,
+  attachments,
+  messageAttachmentShares,
+  users,
+  auditLogs
+} from '@/db/schema';
+import { getActiveMembership } from '@/lib/chat/conversation-access';
+import { getExportWriter, type ExportFormat, type ExportedMessage, type ExportedPoll } from '@/lib/chat/export-formats';
+import { pollService } from '@/lib/chat/poll-service';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { minioService } from '@/lib/storage/minio-client';
+import { emitToUser } from '@/lib/socket/broadcast';
+import type { AuditContext } from '@/lib/audit';
+
+export type ConversationExport = typeof conversationExports.$inferSelect;
+
+// Root messages read per batch; their thread replies are read along with them
+const EXPORT_BATCH_SIZE = 200;
+
+// A RUNNING export not updated for this long belongs to a crashed node
+const RUNNING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Presigned download links expire after this many seconds
+const DOWNLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+
+type MessageRow = Pick<
+  typeof messages.$inferSelect,
+  | 'id' | 'senderId' | 'type' | 'systemEvent' | 'seq' | 'bodyRich' | 'bodyPlain' | 'editedAt' | 'replyToId'
+  | 'forwardedFromId' | 'botName' | 'deletedAt' | 'createdAt'
+> & { senderName: string };
+
+const messageSortKey = sql`date_trunc('milliseconds', ${messages.createdAt})`;
+
+/**
+ * Export Service - compliance archives of a conversation's full history,
+ * including threads, reactions, edits, polls, forwards and attachment
+ * references
+ */
+class ExportService {
+  /**
+   * Queue an export; the background job generates it
+   */
+  async requestExport(
+    conversationId: string,
+    userId: string,
+    format: ExportFormat,
+    context: AuditContext
+  ): Promise<ConversationExport> {
+    await this.requireExportPermission(conversationId, userId);
+
+    const [created] = await db.insert(conversationExports)
+      .values({ conversationId, requestedBy: userId, format })
+      .returning();
+
+    await this.audit(userId, 'conversation.export_requested', created, { format }, context);
+
+    return created;
+  }
+
+  async listExports(conversationId: string, userId: string): Promise<ConversationExport[]> {
+    await this.requireExportPermission(conversationId, userId);
+
+    return db.select()
+      .from(conversationExports)
+      .where(eq(conversationExports.conversationId, conversationId))
+      .orderBy(desc(conversationExports.createdAt))
+      .limit(50);
+  }
+
+  async getDownloadUrl(
+    conversationId: string,
+    exportId: string,
+    userId: string,
+    context: AuditContext
+  ): Promise<{ downloadUrl: string; expiresIn: number }> {
+    await this.requireExportPermission(conversationId, userId);
+
+    const [job] = await db.select()
+      .from(conversationExports)
+      .where(and(
+        eq(conversationExports.id, exportId),
+        eq(conversationExports.conversationId, conversationId)
+      ))
+      .limit(1);
+
+    if (!job) {
+      throw new Error('Export not found');
+    }
+    if (job.status !== 'COMPLETED' || !job.storageKey) {
+      throw new Error('Export is not ready');
+    }
+
+    const extension = job.storageKey.split('.').pop();
+    const downloadUrl = await minioService.generatePresignedObjectUrl(
+      job.storageKey,
+      `conversation-${conversationId}-${job.createdAt.toISOString().slice(0, 10)}.${extension}`,
+      DOWNLOAD_URL_EXPIRY_SECONDS
+    );
+
+    await this.audit(userId, 'conversation.export_downloaded', job, {}, context);
+
+    return { downloadUrl, expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS };
+  }
+
+  /**
+   * Generate the next queued export. Run by the background job on every node;
+   * the export is claimed with SKIP LOCKED, and exports left RUNNING by a
+   * crashed node are picked up again.
+   */
+  async runQueued(): Promise<number> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - RUNNING_TIMEOUT_MS);
+
+    const [job] = await db.update(conversationExports)
+      .set({ status: 'RUNNING', progress: 0, startedAt: now, updatedAt: now })
+      .where(sql`${conversationExports.id} in (
+        select e.id from ${conversationExports} e
+        where e.status = 'QUEUED'
+           or (e.status = 'RUNNING' and e.updated_at < ${staleBefore.toISOString()}::timestamp)
+        order by e.created_at
+        limit 1
+        for update skip locked
+      )`)
+      .returning();
+
+    if (!job) return 0;
+
+    try {
+      await this.generate(job);
+    } catch (error) {
+      console.error(`Export ${job.id} failed:`, error);
+      await this.fail(job, error instanceof Error ? error.message : 'Export failed');
+    }
+
+    return 1;
+  }
+
+  private async generate(job: ConversationExport) {
+    const [conversation] = await db.select()
+      .from(conversations)
+      .where(eq(conversations.id, job.conversationId))
+      .limit(1);
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    const [requester] = await db.select({ name: users.name, role: users.role })
+      .from(users)
+      .where(eq(users.id, job.requestedBy))
+      .limit(1);
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(messages)
+      .where(eq(messages.conversationId, job.conversationId));
+
+    await this.notifyRequester(job, 'Conversation export started', `Exporting ${total} messages`);
+
+    const writer = getExportWriter(job.format);
+    const storageKey = `exports/${job.conversationId}/${job.id}.${writer.extension}`;
+
+    // The archive is streamed to MinIO while messages are read
+    const stream = new PassThrough();
+    const upload = minioService.putObject(storageKey, stream, writer.contentType);
+    upload.catch(() => {}); // Awaited below; avoids an unhandled rejection while writing
+
+    const write = async (chunk: string) => {
+      if (!stream.write(chunk)) {
+        // A failed upload stops reading the stream, so it must end the wait
+        await Promise.race([once(stream, 'drain'), upload]);
+      }
+    };
+
+    let written = 0;
+    let index = 0;
+
+    try {
+      await write(writer.begin({
+        conversationId: conversation.id,
+        conversationType: conversation.type,
+        title: conversation.title,
+        exportedAt: new Date(),
+        exportedBy: requester?.name ?? job.requestedBy
+      }));
+
+      // Revisions of deleted messages hold the removed content, so like the
+      // edit history they are only included for system admins
+      const includeDeletedRevisions = requester?.role === 'ADMIN';
+
+      for await (const batch of this.readThreads(job.conversationId, includeDeletedRevisions)) {
+        for (const message of batch) {
+          await write(writer.message(message, index++));
+          written += 1 + message.replies.length;
+        }
+        await this.updateProgress(job, total > 0 ? Math.min(99, Math.floor(written / total * 100)) : 99);
+      }
+
+      await write(writer.end());
+      stream.end();
+    } catch (error) {
+      stream.destroy(error instanceof Error ? error : new Error('Export failed'));
+      throw error;
+    }
+
+    await upload;
+
+    const [completed] = await db.update(conversationExports)
+      .set({
+        status: 'COMPLETED',
+        progress: 100,
+        messageCount: written,
+        storageKey,
+        completedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(conversationExports.id, job.id))
+      .returning();
+
+    emitToUser(job.requestedBy, 'conversation:export:updated', completed);
+    await this.audit(job.requestedBy, 'conversation.export_completed', completed, { messageCount: written, storageKey });
+    await this.notifyRequester(job, 'Conversation export is ready', `${written} messages exported`);
+  }
+
+  /**
+   * Root messages in timeline order, in batches, each with its thread replies
+   */
+  private async *readThreads(conversationId: string, includeDeletedRevisions: boolean): AsyncGenerator<ExportedMessage[]> {
+    let anchor: { createdAt: Date; id: string } | null = null;
+
+    while (true) {
+      const roots: MessageRow[] = await this.selectMessages()
+        .where(and(
+          eq(messages.conversationId, conversationId),
+          isNull(messages.replyToId),
+          anchor
+            ? sql`(${messageSortKey}, ${messages.id}) > (${anchor.createdAt.toISOString()}::timestamp, ${anchor.id})`
+            : undefined
+        ))
+        .orderBy(asc(messageSortKey), asc(messages.id))
+        .limit(EXPORT_BATCH_SIZE);
+
+      if (roots.length === 0) return;
+
+      const replies: MessageRow[] = await this.selectMessages()
+        .where(inArray(messages.replyToId, roots.map(root => root.id)))
+        .orderBy(asc(messages.createdAt), asc(messages.id));
+
+      const hydrated = await this.hydrate([...roots, ...replies], includeDeletedRevisions);
+
+      yield roots.map(root => ({
+        ...hydrated.get(root.id)!,
+        replies: replies.filter(reply => reply.replyToId === root.id).map(reply => hydrated.get(reply.id)!)
+      }));
+
+      const last = roots[roots.length - 1];
+      anchor = { createdAt: last.createdAt, id: last.id };
+    }
+  }
+
+  private selectMessages() {
+    return db.select({
+      id: messages.id,
+      senderId: messages.senderId,
+      type: messages.type,
+      systemEvent: messages.systemEvent,
+      seq: messages.seq,
+      bodyRich: messages.bodyRich,
+      bodyPlain: messages.bodyPlain,
+      editedAt: messages.editedAt,
+      replyToId: messages.replyToId,
+      forwardedFromId: messages.forwardedFromId,
+      botName: messages.botName,
+      deletedAt: messages.deletedAt,
+      createdAt: messages.createdAt,
+      senderName: users.name
+    })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .$dynamic();
+  }
+
+  private async hydrate(rows: MessageRow[], includeDeletedRevisions: boolean): Promise<Map<string, ExportedMessage>> {
+    const ids = rows.map(row => row.id);
+    const revisedIds = includeDeletedRevisions ? ids : rows.filter(row => !row.deletedAt).map(row => row.id);
+    const sourceIds = Array.from(new Set(rows.map(row => row.forwardedFromId).filter((id): id is string => id !== null)));
+
+    const [reactions, ownFiles, sharedFiles, revisions, sources, polls] = await Promise.all([
+      db.select({ messageId: messageReactions.messageId, emoji: messageReactions.emoji, userName: users.name })
+        .from(messageReactions)
+        .innerJoin(users, eq(messageReactions.userId, users.id))
+        .where(inArray(messageReactions.messageId, ids))
+        .orderBy(asc(messageReactions.createdAt)),
+      db.select()
+        .from(attachments)
+        .where(inArray(attachments.messageId, ids)),
+      db.select({ ...getTableColumns(attachments), messageId: messageAttachmentShares.messageId })
+        .from(messageAttachmentShares)
+        .innerJoin(attachments, eq(messageAttachmentShares.attachmentId, attachments.id))
+        .where(inArray(messageAttachmentShares.messageId, ids)),
+      revisedIds.length === 0 ? [] : db.select()
+        .from(messageRevisions)
+        .where(inArray(messageRevisions.messageId, revisedIds))
+        .orderBy(asc(messageRevisions.createdAt)),
+      sourceIds.length === 0 ? [] : db.select({ messageId: messages.id, senderName: users.name, createdAt: messages.createdAt })
+        .from(messages)
+        .innerJoin(users, eq(messages.senderId, users.id))
+        .where(inArray(messages.id, sourceIds)),
+      this.getPolls(ids)
+    ]);
+
+    // Forwarded messages include the attachments shared with them
+    const files = [...ownFiles, ...sharedFiles];
+
+    const result = new Map<string, ExportedMessage>();
+    for (const row of rows) {
+      const byEmoji = new Map<string, string[]>();
+      for (const reaction of reactions.filter(r => r.messageId === row.id)) {
+        byEmoji.set(reaction.emoji, [...(byEmoji.get(reaction.emoji) ?? []), reaction.userName]);
+      }
+
+      result.set(row.id, {
+        id: row.id,
+        seq: row.seq,
+        type: row.type,
+        senderId: row.senderId,
+        senderName: row.senderName,
+        botName: row.botName,
+        createdAt: row.createdAt,
+        editedAt: row.editedAt,
+        deletedAt: row.deletedAt,
+        bodyPlain: row.bodyPlain,
+        bodyRich: row.bodyRich,
+        systemEvent: row.systemEvent,
+        reactions: Array.from(byEmoji, ([emoji, userNames]) => ({ emoji, userNames })),
+        attachments: files.filter(file => file.messageId === row.id).map(file => ({
+          id: file.id,
+          originalName: file.originalName,
+          mimeType: file.mimeType,
+          sizeBytes: file.sizeBytes,
+          storageKey: file.storageKey
+        })),
+        revisions: revisions.filter(revision => revision.messageId === row.id).map(revision => ({
+          bodyPlain: revision.bodyPlain,
+          editedBy: revision.editedBy,
+          createdAt: revision.createdAt
+        })),
+        forwardedFrom: sources.find(source => source.messageId === row.forwardedFromId) ?? null,
+        poll: polls.get(row.id) ?? null,
+        replies: []
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Final or current results of the messages' polls, with voter names
+   */
+  private async getPolls(messageIds: string[]): Promise<Map<string, ExportedPoll>> {
+    const summaries = await pollService.getPollSummaries(messageIds);
+
+    const voterIds = Array.from(new Set(
+      Array.from(summaries.values()).flatMap(poll => poll.options.flatMap(option => option.voterIds))
+    ));
+    const voters = voterIds.length === 0 ? [] : await db.select({ id: users.id, name: users.name })
+      .from(users)
+      .where(inArray(users.id, voterIds));
+    const names = new Map(voters.map(voter => [voter.id, voter.name]));
+
+    const result = new Map<string, ExportedPoll>();
+    for (const [messageId, poll] of summaries) {
+      result.set(messageId, {
+        question: poll.question,
+        allowsMultiple: poll.allowsMultiple,
+        isAnonymous: poll.isAnonymous,
+        closesAt: poll.closesAt,
+        closedAt: poll.closedAt,
+        isClosed: poll.isClosed,
+        voterCount: poll.voterCount,
+        options: poll.options.map(option => ({
+          text: option.text,
+          voteCount: option.voteCount,
+          voterNames: option.voterIds.map(id => names.get(id) ?? id)
+        }))
+      });
+    }
+
+    return result;
+  }
+
+  private async updateProgress(job: ConversationExport, progress: number) {
+    const [updated] = await db.update(conversationExports)
+      .set({ progress, updatedAt: new Date() })
+      .where(eq(conversationExports.id, job.id))
+      .returning();
+
+    emitToUser(job.requestedBy, 'conversation:export:updated', updated);
+  }
+
+  private async fail(job: ConversationExport, error: string) {
+    const [failed] = await db.update(conversationExports)
+      .set({ status: 'FAILED', error, completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(conversationExports.id, job.id))
+      .returning();
+
+    emitToUser(job.requestedBy, 'conversation:export:updated', failed);
+    await this.audit(job.requestedBy, 'conversation.export_failed', failed, { error });
+    await this.notifyRequester(job, 'Conversation export failed', error);
+  }
+
+  private async notifyRequester(job: ConversationExport, title: string, message: string) {
+    await notificationService.notify([{
+      userId: job.requestedBy,
+      type: 'SYSTEM',
+      title,
+      message,
+      payload: {
+        kind: 'conversation_export',
+        conversationId: job.conversationId,
+        exportId: job.id
+      }
+    }]);
+  }
+
+  private async audit(
+    actorId: string,
+    action: string,
+    job: ConversationExport,
+    metadata: Record<string, unknown>,
+    context?: AuditContext
+  ) {
+    await db.insert(auditLogs).values({
+      actorId,
+      action,
+      target: `conversation:${job.conversationId}`,
+      metadata: { exportId: job.id, format: job.format, ...metadata },
+      ipAddress: context?.ipAddress ?? null,
+      userAgent: context?.userAgent ?? null
+    });
+  }
+
+  /**
+   * Exports are available to system admins, the conversation's creator and
+   * its admins
+   */
+  private async requireExportPermission(conversationId: string, userId: string) {
+    const [conversation] = await db.select({ createdBy: conversations.createdBy })
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    const [user] = await db.select({ role: users.role })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (user?.role === 'ADMIN') return;
+
+    const membership = await getActiveMembership(conversationId, userId);
+    if (!membership) {
+      throw new Error('Not a member of this conversation');
+    }
+
+    if (conversation.createdBy !== userId && membership.role !== 'ADMIN') {
+      throw new Error('Permission denied');
+    }
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService();
+export default exportService;
@@ -0,0 +1,118 @@
+import { db } from '@/lib/db';
+import { inArray, isNull, and } from 'drizzle-orm';
+import { messages, attachments, messageAttachmentShares, polls } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { messageService, type MessagePayload } from '@/lib/chat/message-service';
+import type { ForwardMessagesInput, SendMessageInput } from '@/lib/validations/chat';
+
+/**
+ * Forward Service - copies messages into another conversation. Each copy
+ * references its original message, and attachments are shared with the copy
+ * rather than uploaded again. Polls are not forwarded, and mentions in a
+ * copy do not notify anyone.
+ */
+class ForwardService {
+  /**
+   * Forward messages into a conversation, in the order given, after an
+   * optional comment. The forwarder must be a member of the target and of
+   * every source conversation.
+   */
+  async forwardMessages(
+    conversationId: string,
+    userId: string,
+    input: ForwardMessagesInput
+  ): Promise<MessagePayload[]> {
+    const { messageIds, comment, clientId } = input;
+
+    await requireConversationMember(conversationId, userId);
+
+    const sources = await db.select({
+      id: messages.id,
+      conversationId: messages.conversationId,
+      type: messages.type,
+      bodyRich: messages.bodyRich,
+      forwardedFromId: messages.forwardedFromId
+    })
+      .from(messages)
+      .where(and(inArray(messages.id, messageIds), isNull(messages.deletedAt)));
+
+    if (sources.length !== new Set(messageIds).size) {
+      throw new Error('Message not found');
+    }
+
+    const sourceConversationIds = new Set(sources.map(source => source.conversationId));
+    for (const sourceConversationId of sourceConversationIds) {
+      await requireConversationMember(sourceConversationId, userId);
+    }
+
+    if (sources.some(source => source.type === 'SYSTEM')) {
+      throw new Error('System messages cannot be forwarded');
+    }
+
+    // A copy would only carry the question, without the options and votes
+    const [poll] = await db.select({ id: polls.id })
+      .from(polls)
+      .where(inArray(polls.messageId, messageIds))
+      .limit(1);
+
+    if (poll) {
+      throw new Error('Polls cannot be forwarded');
+    }
+
+    const files = await this.getAttachmentIds(sources.map(source => source.id));
+    const sourcesById = new Map(sources.map(source => [source.id, source]));
+    const forwarded: MessagePayload[] = [];
+
+    if (comment) {
+      forwarded.push(await messageService.createMessage({
+        conversationId,
+        senderId: userId,
+        content: comment,
+        clientId: clientId && `${clientId}:comment`
+      }));
+    }
+
+    for (const [index, messageId] of Array.from(new Set(messageIds)).entries()) {
+      const source = sourcesById.get(messageId)!;
+
+      // Forwarding a forward keeps pointing at the original message
+      forwarded.push(await messageService.createMessage({
+        conversationId,
+        senderId: userId,
+        content: source.bodyRich as SendMessageInput['content'],
+        clientId: clientId && `${clientId}:${index}`,
+        forwardedFromId: source.forwardedFromId ?? source.id,
+        sharedAttachmentIds: files.get(source.id) ?? []
+      }));
+    }
+
+    return forwarded;
+  }
+
+  /**
+   * Attachment IDs of messages, both uploaded to and shared with them
+   */
+  private async getAttachmentIds(messageIds: string[]): Promise<Map<string, string[]>> {
+    const [own, shared] = await Promise.all([
+      db.select({ messageId: attachments.messageId, attachmentId: attachments.id })
+        .from(attachments)
+        .where(inArray(attachments.messageId, messageIds))
+        .orderBy(attachments.createdAt),
+      db.select({ messageId: messageAttachmentShares.messageId, attachmentId: messageAttachmentShares.attachmentId })
+        .from(messageAttachmentShares)
+        .where(inArray(messageAttachmentShares.messageId, messageIds))
+    ]);
+
+    const ids = new Map<string, string[]>();
+    for (const { messageId, attachmentId } of [...own, ...shared]) {
+      if (!messageId) continue;
+      ids.set(messageId, [...(ids.get(messageId) ?? []), attachmentId]);
+    }
+
+    return ids;
+  }
+}
+
+// Export singleton instance
+export const forwardService = new ForwardService();
+export default forwardService;
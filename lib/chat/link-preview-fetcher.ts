@@ -0,0 +1,222 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+export interface LinkPreviewData {
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+// Fetches the preview of an external URL; null when there is nothing to show
+export interface LinkPreviewFetcher {
+  fetchPreview(url: URL): Promise<LinkPreviewData | null>;
+}
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 3;
+// Previews come from the <head>, so the rest of a large page is not read
+const MAX_HTML_BYTES = 512 * 1024;
+
+const IPV4_BLOCKED_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3] // Multicast and reserved
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPublicIpv4(value: number): boolean {
+  return !IPV4_BLOCKED_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+}
+
+// The eight 16-bit groups of an IPv6 address, with "::" expanded and a
+// dotted IPv4 tail converted to two groups
+function ipv6ToHextets(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const front = parse(head);
+  const back = parse(tail);
+  return [...front, ...Array(8 - front.length - back.length).fill(0), ...back];
+}
+
+// Whether an IP address is outside the private, loopback, link-local and
+// multicast ranges. IPv6 addresses that embed an IPv4 address (mapped,
+// compatible and NAT64) are checked against the IPv4 ranges.
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPublicIpv4(ipv4ToNumber(address));
+  if (version !== 6) return false;
+
+  const hextets = ipv6ToHextets(address);
+  const embeddedIpv4 = hextets[6] * 65536 + hextets[7];
+  const zeroPrefix = hextets.slice(0, 5).every(group => group === 0);
+
+  if (zeroPrefix && (hextets[5] === 0 || hextets[5] === 0xffff)) return isPublicIpv4(embeddedIpv4); // ::/96 and ::ffff:0:0/96
+  if (hextets[0] === 0x64 && hextets[1] === 0xff9b && hextets.slice(2, 6).every(group => group === 0)) {
+    return isPublicIpv4(embeddedIpv4); // 64:ff9b::/96
+  }
+
+  const first = hextets[0];
+  return !(
+    (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link local
+    (first & 0xff00) === 0xff00 // Multicast
+  );
+}
+
+/**
+ * Only public http(s) hosts on the default ports are fetched, so links
+ * cannot be used to probe the internal network. The host is resolved once
+ * here; the request resolves it again, which leaves a small rebinding window.
+ */
+async function assertFetchable(url: URL): Promise<void> {
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.port !== '' || url.username || url.password) {
+    throw new Error('URL is not fetchable');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map(entry => entry.address);
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error('URL is not fetchable');
+  }
+}
+
+async function readLimited(response: Response): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (size < MAX_HTML_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, MAX_HTML_BYTES));
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  const text = value && decodeEntities(value).replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, maxLength) : null;
+}
+
+// Open Graph tags, falling back to <title> and the description meta tag
+export function parseHtmlPreview(html: string, pageUrl: URL): LinkPreviewData | null {
+  const meta = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = tag.match(/\b(?:property|name)\s*=\s*["']([^"']+)["']/i)?.[1].toLowerCase();
+    const content = tag.match(/\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    if (key && content && !meta.has(key)) {
+      meta.set(key, content[1] ?? content[2]);
+    }
+  }
+
+  const title = clean(meta.get('og:title') ?? meta.get('twitter:title') ?? html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1], 300);
+  if (!title) return null;
+
+  let imageUrl: string | null = null;
+  const image = meta.get('og:image') ?? meta.get('twitter:image');
+  if (image) {
+    try {
+      const resolved = new URL(decodeEntities(image), pageUrl);
+      if (resolved.protocol === 'https:' || resolved.protocol === 'http:') imageUrl = resolved.href;
+    } catch {
+      // Ignore malformed image URLs
+    }
+  }
+
+  return {
+    title,
+    description: clean(meta.get('og:description') ?? meta.get('twitter:description') ?? meta.get('description'), 1000),
+    imageUrl,
+    siteName: clean(meta.get('og:site_name'), 100) ?? pageUrl.hostname
+  };
+}
+
+// Reads the preview from the page's HTML
+export const httpLinkPreviewFetcher: LinkPreviewFetcher = {
+  async fetchPreview(url) {
+    let current = url;
+
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      await assertFetchable(current);
+
+      const response = await fetch(current, {
+        redirect: 'manual',
+        headers: { 'User-Agent': 'EPOP-LinkPreview/1.0', 'Accept': 'text/html' },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        current = new URL(location, current);
+        continue;
+      }
+
+      if (!response.ok || !response.headers.get('content-type')?.includes('text/html')) {
+        await response.body?.cancel();
+        return null;
+      }
+
+      return parseHtmlPreview(await readLimited(response), current);
+    }
+
+    return null;
+  }
+};
+
+// Network-free fetcher for tests and offline development
+export const stubLinkPreviewFetcher: LinkPreviewFetcher = {
+  async fetchPreview(url) {
+    return {
+      title: url.hostname,
+      description: url.href,
+      imageUrl: null,
+      siteName: url.hostname
+    };
+  }
+};
+
+// LINK_PREVIEW_FETCHER=stub selects the stub fetcher
+export function getDefaultLinkPreviewFetcher(): LinkPreviewFetcher {
+  return process.env.LINK_PREVIEW_FETCHER === 'stub' ? stubLinkPreviewFetcher : httpLinkPreviewFetcher;
+}
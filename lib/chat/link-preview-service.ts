@@ -0,0 +1,292 @@
+import { db } from '@/lib/db';
+import { eq, and, asc, inArray, sql } from 'drizzle-orm';
+import {
+  messages,
+  messageLinkPreviews,
+  messageAttachmentShares,
+  linkPreviewCache,
+  conversationMembers,
+  projectMembers,
+  projects,
+  tasks,
+  attachments
+} from '@/db/schema';
+import {
+  getDefaultLinkPreviewFetcher,
+  type LinkPreviewData,
+  type LinkPreviewFetcher
+} from '@/lib/chat/link-preview-fetcher';
+
+type LinkPreviewType = typeof messageLinkPreviews.$inferSelect['type'];
+
+export interface LinkPreview extends LinkPreviewData {
+  url: string;
+  type: LinkPreviewType;
+  resourceId: string | null; // Project, task or file of an internal link
+}
+
+// Links unfurled per message
+const MAX_PREVIEWS_PER_MESSAGE = 5;
+
+// How long a fetched preview of an external URL is reused
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'`]+/gi;
+
+const UUID = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+
+// Paths of EPOP pages that unfurl from the database
+const INTERNAL_LINK_PATTERNS: Array<{ type: Exclude<LinkPreviewType, 'EXTERNAL'>; pattern: RegExp }> = [
+  { type: 'TASK', pattern: new RegExp(`^/projects/${UUID}/tasks/(${UUID})/?$`, 'i') },
+  { type: 'PROJECT', pattern: new RegExp(`^/projects/(${UUID})/?$`, 'i') },
+  { type: 'FILE', pattern: new RegExp(`^/(?:api/)?files/(${UUID})/?$`, 'i') }
+];
+
+function formatSize(sizeBytes: number): string {
+  if (sizeBytes < 1024) return `${sizeBytes} B`;
+  if (sizeBytes < 1024 * 1024) return `${(sizeBytes / 1024).toFixed(1)} KB`;
+  return `${(sizeBytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Link Preview Service - previews of the links in messages. External pages
+ * are read by a pluggable fetcher and cached per URL; links to EPOP
+ * projects, tasks and files unfurl from the database.
+ */
+class LinkPreviewService {
+  private fetcher: LinkPreviewFetcher = getDefaultLinkPreviewFetcher();
+
+  /**
+   * Replace the fetcher of external previews, e.g. with a stub in tests
+   */
+  setFetcher(fetcher: LinkPreviewFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Distinct http(s) URLs of a text, in order of appearance
+   */
+  extractUrls(text: string): URL[] {
+    const urls = new Map<string, URL>();
+
+    for (const [match] of text.matchAll(URL_PATTERN)) {
+      // Punctuation right after a link usually belongs to the sentence
+      const candidate = match.replace(/[.,;:!?)\]}'"]+$/, '');
+      try {
+        const url = new URL(candidate);
+        if (!urls.has(url.href)) urls.set(url.href, url);
+      } catch {
+        // Not a valid URL
+      }
+      if (urls.size === MAX_PREVIEWS_PER_MESSAGE) break;
+    }
+
+    return Array.from(urls.values());
+  }
+
+  /**
+   * Generate and store the previews of a message's links, replacing earlier
+   * ones. Returns whether the stored previews changed.
+   */
+  async unfurlMessage(messageId: string): Promise<boolean> {
+    const [message] = await db.select({
+      conversationId: messages.conversationId,
+      bodyPlain: messages.bodyPlain,
+      deletedAt: messages.deletedAt
+    })
+      .from(messages)
+      .where(eq(messages.id, messageId))
+      .limit(1);
+
+    if (!message || message.deletedAt) return false;
+
+    const resolved = await Promise.all(
+      this.extractUrls(message.bodyPlain).map(url => this.resolve(url, message.conversationId))
+    );
+    const previews = resolved.filter((preview): preview is LinkPreview => preview !== null);
+
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select({ bodyPlain: messages.bodyPlain })
+        .from(messages)
+        .where(eq(messages.id, messageId))
+        .for('update');
+
+      // Edited in the meantime: the unfurl of the new text takes over
+      if (!current || current.bodyPlain !== message.bodyPlain) return false;
+
+      const removed = await tx.delete(messageLinkPreviews)
+        .where(eq(messageLinkPreviews.messageId, messageId))
+        .returning({ id: messageLinkPreviews.id });
+
+      if (previews.length > 0) {
+        await tx.insert(messageLinkPreviews)
+          .values(previews.map((preview, position) => ({ ...preview, messageId, position })));
+      }
+
+      return removed.length > 0 || previews.length > 0;
+    });
+  }
+
+  /**
+   * Stored previews of messages, keyed by message ID
+   */
+  async getPreviews(messageIds: string[]): Promise<Map<string, LinkPreview[]>> {
+    const previews = new Map<string, LinkPreview[]>();
+    if (messageIds.length === 0) return previews;
+
+    const rows = await db.select()
+      .from(messageLinkPreviews)
+      .where(inArray(messageLinkPreviews.messageId, messageIds))
+      .orderBy(asc(messageLinkPreviews.position));
+
+    for (const { messageId, url, type, resourceId, title, description, imageUrl, siteName } of rows) {
+      previews.set(messageId, [
+        ...(previews.get(messageId) ?? []),
+        { url, type, resourceId, title, description, imageUrl, siteName }
+      ]);
+    }
+
+    return previews;
+  }
+
+  private async resolve(url: URL, conversationId: string): Promise<LinkPreview | null> {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+    if (appUrl && url.origin === new URL(appUrl).origin) {
+      return this.resolveInternal(url, conversationId);
+    }
+
+    const data = await this.getExternalPreview(url);
+    return data ? { ...data, url: url.href, type: 'EXTERNAL', resourceId: null } : null;
+  }
+
+  private async getExternalPreview(url: URL): Promise<LinkPreviewData | null> {
+    const [cached] = await db.select()
+      .from(linkPreviewCache)
+      .where(and(
+        eq(linkPreviewCache.url, url.href),
+        sql`${linkPreviewCache.fetchedAt} > ${new Date(Date.now() - CACHE_TTL_MS).toISOString()}::timestamp`
+      ))
+      .limit(1);
+
+    if (cached) {
+      const { title, description, imageUrl, siteName } = cached;
+      return title ? { title, description, imageUrl, siteName } : null;
+    }
+
+    let data: LinkPreviewData | null = null;
+    try {
+      data = await this.fetcher.fetchPreview(url);
+    } catch (error) {
+      console.error(`Failed to fetch link preview of ${url.href}:`, error);
+    }
+
+    // Failed fetches are cached too, so a broken link is not retried per message
+    const entry = {
+      title: data?.title ?? null,
+      description: data?.description ?? null,
+      imageUrl: data?.imageUrl ?? null,
+      siteName: data?.siteName ?? null,
+      fetchedAt: new Date()
+    };
+    await db.insert(linkPreviewCache)
+      .values({ url: url.href, ...entry })
+      .onConflictDoUpdate({ target: linkPreviewCache.url, set: entry });
+
+    return data?.title ? data : null;
+  }
+
+  /**
+   * Internal links unfurl only when every member of the conversation may
+   * open the linked resource, so a preview never shows a member something
+   * they could not see otherwise.
+   */
+  private async resolveInternal(url: URL, conversationId: string): Promise<LinkPreview | null> {
+    const link = INTERNAL_LINK_PATTERNS
+      .map(({ type, pattern }) => ({ type, resourceId: url.pathname.match(pattern)?.[1]?.toLowerCase() }))
+      .find(match => match.resourceId);
+
+    if (!link?.resourceId) return null;
+
+    const base = { url: url.href, type: link.type, resourceId: link.resourceId, imageUrl: null };
+
+    if (link.type === 'PROJECT') {
+      const [project] = await db.select()
+        .from(projects)
+        .where(eq(projects.id, link.resourceId))
+        .limit(1);
+
+      if (!project || !await this.allMembersInProject(conversationId, project.id)) return null;
+
+      return { ...base, title: project.name, description: project.description, siteName: `Project · ${project.status}` };
+    }
+
+    if (link.type === 'TASK') {
+      const [task] = await db.select({
+        title: tasks.title,
+        status: tasks.status,
+        priority: tasks.priority,
+        projectId: tasks.projectId,
+        projectName: projects.name
+      })
+        .from(tasks)
+        .innerJoin(projects, eq(tasks.projectId, projects.id))
+        .where(eq(tasks.id, link.resourceId))
+        .limit(1);
+
+      if (!task || !await this.allMembersInProject(conversationId, task.projectId)) return null;
+
+      return { ...base, title: task.title, description: `${task.status} · ${task.priority}`, siteName: `Task · ${task.projectName}` };
+    }
+
+    const [file] = await db.select()
+      .from(attachments)
+      .where(eq(attachments.id, link.resourceId))
+      .limit(1);
+
+    if (!file || !await this.allMembersCanOpenFile(conversationId, file)) return null;
+
+    return { ...base, title: file.originalName, description: `${file.mimeType} · ${formatSize(file.sizeBytes)}`, siteName: 'File' };
+  }
+
+  private async allMembersInProject(conversationId: string, projectId: string): Promise<boolean> {
+    const [outsider] = await db.select({ userId: conversationMembers.userId })
+      .from(conversationMembers)
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        eq(conversationMembers.hasLeft, false),
+        sql`not exists (
+          select 1 from ${projectMembers} pm
+          where pm.project_id = ${projectId} and pm.user_id = ${conversationMembers.userId}
+        )`
+      ))
+      .limit(1);
+
+    return !outsider;
+  }
+
+  // Public files, files of a project all members belong to, and files
+  // already posted in the conversation
+  private async allMembersCanOpenFile(conversationId: string, file: typeof attachments.$inferSelect): Promise<boolean> {
+    if (file.isPublic) return true;
+    if (file.projectId && await this.allMembersInProject(conversationId, file.projectId)) return true;
+
+    const [posted] = await db.select({ id: messages.id })
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        sql`${messages.id} in (
+          select ${attachments.messageId} from ${attachments} where ${attachments.id} = ${file.id}
+          union
+          select ${messageAttachmentShares.messageId} from ${messageAttachmentShares}
+          where ${messageAttachmentShares.attachmentId} = ${file.id}
+        )`
+      ))
+      .limit(1);
+
+    return Boolean(posted);
+  }
+}
+
+// Export singleton instance
+export const linkPreviewService = new LinkPreviewService();
+export default linkPreviewService;
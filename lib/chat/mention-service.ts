@@ -0,0 +1,216 @@
+import { db } from '@/lib/db';
+import { eq, and, desc, isNull, sql, type SQL } from 'drizzle-orm';
+import { messages, messageMentions, conversations, conversationMembers, users } from '@/db/schema';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { notificationSettingsService } from '@/lib/chat/notification-settings-service';
+import { encodeCursor, decodeCursor } from '@/lib/chat/message-cursor';
+import { presenceService } from '@/lib/socket/presence';
+import { walkRichText, type RichTextNode } from '@/lib/chat/rich-text';
+import type { MessagePayload } from '@/lib/chat/message-service';
+
+export type MentionType = 'user' | 'here' | 'channel';
+
+export interface ParsedMentions {
+  userIds: string[];
+  here: boolean; // Members who are online
+  channel: boolean; // All members
+}
+
+export interface ListMentionsParams {
+  userId: string;
+  limit?: number;
+  cursor?: string; // Opaque cursor, older mentions are returned
+}
+
+const MAX_PAGE_SIZE = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// @here and @channel typed as plain text
+const GROUP_MENTION_PATTERN = /(^|\s)@(here|channel)\b/g;
+
+const mentionSortKey = sql`date_trunc('milliseconds', ${messageMentions.createdAt})`;
+
+/**
+ * Collect mentions from a message body. Rich bodies use TipTap mention nodes
+ * (attrs.id is a user ID, or "here"/"channel"); plain text only supports
+ * group mentions.
+ */
+export function parseMentions(content: unknown): ParsedMentions {
+  const parsed: ParsedMentions = { userIds: [], here: false, channel: false };
+  const userIds = new Set<string>();
+
+  const addGroupMentions = (text: string) => {
+    for (const match of text.matchAll(GROUP_MENTION_PATTERN)) {
+      parsed[match[2] as 'here' | 'channel'] = true;
+    }
+  };
+
+  const visit = (node: RichTextNode) => {
+    if (node.type === 'mention') {
+      const id = node.attrs?.id;
+      if (id === 'here' || id === 'channel') {
+        parsed[id] = true;
+      } else if (typeof id === 'string' && UUID_PATTERN.test(id)) {
+        userIds.add(id);
+      }
+    } else if (node.type === 'text' && typeof node.text === 'string') {
+      addGroupMentions(node.text);
+    }
+  };
+
+  if (typeof content === 'string') {
+    addGroupMentions(content);
+  } else if (content && typeof content === 'object') {
+    walkRichText(content as RichTextNode, visit);
+  }
+
+  parsed.userIds = Array.from(userIds);
+  return parsed;
+}
+
+/**
+ * Mention Service - records mentions and notifies the mentioned members
+ */
+class MentionService {
+  /**
+   * Record the mentions in a new or edited message and notify members who
+   * were not mentioned in it before. Returns the notified user IDs.
+   */
+  async handleMessage(message: MessagePayload): Promise<string[]> {
+    try {
+      const parsed = parseMentions(message.bodyRich);
+      if (parsed.userIds.length === 0 && !parsed.here && !parsed.channel) {
+        return [];
+      }
+
+      const members = await db.select({ userId: conversationMembers.userId })
+        .from(conversationMembers)
+        .where(and(
+          eq(conversationMembers.conversationId, message.conversationId),
+          eq(conversationMembers.hasLeft, false)
+        ));
+
+      const memberIds = new Set(members.map(member => member.userId));
+      memberIds.delete(message.senderId);
+
+      const onlineIds = new Set(parsed.here ? await presenceService.getOnlineUserIds() : []);
+
+      // Direct mentions take precedence over group mentions
+      const mentioned = new Map<string, MentionType>();
+      for (const userId of parsed.userIds) {
+        if (memberIds.has(userId)) mentioned.set(userId, 'user');
+      }
+      for (const userId of memberIds) {
+        if (mentioned.has(userId)) continue;
+        if (parsed.channel) {
+          mentioned.set(userId, 'channel');
+        } else if (parsed.here && onlineIds.has(userId)) {
+          mentioned.set(userId, 'here');
+        }
+      }
+
+      if (mentioned.size === 0) return [];
+
+      // Users already mentioned in an earlier version are not notified again
+      const created = await db.insert(messageMentions)
+        .values(Array.from(mentioned, ([userId, mentionType]) => ({
+          messageId: message.id,
+          userId,
+          mentionType
+        })))
+        .onConflictDoNothing()
+        .returning({ userId: messageMentions.userId, mentionType: messageMentions.mentionType });
+
+      // Mentions are always recorded, but muted members are not notified
+      const recipients = new Set(await notificationSettingsService.filterRecipients(
+        message.conversationId,
+        created.map(mention => mention.userId),
+        'mention'
+      ));
+
+      await notificationService.notify(created.filter(mention => recipients.has(mention.userId)).map(mention => ({
+        userId: mention.userId,
+        type: 'MESSAGE' as const,
+        title: mention.mentionType === 'user'
+          ? `${message.senderName} mentioned you`
+          : `${message.senderName} mentioned @${mention.mentionType}`,
+        message: message.bodyPlain.slice(0, 200),
+        payload: {
+          kind: 'mention',
+          mentionType: mention.mentionType,
+          conversationId: message.conversationId,
+          messageId: message.id,
+          threadRootId: message.replyToId
+        }
+      })));
+
+      return created.map(mention => mention.userId);
+    } catch (error) {
+      // Notifications must not fail the send itself
+      console.error('Error handling mentions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Messages the user was mentioned in, newest first. Deleted messages and
+   * conversations the user has left are excluded.
+   */
+  async listMentions(params: ListMentionsParams) {
+    const { userId, cursor } = params;
+    const limit = Math.min(params.limit ?? 50, MAX_PAGE_SIZE);
+
+    const conditions: SQL[] = [
+      eq(messageMentions.userId, userId),
+      isNull(messages.deletedAt)
+    ];
+
+    if (cursor) {
+      const anchor = decodeCursor(cursor);
+      conditions.push(
+        sql`(${mentionSortKey}, ${messageMentions.messageId}) < (${anchor.createdAt.toISOString()}::timestamp, ${anchor.id})`
+      );
+    }
+
+    const rows = await db.select({
+      messageId: messages.id,
+      conversationId: messages.conversationId,
+      conversationTitle: conversations.title,
+      conversationType: conversations.type,
+      senderId: messages.senderId,
+      senderName: users.name,
+      bodyPlain: messages.bodyPlain,
+      replyToId: messages.replyToId,
+      mentionType: messageMentions.mentionType,
+      createdAt: messages.createdAt,
+      mentionedAt: messageMentions.createdAt
+    })
+      .from(messageMentions)
+      .innerJoin(messages, eq(messageMentions.messageId, messages.id))
+      .innerJoin(conversationMembers, and(
+        eq(conversationMembers.conversationId, messages.conversationId),
+        eq(conversationMembers.userId, userId),
+        eq(conversationMembers.hasLeft, false)
+      ))
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(mentionSortKey), desc(messageMentions.messageId))
+      .limit(limit + 1);
+
+    const mentions = rows.slice(0, limit);
+    const last = mentions[mentions.length - 1];
+
+    return {
+      mentions,
+      nextCursor: rows.length > limit && last
+        ? encodeCursor({ createdAt: last.mentionedAt, id: last.messageId })
+        : null
+    };
+  }
+}
+
+// Export singleton instance
+export const mentionService = new MentionService();
+export default mentionService;
@@ -0,0 +1,28 @@
+// Opaque pagination cursors for message history.
+// A cursor encodes the (createdAt, id) position of a message so pages stay
+// stable even when several messages share the same timestamp.
+import { z } from 'zod';
+
+export interface MessagePosition {
+  createdAt: Date;
+  id: string;
+}
+
+// Decoded cursors reach SQL, so both parts are validated
+const cursorSchema = z.tuple([
+  z.string().datetime(),
+  z.string().uuid()
+]);
+
+export function encodeCursor(position: MessagePosition): string {
+  return Buffer.from(JSON.stringify([position.createdAt.toISOString(), position.id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): MessagePosition {
+  try {
+    const [createdAt, id] = cursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+    return { createdAt: new Date(createdAt), id };
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+}
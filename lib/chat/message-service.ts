@@ -0,0 +1,1013 @@
+import { db } from '@/lib/db';
+import { eq, and, asc, desc, gt, lte, inArray, isNull, sql, getTableColumns, type SQL } from 'drizzle-orm';
+import { messages, messageRevisions, messageReactions, messageAttachmentShares, conversations, attachments, scheduledMessages, users } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { encodeCursor, decodeCursor, type MessagePosition } from '@/lib/chat/message-cursor';
+import { emitToConversation } from '@/lib/socket/broadcast';
+import { getSetting, SETTING_KEYS } from '@/lib/settings';
+import { threadService } from '@/lib/chat/thread-service';
+import { mentionService } from '@/lib/chat/mention-service';
+import { buildMessagePlainText } from '@/lib/chat/rich-text';
+import { pollService, type PollSummary } from '@/lib/chat/poll-service';
+import { linkPreviewService, type LinkPreview } from '@/lib/chat/link-preview-service';
+import type { SendMessageInput, PollInput } from '@/lib/validations/chat';
+import type { SystemEvent } from '@/lib/chat/conversation-service';
+
+export interface MessageAttachment {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+export interface ThreadSummary {
+  replyCount: number;
+  lastReplyAt: Date;
+  participants: { id: string; name: string }[]; // Most recent repliers first
+}
+
+// Attribution of a forwarded message
+export interface ForwardedFrom {
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  createdAt: Date;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+// Message row as returned to clients, see `messageColumns`
+type MessageRow = Omit<typeof messages.$inferSelect, 'searchVector'>;
+
+export type MessagePayload = MessageRow & {
+  senderName: string;
+  attachments: MessageAttachment[];
+  reactions: ReactionSummary[];
+  thread: ThreadSummary | null;
+  poll: PollSummary | null;
+  forwardedFrom: ForwardedFrom | null;
+  linkPreviews: LinkPreview[]; // Filled in after sending, see unfurlLinks
+};
+
+export interface CreateMessageParams extends SendMessageInput {
+  conversationId: string;
+  senderId: string;
+  forwardedFromId?: string; // Set by forwarding, not accepted from clients
+  sharedAttachmentIds?: string[]; // Existing attachments of the forwarded message
+  botName?: string; // Set for replies of chat bots, not accepted from clients
+}
+
+export interface EditMessageParams {
+  conversationId: string;
+  messageId: string;
+  userId: string;
+  content: SendMessageInput['content'];
+}
+
+export type PageDirection = 'backward' | 'forward';
+
+export interface SyncParams {
+  conversationId: string;
+  userId: string;
+  sinceSeq: number; // Last sequence number the client has seen
+  limit?: number;
+}
+
+export interface SyncResult {
+  messages: MessagePayload[];
+  lastSeq: number; // Pass as sinceSeq to continue when hasMore is set
+  hasMore: boolean;
+  changesTruncated: boolean; // More older messages changed than were returned; reload the conversation
+}
+
+export interface ListMessagesParams {
+  conversationId: string;
+  userId: string;
+  limit?: number;
+  cursor?: string; // Opaque cursor from a previous page
+  direction?: PageDirection; // backward = older messages, forward = newer
+  before?: string; // Message ID
+  after?: string; // Message ID
+  around?: string; // Message ID, for jump-to-message
+}
+
+export interface ListThreadParams {
+  conversationId: string;
+  messageId: string; // Root message
+  userId: string;
+  limit?: number;
+  cursor?: string; // Opaque cursor, replies newer than it are returned
+}
+
+export interface MessagePage {
+  messages: MessagePayload[]; // Chronological order
+  pageInfo: {
+    startCursor: string | null; // Position of the oldest message in the page
+    endCursor: string | null; // Position of the newest message in the page
+    hasOlder: boolean;
+    hasNewer: boolean;
+  };
+}
+
+const MAX_PAGE_SIZE = 100;
+
+const MAX_SYNC_SIZE = 500;
+
+// Number of recent reply participants shown on a root message
+const THREAD_PARTICIPANT_LIMIT = 3;
+
+// Default edit/delete window for non-admins; 0 disables the limit
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+// Thrown inside the insert transaction when a concurrent retry already stored the message
+const DUPLICATE_SEND = 'Duplicate send';
+
+// Body stored on deleted messages, the original goes to message_revisions
+const DELETED_BODY = { type: 'doc', content: [] };
+
+// Messages are ordered by (createdAt, id). createdAt is truncated to
+// milliseconds so it compares equal to the JavaScript Date stored in cursors.
+const messageSortKey = sql`date_trunc('milliseconds', ${messages.createdAt})`;
+
+function omitSearchVector<T extends { searchVector?: unknown }>(columns: T): Omit<T, 'searchVector'> {
+  const copy = { ...columns };
+  delete copy.searchVector;
+  return copy;
+}
+
+// Columns returned to clients. The generated search vector is only used by
+// message search and stays in the database.
+const messageColumns = omitSearchVector(getTableColumns(messages));
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Attachments of a pending scheduled message are reserved for it. Its own
+// send uses the client ID `scheduled:<id>`, see scheduled-message-service.
+function notReservedBySchedule(clientId?: string) {
+  return sql`not exists (
+    select 1 from ${scheduledMessages} s
+    where s.status in ('PENDING', 'SENDING')
+      and s.attachment_ids @> jsonb_build_array(${attachments.id}::text)
+      and 'scheduled:' || s.id::text is distinct from ${clientId ?? null}
+  )`;
+}
+
+/**
+ * Message Service - single pipeline for creating messages, used by both the
+ * REST API and the Socket.IO server
+ */
+class MessageService {
+  /**
+   * Validate, persist and broadcast a new message
+   */
+  async createMessage(params: CreateMessageParams): Promise<MessagePayload> {
+    const {
+      conversationId,
+      senderId,
+      content,
+      replyToId,
+      clientId,
+      poll,
+      forwardedFromId,
+      sharedAttachmentIds = [],
+      botName,
+      attachments: attachmentIds = []
+    } = params;
+
+    await requireConversationMember(conversationId, senderId);
+
+    // A retried send returns the stored message instead of posting it twice
+    if (clientId) {
+      const existing = await this.findByClientId(senderId, clientId);
+      if (existing) return existing;
+    }
+
+    const threadRootId = replyToId ? await this.resolveThreadRoot(conversationId, replyToId) : null;
+
+    const bodyPlain = await buildMessagePlainText(content, poll?.options);
+
+    let payload: MessagePayload;
+    try {
+      payload = await this.insertMessage({
+        conversationId,
+        senderId,
+        clientId,
+        content,
+        bodyPlain,
+        replyToId: threadRootId,
+        attachmentIds,
+        poll,
+        forwardedFromId,
+        sharedAttachmentIds,
+        botName
+      });
+    } catch (error) {
+      if (clientId && error instanceof Error && error.message === DUPLICATE_SEND) {
+        const existing = await this.findByClientId(senderId, clientId);
+        if (existing) return existing;
+      }
+      throw error;
+    }
+
+    emitToConversation(conversationId, 'message:new', payload);
+
+    if (linkPreviewService.extractUrls(bodyPlain).length > 0) {
+      this.unfurlLinks(payload.id, conversationId);
+    }
+
+    // Mentions in a forwarded copy were written for the source conversation
+    // and do not notify anyone again
+    const mentionedUserIds = forwardedFromId ? [] : await mentionService.handleMessage(payload);
+
+    if (threadRootId) {
+      await threadService.handleNewReply(payload, threadRootId, mentionedUserIds);
+    }
+
+    return payload;
+  }
+
+  /**
+   * The thread a reply goes to. Threads are one level deep: replying to a
+   * reply goes to its root.
+   */
+  async resolveThreadRoot(conversationId: string, replyToId: string): Promise<string> {
+    const [parent] = await db.select({ id: messages.id, replyToId: messages.replyToId })
+      .from(messages)
+      .where(and(
+        eq(messages.id, replyToId),
+        eq(messages.conversationId, conversationId)
+      ))
+      .limit(1);
+
+    if (!parent) {
+      throw new Error('Reply target not found');
+    }
+
+    return parent.replyToId ?? parent.id;
+  }
+
+  /**
+   * Check that attachments were uploaded by the sender and are not used by a
+   * message or reserved by a scheduled message. The rows stay locked until
+   * the transaction ends.
+   */
+  async assertAttachmentsAvailable(tx: Transaction, senderId: string, attachmentIds: string[]): Promise<void> {
+    if (attachmentIds.length === 0) return;
+
+    const available = await tx.select({ id: attachments.id })
+      .from(attachments)
+      .where(and(
+        inArray(attachments.id, attachmentIds),
+        eq(attachments.uploaderId, senderId),
+        isNull(attachments.messageId),
+        notReservedBySchedule()
+      ))
+      .for('update');
+
+    if (available.length !== new Set(attachmentIds).size) {
+      throw new Error('Invalid attachments');
+    }
+  }
+
+  /**
+   * Post a SYSTEM message (e.g. "Alice added Bob") to the timeline. The actor
+   * is stored as the sender; no notifications are sent.
+   */
+  async createSystemMessage(
+    conversationId: string,
+    actorId: string,
+    systemEvent: SystemEvent,
+    text: string
+  ): Promise<MessagePayload> {
+    const payload = await this.insertMessage({
+      conversationId,
+      senderId: actorId,
+      content: text,
+      bodyPlain: text,
+      replyToId: null,
+      attachmentIds: [],
+      systemEvent
+    });
+
+    emitToConversation(conversationId, 'message:new', payload);
+
+    return payload;
+  }
+
+  /**
+   * Insert a message with the conversation's next sequence number and link
+   * its attachments, in one transaction
+   */
+  private async insertMessage(params: {
+    conversationId: string;
+    senderId: string;
+    clientId?: string;
+    content: SendMessageInput['content'];
+    bodyPlain: string;
+    replyToId: string | null;
+    attachmentIds: string[];
+    systemEvent?: SystemEvent;
+    poll?: PollInput;
+    forwardedFromId?: string;
+    sharedAttachmentIds?: string[];
+    botName?: string;
+  }): Promise<MessagePayload> {
+    const {
+      conversationId,
+      senderId,
+      clientId,
+      content,
+      bodyPlain,
+      replyToId,
+      attachmentIds,
+      systemEvent,
+      poll,
+      forwardedFromId,
+      sharedAttachmentIds = [],
+      botName
+    } = params;
+
+    return db.transaction(async (tx) => {
+      // Take the next sequence number; the row lock orders concurrent sends
+      const createdAt = new Date();
+      const [conversation] = await tx.update(conversations)
+        .set({
+          lastSeq: sql`${conversations.lastSeq} + 1`,
+          lastMessageAt: createdAt,
+          updatedAt: createdAt
+        })
+        .where(eq(conversations.id, conversationId))
+        .returning({ lastSeq: conversations.lastSeq });
+
+      if (!conversation) {
+        throw new Error('Conversation not found');
+      }
+
+      const [newMessage] = await tx.insert(messages).values({
+        conversationId,
+        senderId,
+        seq: conversation.lastSeq,
+        type: systemEvent ? 'SYSTEM' : 'USER',
+        systemEvent: systemEvent ?? null,
+        clientId: clientId ?? null,
+        bodyRich: content,
+        bodyPlain,
+        replyToId,
+        forwardedFromId: forwardedFromId ?? null,
+        botName: botName ?? null,
+        createdAt
+      })
+        .onConflictDoNothing({ target: [messages.senderId, messages.clientId] })
+        .returning(messageColumns);
+
+      // A concurrent retry with the same client ID won; roll back the sequence number
+      if (!newMessage) {
+        throw new Error(DUPLICATE_SEND);
+      }
+
+      // Link uploaded attachments that belong to the sender and are not used
+      // or reserved yet
+      let linkedAttachments: MessageAttachment[] = [];
+      if (attachmentIds.length > 0) {
+        linkedAttachments = await tx.update(attachments)
+          .set({ messageId: newMessage.id })
+          .where(and(
+            inArray(attachments.id, attachmentIds),
+            eq(attachments.uploaderId, senderId),
+            isNull(attachments.messageId),
+            notReservedBySchedule(clientId)
+          ))
+          .returning({
+            id: attachments.id,
+            originalName: attachments.originalName,
+            mimeType: attachments.mimeType,
+            sizeBytes: attachments.sizeBytes
+          });
+
+        if (linkedAttachments.length !== new Set(attachmentIds).size) {
+          throw new Error('Invalid attachments');
+        }
+      }
+
+      // Forwarded attachments reuse the stored files and their records
+      if (sharedAttachmentIds.length > 0) {
+        await tx.insert(messageAttachmentShares)
+          .values(sharedAttachmentIds.map(attachmentId => ({ messageId: newMessage.id, attachmentId })));
+
+        linkedAttachments.push(...await tx.select({
+          id: attachments.id,
+          originalName: attachments.originalName,
+          mimeType: attachments.mimeType,
+          sizeBytes: attachments.sizeBytes
+        })
+          .from(attachments)
+          .where(inArray(attachments.id, sharedAttachmentIds)));
+      }
+
+      const pollSummary = poll
+        ? await pollService.insertPoll(tx, newMessage.id, conversationId, senderId, poll)
+        : null;
+
+      const [sender] = await tx.select({ name: users.name })
+        .from(users)
+        .where(eq(users.id, senderId))
+        .limit(1);
+
+      return {
+        ...newMessage,
+        senderName: sender?.name ?? 'Unknown',
+        attachments: linkedAttachments,
+        reactions: [],
+        thread: null,
+        poll: pollSummary,
+        forwardedFrom: forwardedFromId ? await this.getForwardedFrom(tx, forwardedFromId) : null,
+        linkPreviews: []
+      };
+    });
+  }
+
+  /**
+   * Edit a message, keeping the previous version in the revision history
+   */
+  async editMessage(params: EditMessageParams): Promise<MessagePayload> {
+    const { conversationId, messageId, userId, content } = params;
+    const message = await this.getEditableMessage(conversationId, messageId, userId);
+
+    if (message.senderId !== userId) {
+      throw new Error('Permission denied');
+    }
+
+    // The poll stays with the message, so its options remain searchable
+    const pollOptions = (await pollService.getOptionTexts([messageId])).get(messageId);
+    const bodyPlain = await buildMessagePlainText(content, pollOptions);
+
+    await db.transaction(async (tx) => {
+      await tx.insert(messageRevisions).values({
+        messageId,
+        bodyRich: message.bodyRich,
+        bodyPlain: message.bodyPlain,
+        editedBy: userId
+      });
+
+      await tx.update(messages)
+        .set({
+          bodyRich: content,
+          bodyPlain,
+          isEdited: true,
+          editedAt: new Date()
+        })
+        .where(eq(messages.id, messageId));
+    });
+
+    const payload = await this.getMessage(messageId);
+    emitToConversation(message.conversationId, 'message:updated', payload);
+
+    // Also clears the previews of links the edit removed
+    this.unfurlLinks(messageId, message.conversationId);
+
+    // Only members newly mentioned by the edit are notified
+    await mentionService.handleMessage(payload);
+
+    return payload;
+  }
+
+  /**
+   * Soft delete a message. The row stays in place as a "message deleted"
+   * placeholder and the original body is kept in the revision history.
+   */
+  async deleteMessage(conversationId: string, messageId: string, userId: string): Promise<void> {
+    const message = await this.getEditableMessage(conversationId, messageId, userId);
+    const deletedAt = new Date();
+
+    await db.transaction(async (tx) => {
+      await tx.insert(messageRevisions).values({
+        messageId,
+        bodyRich: message.bodyRich,
+        bodyPlain: message.bodyPlain,
+        editedBy: userId
+      });
+
+      await tx.update(messages)
+        .set({
+          bodyRich: DELETED_BODY,
+          bodyPlain: '',
+          deletedAt,
+          deletedBy: userId
+        })
+        .where(eq(messages.id, messageId));
+    });
+
+    emitToConversation(message.conversationId, 'message:deleted', {
+      messageId,
+      conversationId: message.conversationId,
+      deletedAt: deletedAt.toISOString()
+    });
+  }
+
+  /**
+   * Get the edit history of a message, newest first
+   */
+  async listRevisions(conversationId: string, messageId: string, userId: string) {
+    const message = await this.findMessage(conversationId, messageId);
+    await requireConversationMember(message.conversationId, userId);
+
+    // Revisions of deleted messages hold the removed content
+    if (message.deletedAt && !(await this.isAdmin(userId))) {
+      throw new Error('Permission denied');
+    }
+
+    return db.select({
+      id: messageRevisions.id,
+      bodyRich: messageRevisions.bodyRich,
+      bodyPlain: messageRevisions.bodyPlain,
+      editedBy: messageRevisions.editedBy,
+      createdAt: messageRevisions.createdAt
+    })
+      .from(messageRevisions)
+      .where(eq(messageRevisions.messageId, messageId))
+      .orderBy(desc(messageRevisions.createdAt));
+  }
+
+  /**
+   * Get a single message with sender and attachments
+   */
+  async getMessage(messageId: string): Promise<MessagePayload> {
+    const rows = await db.select({
+      ...messageColumns,
+      senderName: users.name
+    })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(eq(messages.id, messageId))
+      .limit(1);
+
+    if (!rows.length) {
+      throw new Error('Message not found');
+    }
+
+    const [payload] = await this.hydrate(rows);
+    return payload;
+  }
+
+  /**
+   * The message a sender already posted with this client ID, if any
+   */
+  async findByClientId(senderId: string, clientId: string): Promise<MessagePayload | null> {
+    const [message] = await db.select({ id: messages.id })
+      .from(messages)
+      .where(and(
+        eq(messages.senderId, senderId),
+        eq(messages.clientId, clientId)
+      ))
+      .limit(1);
+
+    return message ? this.getMessage(message.id) : null;
+  }
+
+  /**
+   * Everything a client missed after `sinceSeq`: new messages in sequence
+   * order and, once caught up, older messages edited or deleted since then
+   */
+  async syncSince(params: SyncParams): Promise<SyncResult> {
+    const { conversationId, userId, sinceSeq } = params;
+    const limit = Math.min(params.limit ?? MAX_SYNC_SIZE, MAX_SYNC_SIZE);
+
+    await requireConversationMember(conversationId, userId);
+
+    const selection = {
+      ...messageColumns,
+      senderName: users.name
+    };
+
+    const rows: (MessageRow & { senderName: string })[] = await db.select(selection)
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        gt(messages.seq, sinceSeq)
+      ))
+      .orderBy(asc(messages.seq))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const newRows = rows.slice(0, limit);
+
+    // Changes are looked up from the newest message the client has that
+    // still exists; the message at sinceSeq itself may have been purged
+    let changedRows: typeof newRows = [];
+    if (!hasMore && sinceSeq > 0) {
+      changedRows = await db.select(selection)
+        .from(messages)
+        .innerJoin(users, eq(messages.senderId, users.id))
+        .where(and(
+          eq(messages.conversationId, conversationId),
+          lte(messages.seq, sinceSeq),
+          sql`greatest(${messages.editedAt}, ${messages.deletedAt}) > (
+            select m.created_at from ${messages} m
+            where m.conversation_id = ${conversationId} and m.seq <= ${sinceSeq}
+            order by m.seq desc
+            limit 1
+          )`
+        ))
+        .orderBy(asc(messages.seq))
+        .limit(limit + 1);
+    }
+
+    const changesTruncated = changedRows.length > limit;
+
+    return {
+      messages: await this.hydrate([...changedRows.slice(0, limit), ...newRows]),
+      lastSeq: newRows.length > 0 ? newRows[newRows.length - 1].seq : sinceSeq,
+      hasMore,
+      changesTruncated
+    };
+  }
+
+  private async findMessage(conversationId: string, messageId: string) {
+    const [message] = await db.select()
+      .from(messages)
+      .where(and(
+        eq(messages.id, messageId),
+        eq(messages.conversationId, conversationId)
+      ))
+      .limit(1);
+
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    return message;
+  }
+
+  /**
+   * Load a message for editing or deletion. Senders may change their own
+   * messages within the edit window; admins may delete any message.
+   */
+  private async getEditableMessage(conversationId: string, messageId: string, userId: string) {
+    const message = await this.findMessage(conversationId, messageId);
+
+    if (message.deletedAt) {
+      throw new Error('Message not found');
+    }
+
+    await requireConversationMember(message.conversationId, userId);
+
+    // System messages are part of the conversation's history
+    if (message.type === 'SYSTEM') {
+      throw new Error('Permission denied');
+    }
+
+    if (await this.isAdmin(userId)) {
+      return message;
+    }
+
+    if (message.senderId !== userId) {
+      throw new Error('Permission denied');
+    }
+
+    const windowMinutes = await getSetting<number>(SETTING_KEYS.messageEditWindowMinutes, DEFAULT_EDIT_WINDOW_MINUTES);
+    if (windowMinutes > 0 && Date.now() - message.createdAt.getTime() > windowMinutes * 60 * 1000) {
+      throw new Error('Edit window has expired');
+    }
+
+    return message;
+  }
+
+  private async isAdmin(userId: string): Promise<boolean> {
+    const [user] = await db.select({ role: users.role })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    return user?.role === 'ADMIN';
+  }
+
+  /**
+   * List a page of a conversation's history using cursor-based pagination
+   */
+  async listMessages(params: ListMessagesParams): Promise<MessagePage> {
+    const { conversationId, userId } = params;
+    const limit = Math.min(Math.max(params.limit || 50, 1), MAX_PAGE_SIZE);
+
+    await requireConversationMember(conversationId, userId);
+
+    // Thread replies are shown in the thread view, not the main timeline
+    const timeline = and(
+      eq(messages.conversationId, conversationId),
+      isNull(messages.replyToId)
+    )!;
+
+    // Center the page on a message: half older (including it), half newer
+    if (params.around) {
+      const anchor = await this.getMessagePosition(conversationId, params.around);
+      const olderLimit = Math.ceil(limit / 2);
+      const older = await this.fetchPage(timeline, 'backward', anchor, olderLimit, true);
+      const newer = await this.fetchPage(timeline, 'forward', anchor, limit - olderLimit, false);
+
+      return this.buildPage([...older.rows, ...newer.rows], older.hasMore, newer.hasMore);
+    }
+
+    let direction: PageDirection = params.direction ?? 'backward';
+    let anchor: MessagePosition | null = null;
+
+    if (params.before) {
+      anchor = await this.getMessagePosition(conversationId, params.before);
+      direction = 'backward';
+    } else if (params.after) {
+      anchor = await this.getMessagePosition(conversationId, params.after);
+      direction = 'forward';
+    } else if (params.cursor) {
+      anchor = decodeCursor(params.cursor);
+    }
+
+    const page = await this.fetchPage(timeline, direction, anchor, limit, false);
+
+    // The anchor itself lies on the other side of the page
+    return this.buildPage(
+      page.rows,
+      direction === 'backward' ? page.hasMore : anchor !== null,
+      direction === 'forward' ? page.hasMore : anchor !== null
+    );
+  }
+
+  private async getMessagePosition(conversationId: string, messageId: string): Promise<MessagePosition> {
+    const [message] = await db.select({ id: messages.id, createdAt: messages.createdAt })
+      .from(messages)
+      .where(and(
+        eq(messages.id, messageId),
+        eq(messages.conversationId, conversationId)
+      ))
+      .limit(1);
+
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    return message;
+  }
+
+  /**
+   * List a thread: the root message and a page of its replies, oldest first
+   */
+  async listThread(params: ListThreadParams): Promise<MessagePage & { root: MessagePayload }> {
+    const { conversationId, messageId, userId } = params;
+    const limit = Math.min(Math.max(params.limit || 50, 1), MAX_PAGE_SIZE);
+
+    await requireConversationMember(conversationId, userId);
+
+    const rootPosition = await this.getMessagePosition(conversationId, messageId);
+    const root = await this.getMessage(rootPosition.id);
+    if (root.replyToId) {
+      throw new Error('Message is not a thread root');
+    }
+
+    const anchor = params.cursor ? decodeCursor(params.cursor) : null;
+    const page = await this.fetchPage(
+      and(eq(messages.conversationId, conversationId), eq(messages.replyToId, messageId))!,
+      'forward',
+      anchor,
+      limit,
+      false
+    );
+
+    return {
+      root,
+      ...(await this.buildPage(page.rows, anchor !== null, page.hasMore))
+    };
+  }
+
+  private async fetchPage(
+    scope: SQL,
+    direction: PageDirection,
+    anchor: MessagePosition | null,
+    limit: number,
+    inclusive: boolean
+  ) {
+    const conditions: SQL[] = [scope];
+
+    if (anchor) {
+      const operator = direction === 'backward'
+        ? (inclusive ? '<=' : '<')
+        : (inclusive ? '>=' : '>');
+      conditions.push(
+        sql`(${messageSortKey}, ${messages.id}) ${sql.raw(operator)} (${anchor.createdAt.toISOString()}::timestamp, ${anchor.id})`
+      );
+    }
+
+    const order = direction === 'backward'
+      ? [desc(messageSortKey), desc(messages.id)]
+      : [asc(messageSortKey), asc(messages.id)];
+
+    const rows = await db.select({
+      ...messageColumns,
+      senderName: users.name
+    })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(and(...conditions))
+      .orderBy(...order)
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+
+    return {
+      rows: direction === 'backward' ? pageRows.reverse() : pageRows,
+      hasMore
+    };
+  }
+
+  private async buildPage(
+    rows: (MessageRow & { senderName: string })[],
+    hasOlder: boolean,
+    hasNewer: boolean
+  ): Promise<MessagePage> {
+    const hydrated = await this.hydrate(rows);
+    const first = hydrated[0];
+    const last = hydrated[hydrated.length - 1];
+
+    return {
+      messages: hydrated,
+      pageInfo: {
+        startCursor: first ? encodeCursor({ id: first.id, createdAt: first.createdAt }) : null,
+        endCursor: last ? encodeCursor({ id: last.id, createdAt: last.createdAt }) : null,
+        hasOlder,
+        hasNewer
+      }
+    };
+  }
+
+  /**
+   * Add attachments, reactions, thread summaries, polls, forward attribution
+   * and link previews to message rows
+   */
+  private async hydrate(
+    rows: (MessageRow & { senderName: string })[]
+  ): Promise<MessagePayload[]> {
+    if (rows.length === 0) return [];
+
+    const messageIds = rows.map(row => row.id);
+
+    const fileColumns = {
+      id: attachments.id,
+      originalName: attachments.originalName,
+      mimeType: attachments.mimeType,
+      sizeBytes: attachments.sizeBytes
+    };
+
+    const ownFiles = await db.select({ ...fileColumns, messageId: attachments.messageId })
+      .from(attachments)
+      .where(inArray(attachments.messageId, messageIds))
+      .orderBy(attachments.createdAt);
+
+    const sharedFiles = await db.select({ ...fileColumns, messageId: messageAttachmentShares.messageId })
+      .from(messageAttachmentShares)
+      .innerJoin(attachments, eq(messageAttachmentShares.attachmentId, attachments.id))
+      .where(inArray(messageAttachmentShares.messageId, messageIds))
+      .orderBy(attachments.createdAt);
+
+    const files = [...ownFiles, ...sharedFiles];
+
+    const reactions = await this.getReactionSummaries(messageIds);
+    const threads = await this.getThreadSummaries(messageIds);
+    const pollSummaries = await pollService.getPollSummaries(messageIds);
+    const forwards = await this.getForwardedFromSummaries(rows);
+    const linkPreviews = await linkPreviewService.getPreviews(messageIds);
+
+    return rows.map(row => ({
+      ...row,
+      attachments: files
+        .filter(file => file.messageId === row.id && !row.deletedAt)
+        .map(file => ({
+          id: file.id,
+          originalName: file.originalName,
+          mimeType: file.mimeType,
+          sizeBytes: file.sizeBytes
+        })),
+      reactions: row.deletedAt ? [] : (reactions.get(row.id) ?? []),
+      thread: threads.get(row.id) ?? null,
+      poll: row.deletedAt ? null : (pollSummaries.get(row.id) ?? null),
+      forwardedFrom: row.forwardedFromId ? (forwards.get(row.forwardedFromId) ?? null) : null,
+      linkPreviews: row.deletedAt ? [] : (linkPreviews.get(row.id) ?? [])
+    }));
+  }
+
+  /**
+   * Unfurl a message's links without holding up the send. The message is
+   * broadcast again once its previews are stored.
+   */
+  private unfurlLinks(messageId: string, conversationId: string) {
+    linkPreviewService.unfurlMessage(messageId)
+      .then(async (changed) => {
+        if (changed) {
+          emitToConversation(conversationId, 'message:updated', await this.getMessage(messageId));
+        }
+      })
+      .catch(error => console.error(`Failed to unfurl links of message ${messageId}:`, error));
+  }
+
+  private async getForwardedFrom(tx: Pick<typeof db, 'select'>, messageId: string): Promise<ForwardedFrom | null> {
+    const [source] = await tx.select({
+      messageId: messages.id,
+      senderId: messages.senderId,
+      senderName: users.name,
+      createdAt: messages.createdAt
+    })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(eq(messages.id, messageId))
+      .limit(1);
+
+    return source ?? null;
+  }
+
+  private async getForwardedFromSummaries(rows: MessageRow[]): Promise<Map<string, ForwardedFrom>> {
+    const sourceIds = Array.from(new Set(rows.map(row => row.forwardedFromId).filter((id): id is string => id !== null)));
+    if (sourceIds.length === 0) return new Map();
+
+    const sources = await db.select({
+      messageId: messages.id,
+      senderId: messages.senderId,
+      senderName: users.name,
+      createdAt: messages.createdAt
+    })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(inArray(messages.id, sourceIds));
+
+    return new Map(sources.map(source => [source.messageId, source]));
+  }
+
+  private async getReactionSummaries(messageIds: string[]): Promise<Map<string, ReactionSummary[]>> {
+    const summaries = new Map<string, ReactionSummary[]>();
+
+    const rows = await db.select({
+      messageId: messageReactions.messageId,
+      emoji: messageReactions.emoji,
+      count: sql<number>`count(*)::int`,
+      userIds: sql<string[]>`array_agg(${messageReactions.userId} order by ${messageReactions.createdAt})`
+    })
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageIds))
+      .groupBy(messageReactions.messageId, messageReactions.emoji)
+      .orderBy(sql`min(${messageReactions.createdAt})`);
+
+    for (const row of rows) {
+      const list = summaries.get(row.messageId) ?? [];
+      list.push({ emoji: row.emoji, count: row.count, userIds: row.userIds });
+      summaries.set(row.messageId, list);
+    }
+
+    return summaries;
+  }
+
+  private async getThreadSummaries(messageIds: string[]): Promise<Map<string, ThreadSummary>> {
+    const summaries = new Map<string, ThreadSummary>();
+
+    // One row per (thread, participant) with that participant's latest reply
+    const participants = await db.select({
+      rootId: messages.replyToId,
+      userId: messages.senderId,
+      name: users.name,
+      replyCount: sql<number>`count(*)::int`,
+      lastReplyAt: sql<Date>`max(${messages.createdAt})`.mapWith(messages.createdAt)
+    })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(and(
+        inArray(messages.replyToId, messageIds),
+        isNull(messages.deletedAt)
+      ))
+      .groupBy(messages.replyToId, messages.senderId, users.name)
+      .orderBy(desc(sql`max(${messages.createdAt})`));
+
+    for (const participant of participants) {
+      if (!participant.rootId) continue;
+
+      const summary = summaries.get(participant.rootId);
+      if (!summary) {
+        summaries.set(participant.rootId, {
+          replyCount: participant.replyCount,
+          lastReplyAt: participant.lastReplyAt,
+          participants: [{ id: participant.userId, name: participant.name }]
+        });
+        continue;
+      }
+
+      summary.replyCount += participant.replyCount;
+      if (summary.participants.length < THREAD_PARTICIPANT_LIMIT) {
+        summary.participants.push({ id: participant.userId, name: participant.name });
+      }
+    }
+
+    return summaries;
+  }
+}
+
+// Export singleton instance
+export const messageService = new MessageService();
+export default messageService;
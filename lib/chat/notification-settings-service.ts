@@ -0,0 +1,101 @@
+import { db } from '@/lib/db';
+import { eq, and, inArray } from 'drizzle-orm';
+import { conversationMembers } from '@/db/schema';
+import { requireConversationMember, type ConversationMembership } from '@/lib/chat/conversation-access';
+import { emitToUser } from '@/lib/socket/broadcast';
+import type { UpdateNotificationSettingsInput } from '@/lib/validations/chat';
+
+export type NotificationLevel = ConversationMembership['notificationLevel'];
+
+// What a notification is about: mentions (@user, @here, @channel) or other activity
+export type NotificationKind = 'mention' | 'activity';
+
+export interface NotificationSettings {
+  conversationId: string;
+  notificationLevel: NotificationLevel;
+  mutedUntil: Date | null;
+  isMuted: boolean; // NOTHING, or snoozed until mutedUntil
+}
+
+type SettingsFields = Pick<ConversationMembership, 'notificationLevel' | 'mutedUntil'>;
+
+function isMuted(settings: SettingsFields, now = new Date()): boolean {
+  return settings.notificationLevel === 'NOTHING'
+    || (settings.mutedUntil !== null && settings.mutedUntil > now);
+}
+
+function wantsNotification(settings: SettingsFields, kind: NotificationKind): boolean {
+  if (isMuted(settings)) return false;
+  return settings.notificationLevel === 'ALL' || kind === 'mention';
+}
+
+/**
+ * Notification Settings Service - per-member notification level and snooze
+ * of a conversation
+ */
+class NotificationSettingsService {
+  async getSettings(conversationId: string, userId: string): Promise<NotificationSettings> {
+    const membership = await requireConversationMember(conversationId, userId);
+    return this.toSettings(membership);
+  }
+
+  async updateSettings(
+    conversationId: string,
+    userId: string,
+    input: UpdateNotificationSettingsInput
+  ): Promise<NotificationSettings> {
+    await requireConversationMember(conversationId, userId);
+
+    const [membership] = await db.update(conversationMembers)
+      .set({
+        ...(input.notificationLevel !== undefined ? { notificationLevel: input.notificationLevel } : {}),
+        ...(input.mutedUntil !== undefined ? { mutedUntil: input.mutedUntil } : {})
+      })
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        eq(conversationMembers.userId, userId)
+      ))
+      .returning();
+
+    const settings = this.toSettings(membership);
+
+    // Keep the user's other devices in sync
+    emitToUser(userId, 'conversation:notifications:updated', settings);
+
+    return settings;
+  }
+
+  /**
+   * The subset of users whose settings allow a notification of this kind
+   */
+  async filterRecipients(conversationId: string, userIds: string[], kind: NotificationKind): Promise<string[]> {
+    if (userIds.length === 0) return [];
+
+    const members = await db.select({
+      userId: conversationMembers.userId,
+      notificationLevel: conversationMembers.notificationLevel,
+      mutedUntil: conversationMembers.mutedUntil
+    })
+      .from(conversationMembers)
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        inArray(conversationMembers.userId, userIds)
+      ));
+
+    const allowed = new Set(members.filter(member => wantsNotification(member, kind)).map(member => member.userId));
+    return userIds.filter(userId => allowed.has(userId));
+  }
+
+  private toSettings(membership: ConversationMembership): NotificationSettings {
+    return {
+      conversationId: membership.conversationId,
+      notificationLevel: membership.notificationLevel,
+      mutedUntil: membership.mutedUntil,
+      isMuted: isMuted(membership)
+    };
+  }
+}
+
+// Export singleton instance
+export const notificationSettingsService = new NotificationSettingsService();
+export default notificationSettingsService;
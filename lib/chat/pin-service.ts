@@ -0,0 +1,137 @@
+import { db } from '@/lib/db';
+import { eq, and, desc, isNull, count } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { conversations, messages, pinnedMessages, users } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { emitToConversation } from '@/lib/socket/broadcast';
+
+export interface PinnedMessage {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  senderName: string;
+  bodyPlain: string;
+  createdAt: Date; // When the message was sent
+  pinnedBy: string;
+  pinnedByName: string;
+  pinnedAt: Date;
+}
+
+const MAX_PINS_PER_CONVERSATION = 50;
+
+const pinner = alias(users, 'pinner');
+
+/**
+ * Pin Service - messages pinned to a conversation's header
+ */
+class PinService {
+  /**
+   * Pinned messages of a conversation, most recently pinned first. Deleted
+   * messages are left out.
+   */
+  async listPins(conversationId: string, userId: string): Promise<PinnedMessage[]> {
+    await requireConversationMember(conversationId, userId);
+    return this.queryPins(conversationId);
+  }
+
+  async pinMessage(conversationId: string, messageId: string, userId: string): Promise<PinnedMessage> {
+    await requireConversationMember(conversationId, userId);
+    await this.requirePinnableMessage(conversationId, messageId);
+
+    const created = await db.transaction(async (tx) => {
+      // Lock the conversation so concurrent pins count each other
+      await tx.select({ id: conversations.id })
+        .from(conversations)
+        .where(eq(conversations.id, conversationId))
+        .for('update');
+
+      // Pins of deleted messages are hidden, so they do not count
+      const [{ pinCount }] = await tx.select({ pinCount: count() })
+        .from(pinnedMessages)
+        .innerJoin(messages, eq(pinnedMessages.messageId, messages.id))
+        .where(and(
+          eq(pinnedMessages.conversationId, conversationId),
+          isNull(messages.deletedAt)
+        ));
+
+      if (pinCount >= MAX_PINS_PER_CONVERSATION) {
+        throw new Error('Too many pinned messages');
+      }
+
+      // Pinning an already pinned message keeps the original pin
+      const [row] = await tx.insert(pinnedMessages)
+        .values({ messageId, conversationId, pinnedBy: userId })
+        .onConflictDoNothing()
+        .returning();
+
+      return row;
+    });
+
+    const [pin] = await this.queryPins(conversationId, messageId);
+    if (created) {
+      emitToConversation(conversationId, 'message:pinned', pin);
+    }
+
+    return pin;
+  }
+
+  async unpinMessage(conversationId: string, messageId: string, userId: string): Promise<void> {
+    await requireConversationMember(conversationId, userId);
+
+    const [removed] = await db.delete(pinnedMessages)
+      .where(and(
+        eq(pinnedMessages.conversationId, conversationId),
+        eq(pinnedMessages.messageId, messageId)
+      ))
+      .returning();
+
+    if (!removed) {
+      throw new Error('Message is not pinned');
+    }
+
+    emitToConversation(conversationId, 'message:unpinned', { conversationId, messageId, unpinnedBy: userId });
+  }
+
+  private async requirePinnableMessage(conversationId: string, messageId: string) {
+    const [message] = await db.select({ id: messages.id })
+      .from(messages)
+      .where(and(
+        eq(messages.id, messageId),
+        eq(messages.conversationId, conversationId),
+        isNull(messages.deletedAt)
+      ))
+      .limit(1);
+
+    if (!message) {
+      throw new Error('Message not found');
+    }
+  }
+
+  private async queryPins(conversationId: string, messageId?: string): Promise<PinnedMessage[]> {
+    return db.select({
+      messageId: pinnedMessages.messageId,
+      conversationId: pinnedMessages.conversationId,
+      senderId: messages.senderId,
+      senderName: users.name,
+      bodyPlain: messages.bodyPlain,
+      createdAt: messages.createdAt,
+      pinnedBy: pinnedMessages.pinnedBy,
+      pinnedByName: pinner.name,
+      pinnedAt: pinnedMessages.createdAt
+    })
+      .from(pinnedMessages)
+      .innerJoin(messages, eq(pinnedMessages.messageId, messages.id))
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .innerJoin(pinner, eq(pinnedMessages.pinnedBy, pinner.id))
+      .where(and(
+        eq(pinnedMessages.conversationId, conversationId),
+        isNull(messages.deletedAt),
+        messageId ? eq(pinnedMessages.messageId, messageId) : undefined
+      ))
+      .orderBy(desc(pinnedMessages.createdAt));
+  }
+}
+
+// Export singleton instance
+export const pinService = new PinService();
+export default pinService;
@@ -0,0 +1,299 @@
+import { db } from '@/lib/db';
+import { eq, and, asc, inArray, isNull, sql } from 'drizzle-orm';
+import { messages, polls, pollOptions, pollVotes } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { emitToConversation } from '@/lib/socket/broadcast';
+import type { PollInput } from '@/lib/validations/chat';
+
+export interface PollOptionSummary {
+  id: string;
+  text: string;
+  voteCount: number;
+  voterIds: string[]; // Empty for anonymous polls
+}
+
+export interface PollSummary {
+  id: string;
+  question: string;
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: Date | null;
+  closedAt: Date | null;
+  isClosed: boolean;
+  voterCount: number;
+  options: PollOptionSummary[];
+}
+
+// Tallies for everyone, plus the options the requesting user voted for
+export interface PollState {
+  poll: PollSummary;
+  myOptionIds: string[];
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type PollRow = typeof polls.$inferSelect;
+
+function isClosed(poll: PollRow, now = new Date()): boolean {
+  return poll.closedAt !== null || (poll.closesAt !== null && poll.closesAt <= now);
+}
+
+/**
+ * Poll Service - polls posted as messages, with votes stored per user and
+ * live tallies broadcast to the conversation room
+ */
+class PollService {
+  /**
+   * Store the poll of a new message. Called by the message pipeline inside
+   * its insert transaction.
+   */
+  async insertPoll(
+    tx: Transaction,
+    messageId: string,
+    conversationId: string,
+    createdBy: string,
+    input: PollInput
+  ): Promise<PollSummary> {
+    const [poll] = await tx.insert(polls).values({
+      messageId,
+      conversationId,
+      createdBy,
+      question: input.question,
+      allowsMultiple: input.allowsMultiple,
+      isAnonymous: input.isAnonymous,
+      closesAt: input.closesAt ?? null
+    }).returning();
+
+    const options = await tx.insert(pollOptions)
+      .values(input.options.map((text, position) => ({ pollId: poll.id, position, text })))
+      .returning();
+
+    return this.summarize(poll, options.map(option => ({ ...option, voterIds: [] })));
+  }
+
+  /**
+   * Poll summaries of messages, keyed by message ID
+   */
+  async getPollSummaries(messageIds: string[]): Promise<Map<string, PollSummary>> {
+    const summaries = new Map<string, PollSummary>();
+    if (messageIds.length === 0) return summaries;
+
+    const rows = await db.select()
+      .from(polls)
+      .where(inArray(polls.messageId, messageIds));
+
+    if (rows.length === 0) return summaries;
+
+    const options = await this.getOptionTallies(rows.map(poll => poll.id));
+
+    for (const poll of rows) {
+      summaries.set(poll.messageId, this.summarize(poll, options.filter(option => option.pollId === poll.id)));
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Option texts of messages' polls in display order, keyed by message ID
+   */
+  async getOptionTexts(messageIds: string[]): Promise<Map<string, string[]>> {
+    const texts = new Map<string, string[]>();
+    if (messageIds.length === 0) return texts;
+
+    const rows = await db.select({ messageId: polls.messageId, text: pollOptions.text })
+      .from(pollOptions)
+      .innerJoin(polls, eq(pollOptions.pollId, polls.id))
+      .where(inArray(polls.messageId, messageIds))
+      .orderBy(asc(pollOptions.position));
+
+    for (const { messageId, text } of rows) {
+      texts.set(messageId, [...(texts.get(messageId) ?? []), text]);
+    }
+
+    return texts;
+  }
+
+  async getPoll(conversationId: string, pollId: string, userId: string): Promise<PollState> {
+    await requireConversationMember(conversationId, userId);
+    const poll = await this.requirePoll(conversationId, pollId);
+
+    return this.getState(poll, userId);
+  }
+
+  /**
+   * Replace the user's votes on a poll. An empty list retracts them.
+   */
+  async vote(conversationId: string, pollId: string, userId: string, optionIds: string[]): Promise<PollState> {
+    await requireConversationMember(conversationId, userId);
+    const poll = await this.requirePoll(conversationId, pollId);
+
+    const uniqueOptionIds = Array.from(new Set(optionIds));
+    if (!poll.allowsMultiple && uniqueOptionIds.length > 1) {
+      throw new Error('Only one option can be chosen');
+    }
+
+    if (uniqueOptionIds.length > 0) {
+      const options = await db.select({ id: pollOptions.id })
+        .from(pollOptions)
+        .where(and(eq(pollOptions.pollId, pollId), inArray(pollOptions.id, uniqueOptionIds)));
+
+      if (options.length !== uniqueOptionIds.length) {
+        throw new Error('Invalid poll options');
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      // Serialize votes on the poll so concurrent requests cannot add up
+      const [locked] = await tx.select().from(polls).where(eq(polls.id, pollId)).for('update');
+
+      if (isClosed(locked)) {
+        throw new Error('Poll is closed');
+      }
+
+      await tx.delete(pollVotes)
+        .where(and(eq(pollVotes.pollId, pollId), eq(pollVotes.userId, userId)));
+
+      if (uniqueOptionIds.length > 0) {
+        await tx.insert(pollVotes)
+          .values(uniqueOptionIds.map(optionId => ({ pollId, optionId, userId })))
+          .onConflictDoNothing();
+      }
+    });
+
+    const state = await this.getState(poll, userId);
+    this.broadcast(poll, state.poll);
+
+    return state;
+  }
+
+  /**
+   * Close a poll before its close time. Only its creator can do this.
+   */
+  async closePoll(conversationId: string, pollId: string, userId: string): Promise<PollState> {
+    await requireConversationMember(conversationId, userId);
+    const poll = await this.requirePoll(conversationId, pollId);
+
+    if (poll.createdBy !== userId) {
+      throw new Error('Permission denied');
+    }
+
+    const [closed] = await db.update(polls)
+      .set({ closedAt: new Date() })
+      .where(and(eq(polls.id, pollId), isNull(polls.closedAt)))
+      .returning();
+
+    const state = await this.getState(closed ?? poll, userId);
+    if (closed) {
+      this.broadcast(closed, state.poll);
+    }
+
+    return state;
+  }
+
+  /**
+   * Close polls whose close time has passed and broadcast the final tallies.
+   * Run by the background job; the conditional update lets each poll be
+   * closed by one node only.
+   */
+  async closeDuePolls(): Promise<number> {
+    const now = new Date();
+
+    const closed = await db.update(polls)
+      .set({ closedAt: now })
+      .where(and(
+        isNull(polls.closedAt),
+        sql`${polls.closesAt} <= ${now.toISOString()}::timestamp`
+      ))
+      .returning();
+
+    if (closed.length === 0) return 0;
+
+    const options = await this.getOptionTallies(closed.map(poll => poll.id));
+    for (const poll of closed) {
+      this.broadcast(poll, this.summarize(poll, options.filter(option => option.pollId === poll.id)));
+    }
+
+    return closed.length;
+  }
+
+  private async requirePoll(conversationId: string, pollId: string): Promise<PollRow> {
+    const [poll] = await db.select({ poll: polls })
+      .from(polls)
+      .innerJoin(messages, eq(polls.messageId, messages.id))
+      .where(and(
+        eq(polls.id, pollId),
+        eq(polls.conversationId, conversationId),
+        isNull(messages.deletedAt)
+      ))
+      .limit(1);
+
+    if (!poll) {
+      throw new Error('Poll not found');
+    }
+
+    return poll.poll;
+  }
+
+  private async getState(poll: PollRow, userId: string): Promise<PollState> {
+    const options = await this.getOptionTallies([poll.id]);
+
+    const myVotes = await db.select({ optionId: pollVotes.optionId })
+      .from(pollVotes)
+      .where(and(eq(pollVotes.pollId, poll.id), eq(pollVotes.userId, userId)));
+
+    return {
+      poll: this.summarize(poll, options),
+      myOptionIds: myVotes.map(vote => vote.optionId)
+    };
+  }
+
+  private async getOptionTallies(pollIds: string[]) {
+    return db.select({
+      id: pollOptions.id,
+      pollId: pollOptions.pollId,
+      text: pollOptions.text,
+      voterIds: sql<string[]>`coalesce(
+        array_agg(${pollVotes.userId} order by ${pollVotes.createdAt}) filter (where ${pollVotes.userId} is not null),
+        '{}'
+      )`
+    })
+      .from(pollOptions)
+      .leftJoin(pollVotes, eq(pollVotes.optionId, pollOptions.id))
+      .where(inArray(pollOptions.pollId, pollIds))
+      .groupBy(pollOptions.id)
+      .orderBy(asc(pollOptions.position));
+  }
+
+  private summarize(poll: PollRow, options: { id: string; text: string; voterIds: string[] }[]): PollSummary {
+    const voters = new Set(options.flatMap(option => option.voterIds));
+
+    return {
+      id: poll.id,
+      question: poll.question,
+      allowsMultiple: poll.allowsMultiple,
+      isAnonymous: poll.isAnonymous,
+      closesAt: poll.closesAt,
+      closedAt: poll.closedAt,
+      isClosed: isClosed(poll),
+      voterCount: voters.size,
+      options: options.map(option => ({
+        id: option.id,
+        text: option.text,
+        voteCount: option.voterIds.length,
+        voterIds: poll.isAnonymous ? [] : option.voterIds
+      }))
+    };
+  }
+
+  private broadcast(poll: PollRow, summary: PollSummary) {
+    emitToConversation(poll.conversationId, 'poll:updated', {
+      conversationId: poll.conversationId,
+      messageId: poll.messageId,
+      poll: summary
+    });
+  }
+}
+
+// Export singleton instance
+export const pollService = new PollService();
+export default pollService;
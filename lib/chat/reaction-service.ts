@@ -0,0 +1,92 @@
+import { db } from '@/lib/db';
+import { eq, and } from 'drizzle-orm';
+import { messages, messageReactions } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { emitToConversation } from '@/lib/socket/broadcast';
+
+export interface ReactionParams {
+  messageId: string;
+  userId: string;
+  emoji: string;
+  conversationId?: string; // When given, the message must belong to it
+}
+
+export interface ReactionEvent {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  emoji: string;
+  action: 'add' | 'remove';
+}
+
+/**
+ * Reaction Service - persists reactions and broadcasts them to the
+ * message's conversation room
+ */
+class ReactionService {
+  async addReaction(params: ReactionParams): Promise<ReactionEvent> {
+    const message = await this.getReactableMessage(params);
+
+    await db.insert(messageReactions)
+      .values({
+        messageId: params.messageId,
+        userId: params.userId,
+        emoji: params.emoji
+      })
+      .onConflictDoNothing(); // Unique (message, user, emoji)
+
+    return this.broadcast(message.conversationId, params, 'add');
+  }
+
+  async removeReaction(params: ReactionParams): Promise<ReactionEvent> {
+    const message = await this.getReactableMessage(params);
+
+    await db.delete(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, params.messageId),
+        eq(messageReactions.userId, params.userId),
+        eq(messageReactions.emoji, params.emoji)
+      ));
+
+    return this.broadcast(message.conversationId, params, 'remove');
+  }
+
+  private async getReactableMessage(params: ReactionParams) {
+    const [message] = await db.select({
+      conversationId: messages.conversationId,
+      deletedAt: messages.deletedAt
+    })
+      .from(messages)
+      .where(eq(messages.id, params.messageId))
+      .limit(1);
+
+    if (!message || message.deletedAt) {
+      throw new Error('Message not found');
+    }
+    if (params.conversationId && params.conversationId !== message.conversationId) {
+      throw new Error('Message not found');
+    }
+
+    await requireConversationMember(message.conversationId, params.userId);
+
+    return message;
+  }
+
+  private broadcast(conversationId: string, params: ReactionParams, action: 'add' | 'remove'): ReactionEvent {
+    const event: ReactionEvent = {
+      messageId: params.messageId,
+      conversationId,
+      userId: params.userId,
+      emoji: params.emoji,
+      action
+    };
+
+    emitToConversation(conversationId, 'message:reaction', event);
+
+    return event;
+  }
+}
+
+// Export singleton instance
+export const reactionService = new ReactionService();
+export default reactionService;
@@ -0,0 +1,161 @@
+import { db } from '@/lib/db';
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
+import { messages, messageMentions, conversationMembers, users } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { emitToConversation } from '@/lib/socket/broadcast';
+
+export interface ReadReceipt {
+  conversationId: string;
+  userId: string;
+  lastReadMessageId: string;
+}
+
+// Unread timeline messages from others after the member's read position.
+// Both fragments must be used in a query joined with conversation_members.
+const unreadCondition = sql`
+  m.conversation_id = ${conversationMembers.conversationId}
+  and m.deleted_at is null
+  and m.reply_to_id is null
+  and m.sender_id <> ${conversationMembers.userId}
+  and (
+    ${conversationMembers.lastReadMessageId} is null
+    or (m.created_at, m.id) > (
+      select lr.created_at, lr.id from ${messages} lr where lr.id = ${conversationMembers.lastReadMessageId}
+    )
+  )
+`;
+
+export const unreadCountSql = sql<number>`(
+  select count(*)::int from ${messages} m where ${unreadCondition}
+)`;
+
+/**
+ * Unread count shown as the conversation's badge, following the member's
+ * notification settings: every unread message, only those mentioning the
+ * member, or none while muted or snoozed.
+ */
+export function badgeCountSql(now = new Date()) {
+  return sql<number>`(
+    case
+      when ${conversationMembers.notificationLevel} = 'NOTHING'
+        or ${conversationMembers.mutedUntil} > ${now.toISOString()}::timestamp then 0
+      when ${conversationMembers.notificationLevel} = 'MENTIONS' then (
+        select count(*)::int from ${messages} m where ${unreadCondition}
+        and exists (
+          select 1 from ${messageMentions} mm
+          where mm.message_id = m.id and mm.user_id = ${conversationMembers.userId}
+        )
+      )
+      else ${unreadCountSql}
+    end
+  )`;
+}
+
+export const firstUnreadMessageIdSql = sql<string | null>`(
+  select m.id from ${messages} m where ${unreadCondition}
+  order by m.created_at asc, m.id asc
+  limit 1
+)`;
+
+/**
+ * Read Service - persists read positions in conversation_members and
+ * broadcasts read receipts
+ */
+class ReadService {
+  /**
+   * Move a member's read position forward to a message, or to the latest
+   * message when none is given. Read positions never move backwards.
+   */
+  async markRead(conversationId: string, userId: string, messageId?: string): Promise<ReadReceipt | null> {
+    const membership = await requireConversationMember(conversationId, userId);
+
+    const target = messageId
+      ? await this.getMessage(conversationId, messageId)
+      : await this.getLatestMessage(conversationId);
+
+    if (!target) {
+      if (messageId) throw new Error('Message not found');
+      return null; // Empty conversation
+    }
+
+    if (membership.lastReadMessageId) {
+      const current = await this.getMessage(conversationId, membership.lastReadMessageId);
+      if (current && !this.isAfter(target, current)) {
+        return {
+          conversationId,
+          userId,
+          lastReadMessageId: current.id
+        };
+      }
+    }
+
+    await db.update(conversationMembers)
+      .set({ lastReadMessageId: target.id })
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        eq(conversationMembers.userId, userId)
+      ));
+
+    const receipt: ReadReceipt = {
+      conversationId,
+      userId,
+      lastReadMessageId: target.id
+    };
+
+    emitToConversation(conversationId, 'conversation:read', receipt);
+
+    return receipt;
+  }
+
+  /**
+   * Get the read positions of all active members, for "seen by" indicators
+   */
+  async getReadReceipts(conversationId: string, userId: string) {
+    await requireConversationMember(conversationId, userId);
+
+    return db.select({
+      userId: conversationMembers.userId,
+      name: users.name,
+      avatarUrl: users.avatarUrl,
+      lastReadMessageId: conversationMembers.lastReadMessageId
+    })
+      .from(conversationMembers)
+      .innerJoin(users, eq(conversationMembers.userId, users.id))
+      .where(and(
+        eq(conversationMembers.conversationId, conversationId),
+        eq(conversationMembers.hasLeft, false)
+      ));
+  }
+
+  private async getMessage(conversationId: string, messageId: string) {
+    const [message] = await db.select({ id: messages.id, createdAt: messages.createdAt })
+      .from(messages)
+      .where(and(
+        eq(messages.id, messageId),
+        eq(messages.conversationId, conversationId)
+      ))
+      .limit(1);
+
+    return message ?? null;
+  }
+
+  // Latest timeline message; thread replies are not counted as unread either
+  private async getLatestMessage(conversationId: string) {
+    const [message] = await db.select({ id: messages.id, createdAt: messages.createdAt })
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), isNull(messages.replyToId)))
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(1);
+
+    return message ?? null;
+  }
+
+  private isAfter(a: { id: string; createdAt: Date }, b: { id: string; createdAt: Date }): boolean {
+    const diff = a.createdAt.getTime() - b.createdAt.getTime();
+    return diff > 0 || (diff === 0 && a.id > b.id);
+  }
+}
+
+// Export singleton instance
+export const readService = new ReadService();
+export default readService;
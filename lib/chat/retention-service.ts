@@ -0,0 +1,401 @@
+import { db } from '@/lib/db';
+import { eq, and, desc, inArray, notInArray, isNull, count, sql } from 'drizzle-orm';
+import {
+  conversations,
+  conversationMembers,
+  messages,
+  attachments,
+  messageAttachmentShares,
+  projects,
+  divisions,
+  divisionMembers,
+  auditLogs
+} from '@/db/schema';
+import { getSetting, SETTING_KEYS } from '@/lib/settings';
+import { minioService } from '@/lib/storage/minio-client';
+import { retentionPolicySchema, type RetentionPolicy, type RetentionRule } from '@/lib/validations/chat';
+import type { AuditContext } from '@/lib/audit';
+
+type ConversationType = typeof conversations.$inferSelect['type'];
+
+export interface RetentionTarget {
+  conversationId: string;
+  type: ConversationType;
+  title: string | null;
+  divisionId: string | null;
+  legalHold: boolean;
+  rule: RetentionRule;
+  cutoff: Date; // Messages created before this expire
+}
+
+export interface RetentionReportEntry extends RetentionTarget {
+  expiredMessages: number;
+  expiredAttachments: number;
+}
+
+// Messages removed per transaction
+const PURGE_BATCH_SIZE = 500;
+
+// Messages removed per job run, across all conversations
+const MAX_MESSAGES_PER_RUN = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rule for a conversation type: the closest rule of the division or its
+ * ancestors (parents maps division ID to parent ID), else the type's rule
+ */
+export function resolveRetentionRule(
+  policy: RetentionPolicy,
+  type: ConversationType,
+  divisionId: string | null,
+  parents: Map<string, string | null>
+): RetentionRule | undefined {
+  const seen = new Set<string>();
+
+  for (let id = divisionId; id && !seen.has(id); id = parents.get(id) ?? null) {
+    seen.add(id);
+    const rule = policy.divisions[id]?.[type];
+    if (rule) return rule;
+  }
+
+  return policy.types[type];
+}
+
+/**
+ * Retention Service - removes (or archives to MinIO) messages older than the
+ * retention policy allows. The policy is the chat.retention_policy setting:
+ * rules per conversation type, overridable per division. Conversations on
+ * legal hold are never purged.
+ */
+class RetentionService {
+  async getPolicy(): Promise<RetentionPolicy> {
+    const stored = await getSetting<unknown>(SETTING_KEYS.messageRetention, {});
+    const parsed = retentionPolicySchema.safeParse(stored);
+
+    if (!parsed.success) {
+      // An invalid policy must not delete anything
+      console.error('Invalid retention policy, keeping all messages:', parsed.error.issues);
+      return retentionPolicySchema.parse({});
+    }
+
+    return parsed.data;
+  }
+
+  /**
+   * Dry run: what the policy would remove now, per conversation
+   */
+  async report(): Promise<RetentionReportEntry[]> {
+    const targets = await this.listTargets(await this.getPolicy());
+
+    return Promise.all(targets.map(async (target) => {
+      const [{ expiredMessages }] = await db.select({ expiredMessages: count() })
+        .from(messages)
+        .where(this.expiredCondition(target));
+
+      const [{ expiredAttachments }] = await db.select({ expiredAttachments: count() })
+        .from(attachments)
+        .innerJoin(messages, eq(attachments.messageId, messages.id))
+        .where(this.expiredCondition(target));
+
+      return { ...target, expiredMessages, expiredAttachments };
+    }));
+  }
+
+  /**
+   * Apply the policy. Run by the background job; batches are claimed with
+   * SKIP LOCKED so nodes do not remove the same messages.
+   */
+  async enforce(): Promise<number> {
+    const policy = await this.getPolicy();
+
+    if (policy.dryRun) {
+      const entries = (await this.report()).filter(entry => entry.expiredMessages > 0);
+      if (entries.length > 0) {
+        await db.insert(auditLogs).values({
+          actorId: null,
+          action: 'retention.dry_run',
+          target: 'retention',
+          metadata: {
+            conversations: entries.map(entry => ({
+              conversationId: entry.conversationId,
+              legalHold: entry.legalHold,
+              action: entry.rule.action,
+              cutoff: entry.cutoff,
+              expiredMessages: entry.expiredMessages,
+              expiredAttachments: entry.expiredAttachments
+            }))
+          }
+        });
+      }
+      return 0;
+    }
+
+    let removed = 0;
+
+    for (const target of await this.listTargets(policy)) {
+      if (target.legalHold || removed >= MAX_MESSAGES_PER_RUN) continue;
+
+      let messageCount = 0;
+      let attachmentCount = 0;
+      const archiveKeys: string[] = [];
+
+      try {
+        while (removed < MAX_MESSAGES_PER_RUN) {
+          const batch = await this.purgeBatch(target);
+          if (batch.messageCount === 0) break;
+
+          messageCount += batch.messageCount;
+          attachmentCount += batch.attachmentCount;
+          removed += batch.messageCount;
+          if (batch.archiveKey) archiveKeys.push(batch.archiveKey);
+        }
+      } catch (error) {
+        console.error(`Retention failed for conversation ${target.conversationId}:`, error);
+      }
+
+      if (messageCount > 0) {
+        await db.insert(auditLogs).values({
+          actorId: null,
+          action: target.rule.action === 'ARCHIVE' ? 'retention.archived' : 'retention.purged',
+          target: `conversation:${target.conversationId}`,
+          metadata: {
+            cutoff: target.cutoff,
+            retentionDays: target.rule.days,
+            divisionId: target.divisionId,
+            messageCount,
+            attachmentCount,
+            ...(archiveKeys.length > 0 ? { archiveKeys } : {})
+          }
+        });
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Place a conversation on legal hold (reason given) or release it (null)
+   */
+  async setLegalHold(conversationId: string, actorId: string, reason: string | null, context: AuditContext) {
+    const [conversation] = await db.update(conversations)
+      .set({ legalHold: reason !== null, legalHoldReason: reason, updatedAt: new Date() })
+      .where(eq(conversations.id, conversationId))
+      .returning({
+        id: conversations.id,
+        legalHold: conversations.legalHold,
+        legalHoldReason: conversations.legalHoldReason
+      });
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    await db.insert(auditLogs).values({
+      actorId,
+      action: reason !== null ? 'conversation.legal_hold_set' : 'conversation.legal_hold_released',
+      target: `conversation:${conversationId}`,
+      metadata: reason !== null ? { reason } : {},
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    });
+
+    return conversation;
+  }
+
+  /**
+   * Conversations with a finite retention rule. A conversation belongs to its
+   * project's division, or else to its creator's first division; a division
+   * without its own rule inherits from its parent.
+   */
+  private async listTargets(policy: RetentionPolicy): Promise<RetentionTarget[]> {
+    const [rows, divisionRows] = await Promise.all([
+      db.select({
+        conversationId: conversations.id,
+        type: conversations.type,
+        title: conversations.title,
+        legalHold: conversations.legalHold,
+        divisionId: sql<string | null>`coalesce(
+          (select p.division_id from ${projects} p where p.id = ${conversations.projectId}),
+          (select dm.division_id from ${divisionMembers} dm
+           where dm.user_id = ${conversations.createdBy}
+           order by dm.joined_at asc limit 1)
+        )`
+      }).from(conversations),
+      db.select({ id: divisions.id, parentId: divisions.parentId }).from(divisions)
+    ]);
+
+    const parents = new Map(divisionRows.map(division => [division.id, division.parentId]));
+    const now = Date.now();
+
+    const targets: RetentionTarget[] = [];
+    for (const row of rows) {
+      const rule = resolveRetentionRule(policy, row.type, row.divisionId, parents);
+      if (!rule || rule.days === null) continue;
+
+      targets.push({ ...row, rule, cutoff: new Date(now - rule.days * DAY_MS) });
+    }
+
+    return targets;
+  }
+
+  /**
+   * Expired messages of a conversation. Thread roots are kept while they
+   * have replies that have not expired yet.
+   */
+  private expiredCondition(target: RetentionTarget) {
+    const cutoff = target.cutoff.toISOString();
+
+    return and(
+      eq(messages.conversationId, target.conversationId),
+      sql`${messages.createdAt} < ${cutoff}::timestamp`,
+      sql`not exists (
+        select 1 from ${messages} r
+        where r.reply_to_id = ${messages.id} and r.created_at >= ${cutoff}::timestamp
+      )`
+    );
+  }
+
+  /**
+   * Remove one batch of expired messages, newest first so thread replies go
+   * before their roots. Attachment files are deleted from MinIO, unless the
+   * rule archives, in which case the batch is written to MinIO first and the
+   * files are kept for the archive to reference. Files forwarded to messages
+   * that remain are detached from the removed message and kept. Nothing is
+   * removed once the conversation is on legal hold.
+   */
+  private async purgeBatch(target: RetentionTarget) {
+    const { storageKeys, ...result } = await db.transaction(async (tx) => {
+      // The hold is read again under a share lock, so a hold placed during
+      // the run waits for this batch and stops the next one
+      const [conversation] = await tx.select({ legalHold: conversations.legalHold })
+        .from(conversations)
+        .where(eq(conversations.id, target.conversationId))
+        .for('share');
+
+      if (!conversation || conversation.legalHold) {
+        return { messageCount: 0, attachmentCount: 0, storageKeys: [] as string[], archiveKey: null };
+      }
+
+      const batch = await tx.select({
+        id: messages.id,
+        seq: messages.seq,
+        senderId: messages.senderId,
+        type: messages.type,
+        bodyRich: messages.bodyRich,
+        bodyPlain: messages.bodyPlain,
+        replyToId: messages.replyToId,
+        createdAt: messages.createdAt,
+        deletedAt: messages.deletedAt
+      })
+        .from(messages)
+        .where(this.expiredCondition(target))
+        .orderBy(desc(messages.createdAt))
+        .limit(PURGE_BATCH_SIZE)
+        .for('update', { skipLocked: true });
+
+      if (batch.length === 0) {
+        return { messageCount: 0, attachmentCount: 0, storageKeys: [] as string[], archiveKey: null };
+      }
+
+      const ids = batch.map(message => message.id);
+      const files = await tx.select()
+        .from(attachments)
+        .where(inArray(attachments.messageId, ids));
+
+      const stillShared = files.length === 0 ? [] : await tx.selectDistinct({ id: messageAttachmentShares.attachmentId })
+        .from(messageAttachmentShares)
+        .where(and(
+          inArray(messageAttachmentShares.attachmentId, files.map(file => file.id)),
+          notInArray(messageAttachmentShares.messageId, ids)
+        ));
+      const keptIds = new Set(stillShared.map(file => file.id));
+
+      // Detached files whose last forwarded copy is removed now
+      const orphaned = await tx.select()
+        .from(attachments)
+        .where(and(
+          isNull(attachments.messageId),
+          inArray(attachments.id, tx.select({ id: messageAttachmentShares.attachmentId })
+            .from(messageAttachmentShares)
+            .where(inArray(messageAttachmentShares.messageId, ids))),
+          sql`not exists (
+            select 1 from ${messageAttachmentShares} s
+            where s.attachment_id = ${attachments.id} and s.message_id not in ${ids}
+          )`
+        ));
+
+      let archiveKey: string | null = null;
+      if (target.rule.action === 'ARCHIVE') {
+        archiveKey = `retention/${target.conversationId}/${Date.now()}-${ids[0]}.json`;
+        await minioService.putObject(archiveKey, JSON.stringify({
+          conversationId: target.conversationId,
+          archivedAt: new Date(),
+          cutoff: target.cutoff,
+          messages: batch.map(message => ({
+            ...message,
+            attachments: files.filter(file => file.messageId === message.id).map(file => ({
+              id: file.id,
+              originalName: file.originalName,
+              mimeType: file.mimeType,
+              sizeBytes: file.sizeBytes,
+              storageKey: file.storageKey
+            }))
+          }))
+        }), 'application/json');
+      }
+
+      // Read positions on removed messages move back to the newest message
+      // left before them. Older expired messages and kept thread roots can
+      // remain, and a cleared position would count them as unread.
+      await tx.update(conversationMembers)
+        .set({
+          lastReadMessageId: sql`(
+            select m.id from ${messages} m, ${messages} lr
+            where lr.id = ${conversationMembers.lastReadMessageId}
+              and m.conversation_id = lr.conversation_id
+              and m.id not in ${ids}
+              and (m.created_at, m.id) < (lr.created_at, lr.id)
+            order by m.created_at desc, m.id desc
+            limit 1
+          )`
+        })
+        .where(inArray(conversationMembers.lastReadMessageId, ids));
+
+      if (keptIds.size > 0) {
+        await tx.update(attachments)
+          .set({ messageId: null })
+          .where(inArray(attachments.id, Array.from(keptIds)));
+      }
+
+      // Reactions, revisions, mentions, pins and attachment rows cascade
+      await tx.delete(messages).where(inArray(messages.id, ids));
+
+      if (orphaned.length > 0) {
+        await tx.delete(attachments).where(inArray(attachments.id, orphaned.map(file => file.id)));
+      }
+
+      const removedFiles = [...files.filter(file => !keptIds.has(file.id)), ...orphaned];
+
+      return {
+        messageCount: batch.length,
+        attachmentCount: removedFiles.length,
+        storageKeys: archiveKey ? [] : removedFiles.map(file => file.storageKey),
+        archiveKey
+      };
+    });
+
+    // Files are removed once the rows are gone; a failure only leaves orphaned files
+    try {
+      await minioService.removeObjects(storageKeys);
+    } catch (error) {
+      console.error(`Failed to remove expired attachments of conversation ${target.conversationId}:`, error);
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const retentionService = new RetentionService();
+export default retentionService;
@@ -0,0 +1,146 @@
+import { db } from '@/lib/db';
+import { inArray } from 'drizzle-orm';
+import { users } from '@/db/schema';
+
+// TipTap / ProseMirror JSON node
+export interface RichTextNode {
+  type?: string;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+  content?: RichTextNode[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const INLINE_TYPES = new Set(['text', 'mention', 'hardBreak', 'emoji', 'image']);
+
+/**
+ * Visit every node of a rich text document, depth first
+ */
+export function walkRichText(node: RichTextNode, visit: (node: RichTextNode) => void) {
+  visit(node);
+  if (Array.isArray(node.content)) {
+    node.content.forEach(child => walkRichText(child, visit));
+  }
+}
+
+function asNode(content: unknown): RichTextNode | null {
+  return content && typeof content === 'object' ? content as RichTextNode : null;
+}
+
+function indent(text: string, prefix: string, continuation = ' '.repeat(prefix.length)): string {
+  return text.split('\n').map((line, index) => (index === 0 ? prefix : continuation) + line).join('\n');
+}
+
+/**
+ * Convert a TipTap document to plain text for search, notifications and AI
+ * context. Mentions become "@name" (using the node label, then
+ * `mentionNames`), links keep their URL, code blocks keep their text
+ * verbatim and lists are rendered with bullets or numbers.
+ */
+export function richTextToPlainText(content: unknown, mentionNames: Map<string, string> = new Map()): string {
+  if (typeof content === 'string') return content;
+
+  const renderInline = (node: RichTextNode): string => {
+    switch (node.type) {
+      case 'text': {
+        const text = node.text ?? '';
+        const link = node.marks?.find(mark => mark.type === 'link');
+        const href = typeof link?.attrs?.href === 'string' ? link.attrs.href : null;
+        return href && href !== text ? `${text} (${href})` : text;
+      }
+      case 'mention': {
+        const id = typeof node.attrs?.id === 'string' ? node.attrs.id : '';
+        const label = typeof node.attrs?.label === 'string' ? node.attrs.label : null;
+        return `@${label ?? mentionNames.get(id) ?? id}`;
+      }
+      case 'hardBreak':
+        return '\n';
+      case 'emoji':
+        return typeof node.attrs?.emoji === 'string' ? node.attrs.emoji : `:${node.attrs?.name ?? ''}:`;
+      case 'image':
+        return typeof node.attrs?.alt === 'string' ? node.attrs.alt : '';
+      default:
+        return renderChildren(node);
+    }
+  };
+
+  const renderList = (node: RichTextNode, marker: (item: RichTextNode, index: number) => string): string => {
+    return (node.content ?? [])
+      .map((item, index) => indent(renderChildren(item), marker(item, index)))
+      .join('\n');
+  };
+
+  const renderBlock = (node: RichTextNode): string => {
+    switch (node.type) {
+      case 'codeBlock':
+        return (node.content ?? []).map(child => child.text ?? '').join('');
+      case 'blockquote':
+        return indent(renderChildren(node), '> ', '> ');
+      case 'bulletList':
+        return renderList(node, () => '- ');
+      case 'orderedList': {
+        const start = typeof node.attrs?.start === 'number' ? node.attrs.start : 1;
+        return renderList(node, (_item, index) => `${start + index}. `);
+      }
+      case 'taskList':
+        return renderList(node, item => (item.attrs?.checked ? '[x] ' : '[ ] '));
+      case 'tableRow':
+        return (node.content ?? []).map(cell => renderChildren(cell).replace(/\n/g, ' ')).join(' | ');
+      case 'horizontalRule':
+        return '---';
+      default:
+        return INLINE_TYPES.has(node.type ?? '') ? renderInline(node) : renderChildren(node);
+    }
+  };
+
+  // Inline children are concatenated, block children go on separate lines
+  const renderChildren = (node: RichTextNode): string => {
+    const children = node.content ?? [];
+    if (children.every(child => INLINE_TYPES.has(child.type ?? ''))) {
+      return children.map(renderInline).join('');
+    }
+    return children
+      .map(child => INLINE_TYPES.has(child.type ?? '') ? renderInline(child) : renderBlock(child))
+      .join('\n');
+  };
+
+  const root = asNode(content);
+  if (!root) return '';
+
+  return renderBlock(root).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Plain text stored for a message, used for search and notifications: the
+ * body's text, followed by the poll options so they are searchable too
+ */
+export async function buildMessagePlainText(content: unknown, pollOptions: string[] = []): Promise<string> {
+  return [await extractPlainText(content), ...pollOptions].join('\n');
+}
+
+/**
+ * Plain text for a message body. Mentions without a label are resolved to
+ * the user's current name.
+ */
+export async function extractPlainText(content: unknown): Promise<string> {
+  const root = asNode(content);
+  if (typeof content === 'string' || !root) {
+    return richTextToPlainText(content);
+  }
+
+  const unlabeled = new Set<string>();
+  walkRichText(root, node => {
+    if (node.type === 'mention' && typeof node.attrs?.id === 'string' && typeof node.attrs?.label !== 'string') {
+      unlabeled.add(node.attrs.id);
+    }
+  });
+
+  const ids = Array.from(unlabeled).filter(id => UUID_PATTERN.test(id));
+  const names = ids.length > 0
+    ? await db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, ids))
+    : [];
+
+  return richTextToPlainText(content, new Map(names.map(user => [user.id, user.name])));
+}
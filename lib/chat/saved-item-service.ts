@@ -0,0 +1,192 @@
+import { db } from '@/lib/db';
+import { eq, and, desc, isNull, sql, type SQL } from 'drizzle-orm';
+import { messages, savedMessages, conversations, conversationMembers, users } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { encodeCursor, decodeCursor } from '@/lib/chat/message-cursor';
+import type { SaveMessageInput } from '@/lib/validations/chat';
+
+export interface ListSavedItemsParams {
+  userId: string;
+  limit?: number;
+  cursor?: string; // Opaque cursor, items saved earlier are returned
+}
+
+const MAX_PAGE_SIZE = 100;
+
+// Reminders sent per job run
+const REMINDER_BATCH_SIZE = 100;
+
+const savedSortKey = sql`date_trunc('milliseconds', ${savedMessages.createdAt})`;
+
+/**
+ * Saved Item Service - personal bookmarks of messages, with optional
+ * reminders
+ */
+class SavedItemService {
+  /**
+   * Save a message, or update the note and reminder of a saved one
+   */
+  async saveMessage(userId: string, messageId: string, input: SaveMessageInput) {
+    const [message] = await db.select({ conversationId: messages.conversationId })
+      .from(messages)
+      .where(and(eq(messages.id, messageId), isNull(messages.deletedAt)))
+      .limit(1);
+
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    await requireConversationMember(message.conversationId, userId);
+
+    const [item] = await db.insert(savedMessages)
+      .values({
+        userId,
+        messageId,
+        note: input.note ?? null,
+        remindAt: input.remindAt ?? null
+      })
+      .onConflictDoUpdate({
+        target: [savedMessages.userId, savedMessages.messageId],
+        set: {
+          ...(input.note !== undefined ? { note: input.note } : {}),
+          // A new reminder time is sent again
+          ...(input.remindAt !== undefined ? { remindAt: input.remindAt, remindedAt: null } : {})
+        }
+      })
+      .returning();
+
+    return item;
+  }
+
+  async removeSavedItem(userId: string, messageId: string): Promise<void> {
+    const [removed] = await db.delete(savedMessages)
+      .where(and(eq(savedMessages.userId, userId), eq(savedMessages.messageId, messageId)))
+      .returning();
+
+    if (!removed) {
+      throw new Error('Saved item not found');
+    }
+  }
+
+  /**
+   * The user's saved messages, most recently saved first. Messages that were
+   * deleted or belong to conversations the user left are excluded.
+   */
+  async listSavedItems(params: ListSavedItemsParams) {
+    const { userId, cursor } = params;
+    const limit = Math.min(params.limit ?? 50, MAX_PAGE_SIZE);
+
+    const conditions: SQL[] = [
+      eq(savedMessages.userId, userId),
+      isNull(messages.deletedAt)
+    ];
+
+    if (cursor) {
+      const anchor = decodeCursor(cursor);
+      conditions.push(
+        sql`(${savedSortKey}, ${savedMessages.messageId}) < (${anchor.createdAt.toISOString()}::timestamp, ${anchor.id})`
+      );
+    }
+
+    const rows = await db.select({
+      messageId: messages.id,
+      conversationId: messages.conversationId,
+      conversationTitle: conversations.title,
+      conversationType: conversations.type,
+      senderId: messages.senderId,
+      senderName: users.name,
+      bodyPlain: messages.bodyPlain,
+      createdAt: messages.createdAt,
+      note: savedMessages.note,
+      remindAt: savedMessages.remindAt,
+      remindedAt: savedMessages.remindedAt,
+      savedAt: savedMessages.createdAt
+    })
+      .from(savedMessages)
+      .innerJoin(messages, eq(savedMessages.messageId, messages.id))
+      .innerJoin(conversationMembers, and(
+        eq(conversationMembers.conversationId, messages.conversationId),
+        eq(conversationMembers.userId, userId),
+        eq(conversationMembers.hasLeft, false)
+      ))
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(savedSortKey), desc(savedMessages.messageId))
+      .limit(limit + 1);
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: rows.length > limit && last
+        ? encodeCursor({ createdAt: last.savedAt, id: last.messageId })
+        : null
+    };
+  }
+
+  /**
+   * Notify users about saved messages whose reminder is due. Run by the
+   * background job; rows are claimed atomically so each reminder is sent once.
+   */
+  async sendDueReminders(): Promise<number> {
+    // SKIP LOCKED lets other nodes claim different rows at the same time
+    const now = new Date();
+    const due = await db.update(savedMessages)
+      .set({ remindedAt: now })
+      .where(sql`(${savedMessages.userId}, ${savedMessages.messageId}) in (
+        select s.user_id, s.message_id from ${savedMessages} s
+        where s.remind_at <= ${now.toISOString()}::timestamp and s.reminded_at is null
+        order by s.remind_at
+        limit ${REMINDER_BATCH_SIZE}
+        for update skip locked
+      )`)
+      .returning({
+        userId: savedMessages.userId,
+        messageId: savedMessages.messageId,
+        note: savedMessages.note
+      });
+
+    if (due.length === 0) return 0;
+
+    const details = await Promise.all(due.map(async (item) => {
+      const [message] = await db.select({
+        conversationId: messages.conversationId,
+        bodyPlain: messages.bodyPlain,
+        senderName: users.name
+      })
+        .from(messages)
+        .innerJoin(users, eq(messages.senderId, users.id))
+        // Users who left the conversation no longer get its messages
+        .innerJoin(conversationMembers, and(
+          eq(conversationMembers.conversationId, messages.conversationId),
+          eq(conversationMembers.userId, item.userId),
+          eq(conversationMembers.hasLeft, false)
+        ))
+        .where(and(eq(messages.id, item.messageId), isNull(messages.deletedAt)))
+        .limit(1);
+
+      return message ? { ...item, ...message } : null;
+    }));
+
+    await notificationService.notify(details.filter(item => item !== null).map(item => ({
+      userId: item.userId,
+      type: 'REMINDER' as const,
+      title: item.note ? `Reminder: ${item.note}` : `Reminder: message from ${item.senderName}`,
+      message: item.bodyPlain.slice(0, 200),
+      payload: {
+        kind: 'saved_message',
+        conversationId: item.conversationId,
+        messageId: item.messageId
+      }
+    })));
+
+    return due.length;
+  }
+}
+
+// Export singleton instance
+export const savedItemService = new SavedItemService();
+export default savedItemService;
@@ -0,0 +1,188 @@
+import { db } from '@/lib/db';
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { scheduledMessages } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { messageService } from '@/lib/chat/message-service';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { emitToUser } from '@/lib/socket/broadcast';
+import type { ScheduleMessageInput, UpdateScheduledMessageInput } from '@/lib/validations/chat';
+
+export type ScheduledMessage = typeof scheduledMessages.$inferSelect;
+
+// Messages sent per scheduler run
+const SEND_BATCH_SIZE = 50;
+
+// A claimed message still SENDING after this long belongs to a crashed node
+const SENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Scheduled Message Service - messages composed now and sent later. The
+ * background scheduler posts them through messageService.createMessage,
+ * like any other send.
+ */
+class ScheduledMessageService {
+  /**
+   * Schedule a message. The reply target and attachments are checked now, as
+   * the send would check them, and the attachments are reserved until the
+   * message is sent or cancelled.
+   */
+  async schedule(conversationId: string, senderId: string, input: ScheduleMessageInput): Promise<ScheduledMessage> {
+    await requireConversationMember(conversationId, senderId);
+
+    if (input.replyToId) {
+      await messageService.resolveThreadRoot(conversationId, input.replyToId);
+    }
+
+    const attachmentIds = Array.from(new Set(input.attachments ?? []));
+
+    return db.transaction(async (tx) => {
+      await messageService.assertAttachmentsAvailable(tx, senderId, attachmentIds);
+
+      const [scheduled] = await tx.insert(scheduledMessages).values({
+        conversationId,
+        senderId,
+        bodyRich: input.content,
+        replyToId: input.replyToId ?? null,
+        attachmentIds,
+        sendAt: input.sendAt
+      }).returning();
+
+      return scheduled;
+    });
+  }
+
+  /**
+   * The user's pending messages in a conversation, next to be sent first
+   */
+  async listPending(conversationId: string, userId: string): Promise<ScheduledMessage[]> {
+    await requireConversationMember(conversationId, userId);
+
+    return db.select()
+      .from(scheduledMessages)
+      .where(and(
+        eq(scheduledMessages.conversationId, conversationId),
+        eq(scheduledMessages.senderId, userId),
+        eq(scheduledMessages.status, 'PENDING')
+      ))
+      .orderBy(asc(scheduledMessages.sendAt));
+  }
+
+  async update(
+    conversationId: string,
+    scheduledId: string,
+    userId: string,
+    input: UpdateScheduledMessageInput
+  ): Promise<ScheduledMessage> {
+    const [updated] = await db.update(scheduledMessages)
+      .set({
+        ...(input.content !== undefined ? { bodyRich: input.content } : {}),
+        ...(input.sendAt !== undefined ? { sendAt: input.sendAt } : {}),
+        updatedAt: new Date()
+      })
+      .where(this.pendingOwnMessage(conversationId, scheduledId, userId))
+      .returning();
+
+    if (!updated) {
+      throw new Error('Scheduled message not found');
+    }
+
+    return updated;
+  }
+
+  async cancel(conversationId: string, scheduledId: string, userId: string): Promise<void> {
+    const [cancelled] = await db.update(scheduledMessages)
+      .set({ status: 'CANCELLED', updatedAt: new Date() })
+      .where(this.pendingOwnMessage(conversationId, scheduledId, userId))
+      .returning();
+
+    if (!cancelled) {
+      throw new Error('Scheduled message not found');
+    }
+  }
+
+  /**
+   * Send messages that are due. Run by the background scheduler on every
+   * node; rows are claimed with SKIP LOCKED. Each send uses the scheduled
+   * message ID as its client ID, so retrying after a crash cannot post twice.
+   */
+  async sendDue(): Promise<number> {
+    const now = new Date();
+    const stuckBefore = new Date(now.getTime() - SENDING_TIMEOUT_MS);
+
+    const due = await db.update(scheduledMessages)
+      .set({ status: 'SENDING', updatedAt: now })
+      .where(sql`${scheduledMessages.id} in (
+        select s.id from ${scheduledMessages} s
+        where (s.status = 'PENDING' and s.send_at <= ${now.toISOString()}::timestamp)
+           or (s.status = 'SENDING' and s.updated_at < ${stuckBefore.toISOString()}::timestamp)
+        order by s.send_at
+        limit ${SEND_BATCH_SIZE}
+        for update skip locked
+      )`)
+      .returning();
+
+    for (const scheduled of due) {
+      await this.send(scheduled);
+    }
+
+    return due.length;
+  }
+
+  private async send(scheduled: ScheduledMessage) {
+    try {
+      const message = await messageService.createMessage({
+        conversationId: scheduled.conversationId,
+        senderId: scheduled.senderId,
+        content: scheduled.bodyRich as ScheduleMessageInput['content'],
+        replyToId: scheduled.replyToId,
+        attachments: scheduled.attachmentIds,
+        clientId: `scheduled:${scheduled.id}`
+      });
+
+      const [sent] = await db.update(scheduledMessages)
+        .set({ status: 'SENT', sentMessageId: message.id, error: null, updatedAt: new Date() })
+        .where(eq(scheduledMessages.id, scheduled.id))
+        .returning();
+
+      emitToUser(scheduled.senderId, 'scheduled:updated', sent);
+    } catch (error) {
+      console.error(`Failed to send scheduled message ${scheduled.id}:`, error);
+
+      const [failed] = await db.update(scheduledMessages)
+        .set({
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : 'Failed to send message',
+          updatedAt: new Date()
+        })
+        .where(eq(scheduledMessages.id, scheduled.id))
+        .returning();
+
+      emitToUser(scheduled.senderId, 'scheduled:updated', failed);
+
+      await notificationService.notify([{
+        userId: scheduled.senderId,
+        type: 'SYSTEM',
+        title: 'Scheduled message was not sent',
+        message: failed.error ?? '',
+        payload: {
+          kind: 'scheduled_message_failed',
+          conversationId: scheduled.conversationId,
+          scheduledMessageId: scheduled.id
+        }
+      }]);
+    }
+  }
+
+  private pendingOwnMessage(conversationId: string, scheduledId: string, userId: string) {
+    return and(
+      eq(scheduledMessages.id, scheduledId),
+      eq(scheduledMessages.conversationId, conversationId),
+      eq(scheduledMessages.senderId, userId),
+      eq(scheduledMessages.status, 'PENDING')
+    );
+  }
+}
+
+// Export singleton instance
+export const scheduledMessageService = new ScheduledMessageService();
+export default scheduledMessageService;
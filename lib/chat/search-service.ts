@@ -0,0 +1,94 @@
+import { db } from '@/lib/db';
+import { eq, and, desc, gte, lte, isNull, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { messages, conversations, conversationMembers, attachments, messageAttachmentShares, users } from '@/db/schema';
+import type { SearchMessagesQuery } from '@/lib/validations/chat';
+
+export interface SearchMessagesParams extends SearchMessagesQuery {
+  userId: string;
+}
+
+// ts_headline options for result snippets
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2';
+
+/**
+ * Search Service - full-text search over messages in the caller's
+ * conversations
+ */
+class SearchService {
+  async searchMessages(params: SearchMessagesParams) {
+    const { userId, q, limit, offset } = params;
+
+    const query = sql`websearch_to_tsquery('english', ${q})`;
+    // Forwarded messages carry the attachments shared with them
+    const hasAttachment = sql`(
+      exists (select 1 from ${attachments} where ${attachments.messageId} = ${messages.id})
+      or exists (select 1 from ${messageAttachmentShares} where ${messageAttachmentShares.messageId} = ${messages.id})
+    )`;
+
+    // The body is escaped before highlighting so snippets are safe to render as HTML
+    const escapedBody = sql`replace(replace(replace(${messages.bodyPlain}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+    const conditions: SQL[] = [
+      sql`${messages.searchVector} @@ ${query}`,
+      isNull(messages.deletedAt)
+    ];
+
+    if (params.senderId) {
+      conditions.push(eq(messages.senderId, params.senderId));
+    }
+    if (params.conversationId) {
+      conditions.push(eq(messages.conversationId, params.conversationId));
+    }
+    if (params.from) {
+      conditions.push(gte(messages.createdAt, params.from));
+    }
+    if (params.to) {
+      conditions.push(lte(messages.createdAt, params.to));
+    }
+    if (params.hasAttachment !== undefined) {
+      conditions.push(params.hasAttachment ? hasAttachment : sql`not ${hasAttachment}`);
+    }
+    if (params.inThread !== undefined) {
+      conditions.push(params.inThread ? isNotNull(messages.replyToId) : isNull(messages.replyToId));
+    }
+
+    const rank = sql<number>`ts_rank(${messages.searchVector}, ${query})`;
+
+    const rows = await db.select({
+      id: messages.id,
+      conversationId: messages.conversationId,
+      conversationTitle: conversations.title,
+      conversationType: conversations.type,
+      senderId: messages.senderId,
+      senderName: users.name,
+      replyToId: messages.replyToId,
+      hasAttachment: sql<boolean>`${hasAttachment}`,
+      createdAt: messages.createdAt,
+      rank,
+      // HTML-escaped snippet with matches wrapped in <mark>
+      headline: sql<string>`ts_headline('english', ${escapedBody}, ${query}, ${HEADLINE_OPTIONS})`
+    })
+      .from(messages)
+      // Only conversations the caller is still a member of
+      .innerJoin(conversationMembers, and(
+        eq(conversationMembers.conversationId, messages.conversationId),
+        eq(conversationMembers.userId, userId),
+        eq(conversationMembers.hasLeft, false)
+      ))
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(messages.createdAt))
+      .limit(limit + 1)
+      .offset(offset);
+
+    return {
+      results: rows.slice(0, limit),
+      hasMore: rows.length > limit
+    };
+  }
+}
+
+// Export singleton instance
+export const searchService = new SearchService();
+export default searchService;
@@ -0,0 +1,243 @@
+import { createHmac, randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { chatBots, botCommands, users, auditLogs } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { messageService, type MessagePayload } from '@/lib/chat/message-service';
+import { BUILTIN_COMMANDS } from '@/lib/chat/builtin-commands';
+import { botCommandResponseSchema, type RegisterBotInput, type RunCommandInput } from '@/lib/validations/chat';
+import type { AuditContext } from '@/lib/audit';
+
+export interface SlashCommandContext {
+  conversationId: string;
+  userId: string; // The sender; commands act with their permissions
+  text: string; // Everything after the command name
+  clientId?: string;
+}
+
+// Ephemeral results are only returned to the sender; posted messages go
+// through the normal send path
+export type SlashCommandResult =
+  | { type: 'ephemeral'; text: string }
+  | { type: 'message'; message: MessagePayload };
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  usage: string;
+  run: (context: SlashCommandContext) => Promise<SlashCommandResult>;
+}
+
+// Entry of the autocomplete list
+export interface SlashCommandInfo {
+  name: string;
+  description: string;
+  usage: string;
+  botName: string | null; // null for built-in commands
+}
+
+type ChatBot = typeof chatBots.$inferSelect;
+
+// How long a bot has to answer a command
+const BOT_TIMEOUT_MS = 5000;
+
+/**
+ * Slash Command Service - registry of built-in commands and commands
+ * registered by third-party bots. Bot commands are POSTed to the bot's
+ * webhook, signed with its secret.
+ */
+class SlashCommandService {
+  async listCommands(conversationId: string, userId: string): Promise<SlashCommandInfo[]> {
+    await requireConversationMember(conversationId, userId);
+
+    const registered = await db.select({
+      name: botCommands.name,
+      description: botCommands.description,
+      usage: botCommands.usage,
+      botName: chatBots.name
+    })
+      .from(botCommands)
+      .innerJoin(chatBots, eq(botCommands.botId, chatBots.id))
+      .where(eq(chatBots.isActive, true))
+      .orderBy(asc(botCommands.name));
+
+    return [
+      ...BUILTIN_COMMANDS.map(({ name, description, usage }) => ({ name, description, usage, botName: null })),
+      ...registered.map(command => ({ ...command, usage: command.usage ?? '' }))
+    ].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async runCommand(conversationId: string, userId: string, input: RunCommandInput): Promise<SlashCommandResult> {
+    await requireConversationMember(conversationId, userId);
+
+    const context: SlashCommandContext = { conversationId, userId, text: input.text, clientId: input.clientId };
+
+    const builtin = BUILTIN_COMMANDS.find(command => command.name === input.command);
+    if (builtin) {
+      return builtin.run(context);
+    }
+
+    const [registered] = await db.select({ bot: chatBots })
+      .from(botCommands)
+      .innerJoin(chatBots, eq(botCommands.botId, chatBots.id))
+      .where(and(eq(botCommands.name, input.command), eq(chatBots.isActive, true)))
+      .limit(1);
+
+    if (!registered) {
+      throw new Error('Unknown command');
+    }
+
+    return this.runBotCommand(registered.bot, input.command, context);
+  }
+
+  /**
+   * Register a bot with its commands. The signing secret is only returned here.
+   */
+  async registerBot(actorId: string, input: RegisterBotInput, context: AuditContext) {
+    const names = input.commands.map(command => command.name);
+    if (BUILTIN_COMMANDS.some(command => names.includes(command.name))) {
+      throw new Error('Command name is taken');
+    }
+
+    const bot = await db.transaction(async (tx) => {
+      const taken = await tx.select({ name: botCommands.name })
+        .from(botCommands)
+        .where(inArray(botCommands.name, names))
+        .limit(1);
+
+      if (taken.length > 0) {
+        throw new Error('Command name is taken');
+      }
+
+      const [created] = await tx.insert(chatBots).values({
+        name: input.name,
+        description: input.description ?? null,
+        webhookUrl: input.webhookUrl,
+        signingSecret: randomBytes(32).toString('hex'),
+        createdBy: actorId
+      }).returning();
+
+      const commands = await tx.insert(botCommands)
+        .values(input.commands.map(command => ({
+          botId: created.id,
+          name: command.name,
+          description: command.description,
+          usage: command.usage ?? null
+        })))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        actorId,
+        action: 'bot.registered',
+        target: `bot:${created.id}`,
+        metadata: { name: created.name, webhookUrl: created.webhookUrl, commands: names },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      });
+
+      return { ...created, commands };
+    });
+
+    return bot;
+  }
+
+  async listBots() {
+    const bots = await db.select({
+      id: chatBots.id,
+      name: chatBots.name,
+      description: chatBots.description,
+      webhookUrl: chatBots.webhookUrl,
+      isActive: chatBots.isActive,
+      createdBy: chatBots.createdBy,
+      createdAt: chatBots.createdAt
+    })
+      .from(chatBots)
+      .orderBy(asc(chatBots.name));
+
+    const commands = bots.length === 0 ? [] : await db.select()
+      .from(botCommands)
+      .where(inArray(botCommands.botId, bots.map(bot => bot.id)))
+      .orderBy(asc(botCommands.name));
+
+    return bots.map(bot => ({ ...bot, commands: commands.filter(command => command.botId === bot.id) }));
+  }
+
+  async removeBot(botId: string, actorId: string, context: AuditContext): Promise<void> {
+    const [removed] = await db.delete(chatBots)
+      .where(eq(chatBots.id, botId))
+      .returning({ id: chatBots.id, name: chatBots.name });
+
+    if (!removed) {
+      throw new Error('Bot not found');
+    }
+
+    await db.insert(auditLogs).values({
+      actorId,
+      action: 'bot.removed',
+      target: `bot:${botId}`,
+      metadata: { name: removed.name },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    });
+  }
+
+  /**
+   * Send the command to the bot's webhook. The bot only gets the command
+   * text and who sent it; an in_channel reply is posted on the sender's
+   * behalf, marked with the bot's name.
+   */
+  private async runBotCommand(bot: ChatBot, command: string, context: SlashCommandContext): Promise<SlashCommandResult> {
+    const [sender] = await db.select({ name: users.name })
+      .from(users)
+      .where(eq(users.id, context.userId))
+      .limit(1);
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = JSON.stringify({
+      command,
+      text: context.text,
+      conversationId: context.conversationId,
+      user: { id: context.userId, name: sender?.name ?? null },
+      timestamp
+    });
+    const signature = createHmac('sha256', bot.signingSecret).update(`${timestamp}.${body}`).digest('hex');
+
+    let reply;
+    try {
+      const response = await fetch(bot.webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Bot-Timestamp': timestamp,
+          'X-Bot-Signature': `sha256=${signature}`
+        },
+        body,
+        signal: AbortSignal.timeout(BOT_TIMEOUT_MS)
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      reply = botCommandResponseSchema.parse(await response.json());
+    } catch (error) {
+      console.error(`Bot ${bot.id} failed to answer /${command}:`, error);
+      throw new Error('Bot did not respond');
+    }
+
+    if (reply.responseType === 'ephemeral') {
+      return { type: 'ephemeral', text: reply.text };
+    }
+
+    const message = await messageService.createMessage({
+      conversationId: context.conversationId,
+      senderId: context.userId,
+      content: reply.text,
+      clientId: context.clientId,
+      botName: bot.name
+    });
+
+    return { type: 'message', message };
+  }
+}
+
+// Export singleton instance
+export const slashCommandService = new SlashCommandService();
+export default slashCommandService;
@@ -0,0 +1,118 @@
+import { db } from '@/lib/db';
+import { eq, and, ne } from 'drizzle-orm';
+import { messages, threadFollowers, conversationMembers } from '@/db/schema';
+import { requireConversationMember } from '@/lib/chat/conversation-access';
+import { notificationService } from '@/lib/notifications/notification-service';
+import { notificationSettingsService } from '@/lib/chat/notification-settings-service';
+import type { MessagePayload } from '@/lib/chat/message-service';
+
+/**
+ * Thread Service - thread follow state and reply notifications
+ */
+class ThreadService {
+  /**
+   * Follow or unfollow a thread
+   */
+  async setFollowing(conversationId: string, messageId: string, userId: string, isFollowing: boolean) {
+    await requireConversationMember(conversationId, userId);
+
+    const [root] = await db.select({ id: messages.id, replyToId: messages.replyToId })
+      .from(messages)
+      .where(and(
+        eq(messages.id, messageId),
+        eq(messages.conversationId, conversationId)
+      ))
+      .limit(1);
+
+    if (!root) {
+      throw new Error('Message not found');
+    }
+    if (root.replyToId) {
+      throw new Error('Message is not a thread root');
+    }
+
+    await db.insert(threadFollowers)
+      .values({ messageId, userId, isFollowing })
+      .onConflictDoUpdate({
+        target: [threadFollowers.messageId, threadFollowers.userId],
+        set: { isFollowing }
+      });
+
+    return { messageId, isFollowing };
+  }
+
+  async isFollowing(messageId: string, userId: string): Promise<boolean> {
+    const [follower] = await db.select({ isFollowing: threadFollowers.isFollowing })
+      .from(threadFollowers)
+      .where(and(
+        eq(threadFollowers.messageId, messageId),
+        eq(threadFollowers.userId, userId)
+      ))
+      .limit(1);
+
+    return follower?.isFollowing ?? false;
+  }
+
+  /**
+   * Auto-follow the thread for the root author and the replier, then notify
+   * the other followers. Users who unfollowed explicitly are left alone, and
+   * users in `notifiedUserIds` already got a notification for this reply.
+   */
+  async handleNewReply(reply: MessagePayload, rootId: string, notifiedUserIds: string[] = []) {
+    try {
+      const [root] = await db.select({ senderId: messages.senderId })
+        .from(messages)
+        .where(eq(messages.id, rootId))
+        .limit(1);
+
+      if (!root) return;
+
+      await db.insert(threadFollowers)
+        .values(Array.from(new Set([root.senderId, reply.senderId])).map(userId => ({
+          messageId: rootId,
+          userId
+        })))
+        .onConflictDoNothing();
+
+      // Only notify followers who are still in the conversation
+      const followers = await db.select({ userId: threadFollowers.userId })
+        .from(threadFollowers)
+        .innerJoin(conversationMembers, and(
+          eq(conversationMembers.userId, threadFollowers.userId),
+          eq(conversationMembers.conversationId, reply.conversationId),
+          eq(conversationMembers.hasLeft, false)
+        ))
+        .where(and(
+          eq(threadFollowers.messageId, rootId),
+          eq(threadFollowers.isFollowing, true),
+          ne(threadFollowers.userId, reply.senderId)
+        ));
+
+      const recipients = await notificationSettingsService.filterRecipients(
+        reply.conversationId,
+        followers.map(follower => follower.userId).filter(userId => !notifiedUserIds.includes(userId)),
+        'activity'
+      );
+
+      await notificationService.notify(recipients.map(userId => ({
+        userId,
+        type: 'MESSAGE' as const,
+        title: `${reply.senderName} replied in a thread`,
+        message: reply.bodyPlain.slice(0, 200),
+        payload: {
+          kind: 'thread_reply',
+          conversationId: reply.conversationId,
+          messageId: reply.id,
+          threadRootId: rootId
+        }
+      })));
+    } catch (error) {
+      // Notifications must not fail the send itself
+      console.error('Error handling thread reply:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const threadService = new ThreadService();
+export default threadService;
@@ -0,0 +1,67 @@
+import { savedItemService } from '@/lib/chat/saved-item-service';
+import { scheduledMessageService } from '@/lib/chat/scheduled-message-service';
+import { exportService } from '@/lib/chat/export-service';
+import { retentionService } from '@/lib/chat/retention-service';
+import { pollService } from '@/lib/chat/poll-service';
+
+// Background jobs started by the custom server (server.ts). Every node runs
+// them, so a job must claim its work atomically (e.g. UPDATE ... RETURNING).
+interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const JOBS: BackgroundJob[] = [
+  {
+    name: 'scheduled-messages',
+    intervalMs: 10 * 1000,
+    run: () => scheduledMessageService.sendDue()
+  },
+  {
+    name: 'poll-closing',
+    intervalMs: 15 * 1000,
+    run: () => pollService.closeDuePolls()
+  },
+  {
+    name: 'saved-message-reminders',
+    intervalMs: 30 * 1000,
+    run: () => savedItemService.sendDueReminders()
+  },
+  {
+    name: 'conversation-exports',
+    intervalMs: 15 * 1000,
+    run: () => exportService.runQueued()
+  },
+  {
+    name: 'message-retention',
+    intervalMs: 60 * 60 * 1000,
+    run: () => retentionService.enforce()
+  }
+];
+
+let started = false;
+
+export function startBackgroundJobs() {
+  if (started) return;
+  started = true;
+
+  for (const job of JOBS) {
+    // Skip a tick while the previous run is still going
+    let running = false;
+
+    setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Background job ${job.name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    }, job.intervalMs);
+  }
+
+  console.log(`Started ${JOBS.length} background jobs`);
+}
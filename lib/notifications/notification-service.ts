@@ -0,0 +1,27 @@
+import { db } from '@/lib/db';
+import { notifications } from '@/db/schema';
+import { emitToUser } from '@/lib/socket/broadcast';
+
+export type NotificationInput = Omit<typeof notifications.$inferInsert, 'id' | 'isRead' | 'readAt' | 'createdAt'>;
+
+/**
+ * Notification Service - stores notifications and pushes them to the
+ * recipients' personal Socket.IO rooms
+ */
+class NotificationService {
+  async notify(inputs: NotificationInput[]) {
+    if (inputs.length === 0) return [];
+
+    const created = await db.insert(notifications).values(inputs).returning();
+
+    for (const notification of created) {
+      emitToUser(notification.userId, 'notification:new', notification);
+    }
+
+    return created;
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
+export default notificationService;
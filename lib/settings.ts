@@ -0,0 +1,60 @@
+import { db } from '@/lib/db';
+import { eq, sql } from 'drizzle-orm';
+import { settings } from '@/db/schema';
+
+// Well-known keys in the settings table
+export const SETTING_KEYS = {
+  messageEditWindowMinutes: 'chat.message_edit_window_minutes',
+  socketRateLimits: 'realtime.rate_limits', // Partial RateLimitConfig, see lib/socket/rate-limiter.ts
+  messageRetention: 'chat.retention_policy' // RetentionPolicy, see lib/chat/retention-service.ts
+} as const;
+
+// Settings change rarely, so cache reads for a short time
+const CACHE_TTL_MS = 30 * 1000;
+const cache = new Map<string, { value: unknown; expiresAt: number }>();
+
+/**
+ * Read a setting value, falling back to a default when it is not set
+ */
+export async function getSetting<T>(key: string, defaultValue: T): Promise<T> {
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return (cached.value ?? defaultValue) as T;
+  }
+
+  try {
+    const [row] = await db.select({ value: settings.value })
+      .from(settings)
+      .where(eq(settings.key, key))
+      .limit(1);
+
+    const value = row ? row.value : null;
+    cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+
+    return (value ?? defaultValue) as T;
+  } catch (error) {
+    console.error(`Error reading setting ${key}:`, error);
+    return defaultValue;
+  }
+}
+
+/**
+ * Create or update a setting value
+ */
+export async function setSetting(key: string, value: unknown, description?: string) {
+  const [row] = await db.insert(settings)
+    .values({ key, value, description })
+    .onConflictDoUpdate({
+      target: settings.key,
+      set: {
+        value,
+        ...(description !== undefined ? { description } : {}),
+        updatedAt: sql`now()`
+      }
+    })
+    .returning();
+
+  cache.delete(key);
+
+  return row;
+}
@@ -0,0 +1,97 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, rateLimitSettingSchema, type RateLimitConfig } from '@/lib/socket/rate-limiter';
+
+const config: RateLimitConfig = {
+  events: { 'message:send': { capacity: 3, refillPerSecond: 1 } },
+  default: { capacity: 2, refillPerSecond: 0.5 },
+  maxViolations: 3,
+  violationWindowSeconds: 10
+};
+
+const USER = 'user-1';
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = Date.UTC(2025, 0, 1);
+    mock.method(Date, 'now', () => now);
+    limiter = new RateLimiter();
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  const send = (count: number) =>
+    Array.from({ length: count }, () => limiter.consume(USER, 'message:send', config).allowed);
+
+  it('allows a burst up to the capacity', () => {
+    assert.deepEqual(send(4), [true, true, true, false]);
+  });
+
+  it('reports when the next token is available', () => {
+    send(3);
+    now += 250;
+    assert.deepEqual(limiter.consume(USER, 'message:send', config), { allowed: false, retryAfterMs: 750 });
+  });
+
+  it('refills tokens over time without exceeding the capacity', () => {
+    send(3);
+    now += 2000;
+    assert.deepEqual(send(3), [true, true, false]);
+
+    now += 60 * 1000;
+    assert.deepEqual(send(4), [true, true, true, false]);
+  });
+
+  it('uses the default rule for events without their own', () => {
+    const typing = () => limiter.consume(USER, 'message:typing:start', config);
+    assert.equal(typing().allowed, true);
+    assert.equal(typing().allowed, true);
+    assert.deepEqual(typing(), { allowed: false, retryAfterMs: 2000 });
+  });
+
+  it('keeps separate buckets per user and event', () => {
+    send(3);
+    assert.equal(limiter.consume('user-2', 'message:send', config).allowed, true);
+    assert.equal(limiter.consume(USER, 'message:typing:start', config).allowed, true);
+  });
+
+  it('counts violations within the window only', () => {
+    assert.equal(limiter.recordViolation(USER, config), 1);
+    now += 5000;
+    assert.equal(limiter.recordViolation(USER, config), 2);
+    now += 6000;
+    assert.equal(limiter.recordViolation(USER, config), 2);
+
+    limiter.clearViolations(USER);
+    assert.equal(limiter.recordViolation(USER, config), 1);
+  });
+
+  it('starts idle users with a full bucket after pruning', () => {
+    send(3);
+    now += 11 * 60 * 1000;
+    limiter.prune();
+    assert.deepEqual(send(4), [true, true, true, false]);
+  });
+});
+
+describe('rateLimitSettingSchema', () => {
+  it('accepts a partial configuration', () => {
+    assert.equal(rateLimitSettingSchema.safeParse({ events: { 'message:send': { capacity: 5, refillPerSecond: 0.5 } } }).success, true);
+    assert.equal(rateLimitSettingSchema.safeParse({ maxViolations: 10 }).success, true);
+  });
+
+  it('rejects unknown events, unknown keys and invalid rules', () => {
+    for (const value of [
+      { events: { 'message:unknown': { capacity: 5, refillPerSecond: 1 } } },
+      { events: { 'message:send': { capacity: 0, refillPerSecond: 1 } } },
+      { default: { capacity: 5 } },
+      { maxViolation: 10 },
+      'fast'
+    ]) {
+      assert.equal(rateLimitSettingSchema.safeParse(value).success, false, JSON.stringify(value));
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import type { Server } from 'socket.io';
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  ServerEventName,
+  InterServerEvents,
+  SocketData
+} from '@/types/realtime';
+
+export type TypedIO = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// Next.js bundles route handlers separately from server.ts, so a module-level
+// variable would hold a different (empty) copy in each bundle. Keeping the
+// Socket.IO server on globalThis lets API routes emit through the same instance.
+const globalForSocket = globalThis as unknown as {
+  socketIO?: TypedIO;
+};
+
+export function setSocketServer(io: TypedIO) {
+  globalForSocket.socketIO = io;
+}
+
+export function getSocketServer(): TypedIO | null {
+  return globalForSocket.socketIO ?? null;
+}
+
+export function emitToConversation<E extends ServerEventName>(
+  conversationId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+) {
+  getSocketServer()?.to(`conversation:${conversationId}`).emit(event, ...args);
+}
+
+export function emitToUser<E extends ServerEventName>(
+  userId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+) {
+  getSocketServer()?.to(`user:${userId}`).emit(event, ...args);
+}
+
+// Make all of a user's sockets, on every node, leave a conversation room
+export function removeUserFromConversation(userId: string, conversationId: string) {
+  getSocketServer()?.in(`user:${userId}`).socketsLeave(`conversation:${conversationId}`);
+}
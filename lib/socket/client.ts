@@ -3,92 +3,35 @@
 import { useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useAuth } from '@/lib/auth-client';
+import { useSocketContext } from '@/contexts/socket-context';
 
-// Types for client-side events
-export interface ClientToServerEvents {
-  // Join/leave rooms
-  'join:conversation': (conversationId: string) => void;
-  'leave:conversation': (conversationId: string) => void;
-
-  // Messaging
-  'message:send': (data: {
-    conversationId: string;
-    content: any;
-    replyToId?: string;
-    attachments?: string[];
-  }) => void;
-  'message:typing:start': (conversationId: string) => void;
-  'message:typing:stop': (conversationId: string) => void;
-
-  // Presence
-  'presence:update': (status: 'online' | 'away' | 'offline') => void;
-
-  // Reactions
-  'message:reaction:add': (data: {
-    messageId: string;
-    emoji: string;
-  }) => void;
-  'message:reaction:remove': (data: {
-    messageId: string;
-    emoji: string;
-  }) => void;
-
-  // Read receipts
-  'conversation:read': (conversationId: string) => void;
-}
+import type {
+  ClientToServerEvents,
+  ServerToClientWireEvents,
+  TypingEvent,
+  PresenceStatus,
+  MessageSendPayload,
+  AckResponse,
+  Serialized
+} from '@/types/realtime';
+import type { MessagePayload, SyncResult } from '@/lib/chat/message-service';
 
-export interface ServerToClientEvents {
-  // Messaging
-  'message:new': (message: any) => void;
-  'message:updated': (message: any) => void;
-  'message:deleted': (messageId: string) => void;
-
-  // Typing indicators
-  'typing:user': (data: {
-    conversationId: string;
-    userId: string;
-    userName: string;
-    isTyping: boolean;
-  }) => void;
-
-  // Presence
-  'presence:user': (data: {
-    userId: string;
-    status: 'online' | 'away' | 'offline';
-    lastSeen?: string;
-  }) => void;
-
-  // Reactions
-  'message:reaction': (data: {
-    messageId: string;
-    userId: string;
-    emoji: string;
-    action: 'add' | 'remove';
-  }) => void;
-
-  // Read receipts
-  'conversation:read': (data: {
-    conversationId: string;
-    userId: string;
-    lastReadMessageId: string;
-  }) => void;
-
-  // System
-  'error': (error: { message: string; code?: string }) => void;
-  'success': (message: string) => void;
-}
+export type ClientSocket = Socket<ServerToClientWireEvents, ClientToServerEvents>;
 
 export interface UseSocketOptions {
   autoConnect?: boolean;
 }
 
+// Opens a connection of its own. SocketProvider holds the app's connection;
+// components use it through useSocketContext and the hooks below, so
+// presence (including idle "away") is reported by a single socket.
 export function useSocket(options: UseSocketOptions = {}) {
   const { autoConnect = true } = options;
   const { user, getAccessToken } = useAuth();
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
+  const socketRef = useRef<ClientSocket | null>(null);
 
   // Connect to Socket.IO server
   const connect = async () => {
@@ -107,8 +50,11 @@ export function useSocket(options: UseSocketOptions = {}) {
         ? window.location.origin
         : 'http://localhost:3000';
 
-      const socket = io(socketUrl, {
-        auth: { token },
+      const socket: ClientSocket = io(socketUrl, {
+        // Reconnects fetch a fresh token instead of reusing the first one
+        auth: (cb: (data: { token: string | null }) => void) => {
+          getAccessToken().then((latest: string | null) => cb({ token: latest ?? token }));
+        },
         transports: ['websocket', 'polling'],
         reconnection: true,
         reconnectionAttempts: 5,
@@ -138,6 +84,14 @@ export function useSocket(options: UseSocketOptions = {}) {
         setIsConnecting(false);
       });
 
+      // Re-authenticate with the rotated access token before the old one expires
+      socket.on('auth:expiring', () => {
+        refreshAuth(socket).catch((err) => {
+          console.error('Socket.IO token refresh failed:', err);
+          setError(err instanceof Error ? err.message : 'Token refresh failed');
+        });
+      });
+
       // Error handling
       socket.on('error', (error) => {
         console.error('Socket.IO error:', error);
@@ -151,6 +105,26 @@ export function useSocket(options: UseSocketOptions = {}) {
     }
   };
 
+  // Send the current access token to the server without reconnecting
+  const refreshAuth = async (socket = socketRef.current) => {
+    if (!socket?.connected) return;
+
+    const token = await getAccessToken();
+    if (!token) {
+      throw new Error('No access token available');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      socket.emit('auth:refresh', token, (response: AckResponse<{ expiresAt: string }>) => {
+        if (response.ok) {
+          resolve();
+        } else {
+          reject(new Error(response.error));
+        }
+      });
+    });
+  };
+
   // Disconnect from Socket.IO server
   const disconnect = () => {
     if (socketRef.current) {
@@ -185,23 +159,81 @@ export function useSocket(options: UseSocketOptions = {}) {
     isConnecting,
     error,
     connect,
-    disconnect
+    disconnect,
+    refreshAuth
   };
 }
 
+export interface UseConversationSocketOptions {
+  // Called with messages created, edited or deleted while disconnected.
+  // Messages with a seq above `sinceSeq` are new, the others were changed.
+  onMissedMessages?: (messages: Serialized<MessagePayload>[], sinceSeq: number) => void;
+  onResyncRequired?: () => void; // Too much changed while disconnected; reload the conversation
+}
+
+// A send is retried with the same clientId, so the server stores it only once
+const SEND_ACK_TIMEOUT_MS = 10000;
+const SEND_MAX_ATTEMPTS = 3;
+
 // Hook for specific conversation
-export function useConversationSocket(conversationId: string) {
-  const { socket, isConnected } = useSocket();
+export function useConversationSocket(conversationId: string, options: UseConversationSocketOptions = {}) {
+  const { socket, isConnected } = useSocketContext();
   const [typingUsers, setTypingUsers] = useState<Map<string, { userName: string; timestamp: number }>>(new Map());
+  // Latest sequence number seen in this conversation
+  const lastSeqRef = useRef<number | null>(null);
+  const onMissedMessagesRef = useRef(options.onMissedMessages);
+  onMissedMessagesRef.current = options.onMissedMessages;
+  const onResyncRequiredRef = useRef(options.onResyncRequired);
+  onResyncRequiredRef.current = options.onResyncRequired;
+
+  useEffect(() => {
+    lastSeqRef.current = null;
+  }, [conversationId]);
 
   useEffect(() => {
     if (!socket || !isConnected) return;
 
-    // Join conversation
-    socket.emit('join:conversation', conversationId);
+    const syncSince = (sinceSeq: number) => {
+      socket.emit('sync:since', conversationId, sinceSeq, (response: AckResponse<Serialized<SyncResult>>) => {
+        if (!response.ok) {
+          console.error('Failed to sync conversation:', response.error);
+          return;
+        }
+
+        lastSeqRef.current = Math.max(lastSeqRef.current ?? 0, response.lastSeq);
+        if (response.changesTruncated) {
+          onResyncRequiredRef.current?.();
+          return;
+        }
+        if (response.messages.length > 0) {
+          onMissedMessagesRef.current?.(response.messages, sinceSeq);
+        }
+        if (response.hasMore) {
+          syncSince(response.lastSeq);
+        }
+      });
+    };
+
+    // Join conversation, then fetch anything missed since the last connection
+    socket.emit('join:conversation', conversationId, (response: AckResponse<{ lastSeq: number }>) => {
+      if (!response.ok) return;
+
+      const lastSeq = lastSeqRef.current;
+      if (lastSeq === null) {
+        lastSeqRef.current = response.lastSeq;
+      } else if (response.lastSeq > lastSeq) {
+        syncSince(lastSeq);
+      }
+    });
+
+    const handleNewMessage = (message: Serialized<MessagePayload>) => {
+      if (message.conversationId === conversationId) {
+        lastSeqRef.current = Math.max(lastSeqRef.current ?? 0, message.seq);
+      }
+    };
 
     // Handle typing indicators
-    const handleTypingUser = (data: { conversationId: string; userId: string; userName: string; isTyping: boolean }) => {
+    const handleTypingUser = (data: TypingEvent) => {
       if (data.conversationId === conversationId) {
         setTypingUsers(prev => {
           const newMap = new Map(prev);
@@ -215,6 +247,7 @@ export function useConversationSocket(conversationId: string) {
       }
     };
 
+    socket.on('message:new', handleNewMessage);
     socket.on('typing:user', handleTypingUser);
 
     // Clean up old typing indicators (remove after 5 seconds)
@@ -232,23 +265,44 @@ export function useConversationSocket(conversationId: string) {
     }, 1000);
 
     return () => {
+      socket.off('message:new', handleNewMessage);
       socket.off('typing:user', handleTypingUser);
       socket.emit('leave:conversation', conversationId);
       clearInterval(cleanupInterval);
     };
   }, [socket, isConnected, conversationId]);
 
-  const sendMessage = (content: any, replyToId?: string, attachments?: string[]) => {
+  // Resolves with the stored message once the server has persisted it.
+  // Unacknowledged sends (e.g. during a reconnect) are retried with the same
+  // clientId.
+  const sendMessage = async (content: MessageSendPayload['content'], replyToId?: string, attachments?: string[]) => {
     if (!socket || !isConnected) {
       throw new Error('Socket not connected');
     }
 
-    socket.emit('message:send', {
+    const payload: MessageSendPayload = {
       conversationId,
       content,
       replyToId,
-      attachments
-    });
+      attachments,
+      clientId: crypto.randomUUID()
+    };
+
+    for (let attempt = 1; attempt <= SEND_MAX_ATTEMPTS; attempt++) {
+      const response = await new Promise<AckResponse<{ message: Serialized<MessagePayload> }> | null>((resolve) => {
+        socket.timeout(SEND_ACK_TIMEOUT_MS).emit('message:send', payload, (err: Error | null, ack: AckResponse<{ message: Serialized<MessagePayload> }>) => {
+          resolve(err ? null : ack);
+        });
+      });
+
+      if (!response) continue;
+      if (!response.ok) {
+        throw new Error(response.error);
+      }
+      return response.message;
+    }
+
+    throw new Error('Message send timed out');
   };
 
   const startTyping = () => {
@@ -263,25 +317,41 @@ export function useConversationSocket(conversationId: string) {
     }
   };
 
-  const markAsRead = () => {
+  // Marks up to the given message (or the latest one) as read
+  const markAsRead = (messageId?: string) => {
     if (socket && isConnected) {
-      socket.emit('conversation:read', conversationId);
+      socket.emit('conversation:read', conversationId, messageId);
     }
   };
 
+  // Reactions fall back to the REST API when the socket is not connected
   const addReaction = (messageId: string, emoji: string) => {
     if (socket && isConnected) {
       socket.emit('message:reaction:add', { messageId, emoji });
+      return;
     }
+
+    fetch(`/api/conversations/${conversationId}/messages/${messageId}/reactions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ emoji })
+    }).catch((error) => console.error('Failed to add reaction:', error));
   };
 
   const removeReaction = (messageId: string, emoji: string) => {
     if (socket && isConnected) {
       socket.emit('message:reaction:remove', { messageId, emoji });
+      return;
     }
+
+    fetch(`/api/conversations/${conversationId}/messages/${messageId}/reactions?emoji=${encodeURIComponent(emoji)}`, {
+      method: 'DELETE'
+    }).catch((error) => console.error('Failed to remove reaction:', error));
   };
 
   return {
+    socket,
+    isConnected,
     typingUsers: Array.from(typingUsers.entries()).map(([userId, data]) => ({
       userId,
       userName: data.userName
@@ -295,44 +365,11 @@ export function useConversationSocket(conversationId: string) {
   };
 }
 
-// Hook for presence management
+// Hook for presence management, backed by the presence state of SocketProvider
 export function usePresenceSocket() {
-  const { socket, isConnected } = useSocket();
-  const [onlineUsers, setOnlineUsers] = useState<Set<string>>(new Set());
-  const [userStatuses, setUserStatuses] = useState<Map<string, { status: string; lastSeen?: string }>>(new Map());
+  const { socket, isConnected, onlineUsers, userStatuses } = useSocketContext();
 
-  useEffect(() => {
-    if (!socket || !isConnected) return;
-
-    const handlePresenceUser = (data: { userId: string; status: string; lastSeen?: string }) => {
-      setOnlineUsers(prev => {
-        const newSet = new Set(prev);
-        if (data.status === 'online') {
-          newSet.add(data.userId);
-        } else {
-          newSet.delete(data.userId);
-        }
-        return newSet;
-      });
-
-      setUserStatuses(prev => {
-        const newMap = new Map(prev);
-        newMap.set(data.userId, {
-          status: data.status,
-          lastSeen: data.lastSeen
-        });
-        return newMap;
-      });
-    };
-
-    socket.on('presence:user', handlePresenceUser);
-
-    return () => {
-      socket.off('presence:user', handlePresenceUser);
-    };
-  }, [socket, isConnected]);
-
-  const updatePresence = (status: 'online' | 'away' | 'offline') => {
+  const updatePresence = (status: PresenceStatus) => {
     if (socket && isConnected) {
       socket.emit('presence:update', status);
     }
@@ -345,4 +382,4 @@ export function usePresenceSocket() {
     isUserOnline: (userId: string) => onlineUsers.has(userId),
     getUserStatus: (userId: string) => userStatuses.get(userId)
   };
-}
\ No newline at end of file
+}
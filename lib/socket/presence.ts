@@ -0,0 +1,243 @@
+import { db } from '@/lib/db';
+import { eq, and, inArray } from 'drizzle-orm';
+import type { createClient } from 'redis';
+import { users, conversationMembers, divisionMembers } from '@/db/schema';
+import type { PresenceStatus } from '@/types/realtime';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Connected statuses; users without a connected socket are offline
+type ConnectedStatus = Exclude<PresenceStatus, 'offline'>;
+
+// Sockets not refreshed within this window belong to a node that went away
+export const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+const PRESENCE_STALE_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+const USERS_KEY = 'presence:users';
+const socketsKey = (userId: string) => `presence:sockets:${userId}`;
+
+/**
+ * Per-socket presence storage. A user is online when any of their sockets
+ * is online and away when all of them are away.
+ */
+interface PresenceStore {
+  setSocket(userId: string, socketId: string, status: ConnectedStatus): Promise<void>;
+  removeSocket(userId: string, socketId: string): Promise<void>;
+  getStatuses(userIds: string[]): Promise<Map<string, ConnectedStatus>>;
+  getConnectedUserIds(): Promise<string[]>;
+}
+
+function aggregate(statuses: Iterable<ConnectedStatus>): ConnectedStatus | null {
+  let result: ConnectedStatus | null = null;
+  for (const status of statuses) {
+    if (status === 'online') return 'online';
+    result = status;
+  }
+  return result;
+}
+
+// Single node mode
+class MemoryPresenceStore implements PresenceStore {
+  private sockets = new Map<string, Map<string, ConnectedStatus>>(); // userId -> socketId -> status
+
+  async setSocket(userId: string, socketId: string, status: ConnectedStatus) {
+    if (!this.sockets.has(userId)) {
+      this.sockets.set(userId, new Map());
+    }
+    this.sockets.get(userId)!.set(socketId, status);
+  }
+
+  async removeSocket(userId: string, socketId: string) {
+    const userSockets = this.sockets.get(userId);
+    userSockets?.delete(socketId);
+    if (userSockets?.size === 0) {
+      this.sockets.delete(userId);
+    }
+  }
+
+  async getStatuses(userIds: string[]) {
+    const statuses = new Map<string, ConnectedStatus>();
+    for (const userId of userIds) {
+      const status = aggregate(this.sockets.get(userId)?.values() ?? []);
+      if (status) statuses.set(userId, status);
+    }
+    return statuses;
+  }
+
+  async getConnectedUserIds() {
+    return Array.from(this.sockets.keys());
+  }
+}
+
+// Shared by all nodes. Each user has a hash of socketId -> "status:heartbeat"
+// and a sorted set tracks when each user was last refreshed.
+class RedisPresenceStore implements PresenceStore {
+  constructor(private client: RedisClient) {}
+
+  async setSocket(userId: string, socketId: string, status: ConnectedStatus) {
+    const now = Date.now();
+    await this.client.hSet(socketsKey(userId), socketId, `${status}:${now}`);
+    await this.client.pExpire(socketsKey(userId), PRESENCE_STALE_MS);
+    await this.client.zAdd(USERS_KEY, { score: now, value: userId });
+  }
+
+  async removeSocket(userId: string, socketId: string) {
+    await this.client.hDel(socketsKey(userId), socketId);
+    if (await this.client.hLen(socketsKey(userId)) === 0) {
+      await this.client.zRem(USERS_KEY, userId);
+    }
+  }
+
+  async getStatuses(userIds: string[]) {
+    const statuses = new Map<string, ConnectedStatus>();
+    const staleBefore = Date.now() - PRESENCE_STALE_MS;
+
+    for (const userId of userIds) {
+      const entries = await this.client.hGetAll(socketsKey(userId));
+      const live = Object.values(entries)
+        .map(entry => entry.split(':'))
+        .filter(([, heartbeat]) => Number(heartbeat) > staleBefore)
+        .map(([status]) => status as ConnectedStatus);
+
+      const status = aggregate(live);
+      if (status) statuses.set(userId, status);
+    }
+    return statuses;
+  }
+
+  async getConnectedUserIds() {
+    await this.client.zRemRangeByScore(USERS_KEY, 0, Date.now() - PRESENCE_STALE_MS);
+    return this.client.zRange(USERS_KEY, 0, -1);
+  }
+}
+
+// API route bundles use the same store as server.ts (see broadcast.ts)
+const globalForPresence = globalThis as unknown as {
+  presenceStore?: PresenceStore;
+};
+
+/**
+ * Presence Service - tracks who is connected across Socket.IO nodes and
+ * which users should see each other's presence
+ */
+class PresenceService {
+  private get store(): PresenceStore {
+    if (!globalForPresence.presenceStore) {
+      globalForPresence.presenceStore = new MemoryPresenceStore();
+    }
+    return globalForPresence.presenceStore;
+  }
+
+  /**
+   * Keep presence in Redis so every node sees the same state
+   */
+  useRedis(client: RedisClient) {
+    globalForPresence.presenceStore = new RedisPresenceStore(client);
+  }
+
+  /**
+   * Record a socket's status. Returns the user's new status when it changed.
+   */
+  async setSocketStatus(userId: string, socketId: string, status: PresenceStatus): Promise<PresenceStatus | null> {
+    const before = await this.getStatus(userId);
+
+    if (status === 'offline') {
+      await this.store.removeSocket(userId, socketId);
+    } else {
+      await this.store.setSocket(userId, socketId, status);
+    }
+
+    const after = await this.getStatus(userId);
+    if (after === before) return null;
+
+    if (before === 'offline' || after === 'offline') {
+      await db.update(users).set({ lastSeenAt: new Date() }).where(eq(users.id, userId));
+    }
+    return after;
+  }
+
+  /**
+   * Refresh the heartbeat of this node's sockets so other nodes do not
+   * treat them as stale
+   */
+  async refreshSockets(sockets: { userId: string; socketId: string; status: PresenceStatus }[]) {
+    for (const socket of sockets) {
+      if (socket.status !== 'offline') {
+        await this.store.setSocket(socket.userId, socket.socketId, socket.status);
+      }
+    }
+  }
+
+  async getStatus(userId: string): Promise<PresenceStatus> {
+    const statuses = await this.store.getStatuses([userId]);
+    return statuses.get(userId) ?? 'offline';
+  }
+
+  /**
+   * Status and last-seen time for each user
+   */
+  async getPresence(userIds: string[]) {
+    if (userIds.length === 0) return [];
+
+    const statuses = await this.store.getStatuses(userIds);
+    const rows = await db.select({ id: users.id, lastSeenAt: users.lastSeenAt })
+      .from(users)
+      .where(inArray(users.id, userIds));
+
+    return rows.map(row => ({
+      userId: row.id,
+      status: statuses.get(row.id) ?? 'offline' as PresenceStatus,
+      lastSeen: row.lastSeenAt?.toISOString()
+    }));
+  }
+
+  async getOnlineUserIds(): Promise<string[]> {
+    const userIds = await this.store.getConnectedUserIds();
+    const statuses = await this.store.getStatuses(userIds);
+    return userIds.filter(userId => statuses.has(userId));
+  }
+
+  async isUserOnline(userId: string): Promise<boolean> {
+    return (await this.getStatus(userId)) !== 'offline';
+  }
+
+  /**
+   * Users who may see this user's presence: members of a shared
+   * conversation or division, including the user themselves
+   */
+  async getAudience(userId: string): Promise<string[]> {
+    const conversationPeers = await db.selectDistinct({ userId: conversationMembers.userId })
+      .from(conversationMembers)
+      .where(and(
+        eq(conversationMembers.hasLeft, false),
+        inArray(
+          conversationMembers.conversationId,
+          db.select({ id: conversationMembers.conversationId })
+            .from(conversationMembers)
+            .where(and(
+              eq(conversationMembers.userId, userId),
+              eq(conversationMembers.hasLeft, false)
+            ))
+        )
+      ));
+
+    const divisionPeers = await db.selectDistinct({ userId: divisionMembers.userId })
+      .from(divisionMembers)
+      .where(inArray(
+        divisionMembers.divisionId,
+        db.select({ id: divisionMembers.divisionId })
+          .from(divisionMembers)
+          .where(eq(divisionMembers.userId, userId))
+      ));
+
+    return Array.from(new Set([
+      userId,
+      ...conversationPeers.map(peer => peer.userId),
+      ...divisionPeers.map(peer => peer.userId)
+    ]));
+  }
+}
+
+// Export singleton instance
+export const presenceService = new PresenceService();
+export default presenceService;
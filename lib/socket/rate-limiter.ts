@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { getSetting, SETTING_KEYS } from '@/lib/settings';
+import { clientEventSchemas, type ClientEventName } from '@/types/realtime';
+
+// Bucket of `capacity` tokens refilled at `refillPerSecond`; each event takes one
+export interface RateLimitRule {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitConfig {
+  events: Partial<Record<ClientEventName, RateLimitRule>>;
+  default: RateLimitRule; // Events without their own rule
+  maxViolations: number; // Rejected events tolerated within the window before disconnecting
+  violationWindowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  events: {
+    'message:send': { capacity: 10, refillPerSecond: 1 },
+    'message:typing:start': { capacity: 5, refillPerSecond: 1 },
+    'message:typing:stop': { capacity: 5, refillPerSecond: 1 },
+    'message:reaction:add': { capacity: 20, refillPerSecond: 2 },
+    'message:reaction:remove': { capacity: 20, refillPerSecond: 2 }
+  },
+  default: { capacity: 30, refillPerSecond: 5 },
+  maxViolations: 50,
+  violationWindowSeconds: 60
+};
+
+const rateLimitRuleSchema = z.object({
+  capacity: z.number().int().positive(),
+  refillPerSecond: z.number().positive()
+}).strict();
+
+// Value of the realtime.rate_limits setting: any part of RateLimitConfig
+export const rateLimitSettingSchema = z.object({
+  events: z.partialRecord(
+    z.enum(Object.keys(clientEventSchemas) as [ClientEventName, ...ClientEventName[]]),
+    rateLimitRuleSchema
+  ).optional(),
+  default: rateLimitRuleSchema.optional(),
+  maxViolations: z.number().int().positive().optional(),
+  violationWindowSeconds: z.number().int().positive().optional()
+}).strict();
+
+// Buckets idle for this long are full again and can be dropped
+const BUCKET_IDLE_MS = 10 * 60 * 1000;
+
+/**
+ * Rate limit configuration from the settings table, merged over the defaults
+ */
+export async function getRateLimitConfig(): Promise<RateLimitConfig> {
+  const parsed = rateLimitSettingSchema.safeParse(await getSetting<unknown>(SETTING_KEYS.socketRateLimits, {}));
+  if (!parsed.success) {
+    console.error('Invalid rate limit settings, using the defaults:', parsed.error.issues);
+    return DEFAULT_RATE_LIMITS;
+  }
+
+  const stored = parsed.data;
+  return {
+    ...DEFAULT_RATE_LIMITS,
+    ...stored,
+    events: { ...DEFAULT_RATE_LIMITS.events, ...stored.events }
+  };
+}
+
+/**
+ * Token-bucket limiter keyed by user and event. State is kept per node, so
+ * with several nodes a user gets each node's allowance.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>(); // userId:event -> bucket
+  private violations = new Map<string, number[]>(); // userId -> timestamps of rejected events
+
+  consume(userId: string, event: ClientEventName, config: RateLimitConfig): RateLimitResult {
+    const rule = config.events[event] ?? config.default;
+    const key = `${userId}:${event}`;
+    const now = Date.now();
+
+    const bucket = this.buckets.get(key) ?? { tokens: rule.capacity, updatedAt: now };
+    bucket.tokens = Math.min(rule.capacity, bucket.tokens + (now - bucket.updatedAt) / 1000 * rule.refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    return {
+      allowed: false,
+      retryAfterMs: Math.ceil((1 - bucket.tokens) / rule.refillPerSecond * 1000)
+    };
+  }
+
+  /**
+   * Record a rejected event. Returns the number of violations in the window.
+   */
+  recordViolation(userId: string, config: RateLimitConfig): number {
+    const now = Date.now();
+    const windowStart = now - config.violationWindowSeconds * 1000;
+    const recent = (this.violations.get(userId) ?? []).filter(time => time > windowStart);
+    recent.push(now);
+    this.violations.set(userId, recent);
+    return recent.length;
+  }
+
+  clearViolations(userId: string) {
+    this.violations.delete(userId);
+  }
+
+  // Drop state that no longer affects any decision
+  prune() {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (now - bucket.updatedAt > BUCKET_IDLE_MS) {
+        this.buckets.delete(key);
+      }
+    }
+    for (const [userId, times] of this.violations.entries()) {
+      if (now - times[times.length - 1] > BUCKET_IDLE_MS) {
+        this.violations.delete(userId);
+      }
+    }
+  }
+}
@@ -1,14 +1,29 @@
 import { Server, Socket } from 'socket.io';
 import type { Server as HTTPServer } from 'http';
-import jwt from 'jsonwebtoken';
 import { db } from '@/lib/db';
 import { eq, and } from 'drizzle-orm';
-import { users, conversations, conversationMembers } from '@/db/schema';
-import type {
-  ServerToClientEvents,
-  ClientToServerEvents,
-  InterServerEvents,
-  SocketData
+import { users, conversations, conversationMembers, auditLogs } from '@/db/schema';
+import { messageService, type MessagePayload, type SyncResult } from '@/lib/chat/message-service';
+import { reactionService } from '@/lib/chat/reaction-service';
+import { readService } from '@/lib/chat/read-service';
+import { chatErrorMessage } from '@/lib/chat/errors';
+import { validateAccessToken, isTokenBlacklisted, type JWTPayload } from '@/lib/auth/jwt-service';
+import { setSocketServer, emitToConversation, emitToUser, type TypedIO } from './broadcast';
+import { presenceService, PRESENCE_HEARTBEAT_MS } from './presence';
+import { RateLimiter, getRateLimitConfig } from './rate-limiter';
+import {
+  clientEventSchemas,
+  type ClientEventName,
+  type ClientEventArgs,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type ServerEventName,
+  type InterServerEvents,
+  type SocketData,
+  type PresenceStatus,
+  type MessageSendPayload,
+  type ReactionPayload,
+  type Ack
 } from '@/types/realtime';
 
 // Try to import Redis adapter, but don't fail if Redis is not available
@@ -23,24 +38,21 @@ try {
   console.warn('Redis adapter not available, running in single instance mode');
 }
 
-export type TypedIO = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
-
-// Socket.IO types
-interface AuthenticatedSocket extends Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData> {
-  userId: string;
-  user: {
-    id: string;
-    email: string;
-    name: string;
-    role: string;
-  };
-}
+type AuthenticatedSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// How often connected sockets are checked for expired or blacklisted tokens
+const AUTH_CHECK_INTERVAL_MS = 15 * 1000;
+
+// Clients are asked to refresh this long before their access token expires
+const AUTH_REFRESH_WINDOW_MS = 60 * 1000;
+
+const RATE_LIMIT_PRUNE_INTERVAL_MS = 5 * 60 * 1000;
 
 class SocketService {
   private io: TypedIO | null = null;
   private redisAdapter: any = null;
   private typingTimeouts = new Map<string, NodeJS.Timeout>();
-  private userSockets = new Map<string, Set<string>>(); // userId -> Set of socket IDs
+  private rateLimiter = new RateLimiter();
 
   async initialize(server: HTTPServer) {
     this.io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(server, {
@@ -56,6 +68,9 @@ class SocketService {
       pingInterval: 25000
     });
 
+    // Share the instance with API route handlers
+    setSocketServer(this.io);
+
     // Initialize Redis adapter
     await this.initializeRedisAdapter();
 
@@ -65,6 +80,16 @@ class SocketService {
     // Handle connections
     this.io.on('connection', this.handleConnection.bind(this));
 
+    // Long-lived connections must keep a valid access token
+    setInterval(() => this.checkSocketTokens(), AUTH_CHECK_INTERVAL_MS);
+
+    // Keep this node's sockets from being treated as stale by other nodes
+    setInterval(() => {
+      this.refreshPresence().catch(error => console.error('Failed to refresh presence:', error));
+    }, PRESENCE_HEARTBEAT_MS);
+
+    setInterval(() => this.rateLimiter.prune(), RATE_LIMIT_PRUNE_INTERVAL_MS);
+
     console.log('Socket.IO server initialized');
   }
 
@@ -86,6 +111,11 @@ class SocketService {
       this.redisAdapter = createAdapter(pubClient, subClient);
       this.io?.adapter(this.redisAdapter);
 
+      // Presence is shared between nodes through Redis as well
+      const presenceClient = pubClient.duplicate();
+      await presenceClient.connect();
+      presenceService.useRedis(presenceClient);
+
       console.log('Redis adapter initialized');
     } catch (error) {
       console.error('Failed to initialize Redis adapter:', error);
@@ -94,7 +124,10 @@ class SocketService {
     }
   }
 
-  private async authenticateSocket(socket: any, next: (err?: Error) => void) {
+  /**
+   * Authenticate the handshake with the same access tokens as the HTTP API
+   */
+  private async authenticateSocket(socket: AuthenticatedSocket, next: (err?: Error) => void) {
     try {
       const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.replace('Bearer ', '');
 
@@ -102,14 +135,12 @@ class SocketService {
         return next(new Error('Authentication token required'));
       }
 
-      // Verify JWT token
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) {
-        return next(new Error('JWT secret not configured'));
+      // Rejects expired, blacklisted and non-access tokens
+      const payload = await validateAccessToken(token);
+      if (!payload) {
+        return next(new Error('Invalid or expired token'));
       }
 
-      const decoded = jwt.verify(token, jwtSecret) as any;
-
       // Fetch user from database
       const user = await db.select({
         id: users.id,
@@ -119,7 +150,7 @@ class SocketService {
         isActive: users.isActive
       })
       .from(users)
-      .where(eq(users.id, decoded.userId))
+      .where(eq(users.id, payload.sub))
       .limit(1);
 
       if (!user.length || !user[0].isActive) {
@@ -127,14 +158,15 @@ class SocketService {
       }
 
       // Attach user data to socket
-      socket.userId = user[0].id;
-      socket.user = user[0];
-
-      // Track socket for this user
-      if (!this.userSockets.has(user[0].id)) {
-        this.userSockets.set(user[0].id, new Set());
-      }
-      this.userSockets.get(user[0].id)!.add(socket.id);
+      socket.data.userId = user[0].id;
+      socket.data.user = {
+        id: user[0].id,
+        email: user[0].email,
+        name: user[0].name,
+        role: user[0].role
+      };
+      this.setSocketToken(socket, payload);
+      socket.data.presence = 'online';
 
       next();
     } catch (error) {
@@ -143,14 +175,70 @@ class SocketService {
     }
   }
 
+  private setSocketToken(socket: AuthenticatedSocket, payload: JWTPayload) {
+    socket.data.auth = {
+      tokenId: payload.jti ?? null,
+      expiresAt: payload.exp * 1000,
+      expiryNotified: false
+    };
+  }
+
+  /**
+   * Swap the connection's access token for a rotated one without reconnecting
+   */
+  private async handleAuthRefresh(socket: AuthenticatedSocket, token: string, ack?: Ack<{ expiresAt: string }>) {
+    const payload = await validateAccessToken(token);
+
+    // The token must belong to the user the connection was opened for
+    if (!payload || payload.sub !== socket.data.userId) {
+      ack?.({ ok: false, error: 'Invalid or expired token' });
+      return;
+    }
+
+    this.setSocketToken(socket, payload);
+    ack?.({ ok: true, expiresAt: new Date(payload.exp * 1000).toISOString() });
+  }
+
+  /**
+   * Warn connections whose token is about to expire and disconnect the ones
+   * whose token has expired or was blacklisted (e.g. on logout)
+   */
+  private checkSocketTokens() {
+    if (!this.io) return;
+
+    const now = Date.now();
+
+    for (const socket of this.io.sockets.sockets.values()) {
+      const auth = socket.data.auth;
+      if (!auth) continue;
+
+      const revoked = auth.tokenId !== null && isTokenBlacklisted(auth.tokenId);
+      if (revoked || auth.expiresAt <= now) {
+        socket.emit('error', {
+          message: revoked ? 'Access token revoked' : 'Access token expired',
+          code: revoked ? 'TOKEN_REVOKED' : 'TOKEN_EXPIRED'
+        });
+        socket.disconnect(true);
+        continue;
+      }
+
+      if (!auth.expiryNotified && auth.expiresAt - now <= AUTH_REFRESH_WINDOW_MS) {
+        auth.expiryNotified = true;
+        socket.emit('auth:expiring', { expiresAt: new Date(auth.expiresAt).toISOString() });
+      }
+    }
+  }
+
   private handleConnection(socket: AuthenticatedSocket) {
-    console.log(`User ${socket.user.name} connected: ${socket.id}`);
+    console.log(`User ${socket.data.user.name} connected: ${socket.id}`);
 
     // Join user to their personal room for presence
-    socket.join(`user:${socket.userId}`);
+    socket.join(`user:${socket.data.userId}`);
 
-    // Broadcast user online status
-    this.broadcastPresence(socket.userId, 'online');
+    // Broadcast user online status and send the presence of their contacts
+    this.setPresence(socket, 'online')
+      .then(() => this.sendPresenceSnapshot(socket))
+      .catch(error => console.error('Error updating presence:', error));
 
     // Register event handlers
     this.registerEventHandlers(socket);
@@ -161,60 +249,158 @@ class SocketService {
 
   private registerEventHandlers(socket: AuthenticatedSocket) {
     // Conversation management
-    socket.on('join:conversation', async (conversationId: string) => {
-      await this.handleJoinConversation(socket, conversationId);
+    this.on(socket, 'join:conversation', async ([conversationId], ack) => {
+      await this.handleJoinConversation(socket, conversationId, ack);
     });
 
-    socket.on('leave:conversation', async (conversationId: string) => {
+    this.on(socket, 'leave:conversation', async ([conversationId]) => {
       await this.handleLeaveConversation(socket, conversationId);
     });
 
     // Messaging
-    socket.on('message:send', async (data) => {
-      await this.handleMessageSend(socket, data);
+    this.on(socket, 'message:send', async ([data], ack) => {
+      await this.handleMessageSend(socket, data, ack);
     });
 
-    socket.on('message:typing:start', (conversationId: string) => {
+    this.on(socket, 'message:typing:start', ([conversationId]) => {
       this.handleTypingStart(socket, conversationId);
     });
 
-    socket.on('message:typing:stop', (conversationId: string) => {
+    this.on(socket, 'message:typing:stop', ([conversationId]) => {
       this.handleTypingStop(socket, conversationId);
     });
 
     // Presence
-    socket.on('presence:update', (status: 'online' | 'away' | 'offline') => {
-      this.broadcastPresence(socket.userId, status);
+    this.on(socket, 'presence:update', async ([status]) => {
+      await this.setPresence(socket, status);
     });
 
     // Reactions
-    socket.on('message:reaction:add', async (data) => {
-      await this.handleReactionAdd(socket, data);
+    this.on(socket, 'message:reaction:add', async ([data], ack) => {
+      await this.handleReactionAdd(socket, data, ack);
+    });
+
+    this.on(socket, 'message:reaction:remove', async ([data], ack) => {
+      await this.handleReactionRemove(socket, data, ack);
     });
 
-    socket.on('message:reaction:remove', async (data) => {
-      await this.handleReactionRemove(socket, data);
+    // Resync after reconnecting
+    this.on(socket, 'sync:since', async ([conversationId, sinceSeq], ack) => {
+      await this.handleSyncSince(socket, conversationId, sinceSeq, ack);
     });
 
     // Read receipts
-    socket.on('conversation:read', async (conversationId: string) => {
-      await this.handleConversationRead(socket, conversationId);
+    this.on(socket, 'conversation:read', async ([conversationId, messageId]) => {
+      await this.handleConversationRead(socket, conversationId, messageId ?? undefined);
+    });
+
+    // Authentication
+    this.on(socket, 'auth:refresh', async ([token], ack) => {
+      await this.handleAuthRefresh(socket, token, ack);
+    });
+  }
+
+  /**
+   * Register a client event handler. Events over the user's rate limit and
+   * arguments that fail the event's schema are rejected with a structured
+   * `error` event (and a failed ack when the client asked for one).
+   */
+  private on<E extends ClientEventName>(
+    socket: AuthenticatedSocket,
+    event: E,
+    handler: (args: ClientEventArgs<E>, ack?: Ack) => void | Promise<void>
+  ) {
+    // Listeners receive raw arguments, so the untyped socket API is used here
+    (socket as unknown as Socket).on(event as string, async (...args: unknown[]) => {
+      const ack = typeof args[args.length - 1] === 'function'
+        ? args.pop() as Ack
+        : undefined;
+
+      if (!(await this.checkRateLimit(socket, event))) {
+        ack?.({ ok: false, error: 'Rate limit exceeded' });
+        return;
+      }
+
+      const result = clientEventSchemas[event].safeParse(args);
+      if (!result.success) {
+        ack?.({ ok: false, error: 'Invalid payload' });
+        socket.emit('error', {
+          message: 'Invalid payload',
+          code: 'INVALID_PAYLOAD',
+          event,
+          details: result.error.issues
+        });
+        return;
+      }
+
+      try {
+        await handler(result.data as ClientEventArgs<E>, ack);
+      } catch (error) {
+        console.error(`Error handling ${event}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Take a token for the event. Rejected events get a RATE_LIMITED error and
+   * sockets that keep going over the limit are disconnected.
+   */
+  private async checkRateLimit(socket: AuthenticatedSocket, event: ClientEventName): Promise<boolean> {
+    const userId = socket.data.userId;
+    const config = await getRateLimitConfig();
+
+    const { allowed, retryAfterMs } = this.rateLimiter.consume(userId, event, config);
+    if (allowed) return true;
+
+    socket.emit('error', {
+      message: 'Rate limit exceeded',
+      code: 'RATE_LIMITED',
+      event,
+      details: { retryAfterMs }
     });
+
+    const violations = this.rateLimiter.recordViolation(userId, config);
+    if (violations >= config.maxViolations) {
+      this.rateLimiter.clearViolations(userId);
+      socket.disconnect(true);
+
+      console.warn(`Disconnected ${socket.data.user.name} (${userId}) for exceeding socket rate limits`);
+      await db.insert(auditLogs).values({
+        actorId: userId,
+        action: 'socket.rate_limited',
+        target: `user:${userId}`,
+        metadata: {
+          event,
+          violations,
+          windowSeconds: config.violationWindowSeconds,
+          socketId: socket.id
+        },
+        ipAddress: socket.handshake.address || 'unknown',
+        userAgent: socket.handshake.headers['user-agent'] || 'unknown'
+      }).catch(error => console.error('Failed to write rate limit audit log:', error));
+    }
+
+    return false;
   }
 
-  private async handleJoinConversation(socket: AuthenticatedSocket, conversationId: string) {
+  private async handleJoinConversation(
+    socket: AuthenticatedSocket,
+    conversationId: string,
+    ack?: Ack<{ lastSeq: number }>
+  ) {
     try {
       // Verify user is member of conversation
       const membership = await db.select()
         .from(conversationMembers)
         .where(and(
           eq(conversationMembers.conversationId, conversationId),
-          eq(conversationMembers.userId, socket.userId),
+          eq(conversationMembers.userId, socket.data.userId),
           eq(conversationMembers.hasLeft, false)
         ))
         .limit(1);
 
       if (!membership.length) {
+        ack?.({ ok: false, error: 'Not a member of this conversation' });
         socket.emit('error', { message: 'Not a member of this conversation' });
         return;
       }
@@ -222,57 +408,56 @@ class SocketService {
       // Join socket to conversation room
       socket.join(`conversation:${conversationId}`);
 
-      // Notify others in conversation that user is online
-      socket.to(`conversation:${conversationId}`).emit('presence:user', {
-        userId: socket.userId,
-        status: 'online'
-      });
+      // Clients compare this with the last sequence number they saw to resync
+      const [conversation] = await db.select({ lastSeq: conversations.lastSeq })
+        .from(conversations)
+        .where(eq(conversations.id, conversationId))
+        .limit(1);
+
+      ack?.({ ok: true, lastSeq: conversation?.lastSeq ?? 0 });
 
-      console.log(`User ${socket.user.name} joined conversation ${conversationId}`);
+      console.log(`User ${socket.data.user.name} joined conversation ${conversationId}`);
     } catch (error) {
       console.error('Error joining conversation:', error);
+      ack?.({ ok: false, error: 'Failed to join conversation' });
       socket.emit('error', { message: 'Failed to join conversation' });
     }
   }
 
   private async handleLeaveConversation(socket: AuthenticatedSocket, conversationId: string) {
     socket.leave(`conversation:${conversationId}`);
-    socket.to(`conversation:${conversationId}`).emit('presence:user', {
-      userId: socket.userId,
-      status: 'offline'
-    });
   }
 
-  private async handleMessageSend(socket: AuthenticatedSocket, data: {
-    conversationId: string;
-    content: any;
-    replyToId?: string;
-    attachments?: string[];
-  }) {
+  private async handleMessageSend(
+    socket: AuthenticatedSocket,
+    data: MessageSendPayload,
+    ack?: Ack<{ message: MessagePayload }>
+  ) {
     try {
-      // This would typically save to database and broadcast
-      // For now, we'll emit to the conversation room
-      socket.to(`conversation:${data.conversationId}`).emit('message:new', {
-        id: crypto.randomUUID(),
-        conversationId: data.conversationId,
-        senderId: socket.userId,
-        senderName: socket.user.name,
-        content: data.content,
-        replyToId: data.replyToId,
-        attachments: data.attachments,
-        createdAt: new Date().toISOString()
+      const { conversationId } = data;
+
+      // Persist and broadcast through the shared message pipeline
+      const message = await messageService.createMessage({
+        ...data,
+        senderId: socket.data.userId
       });
 
+      ack?.({ ok: true, message });
+
       // Stop typing indicator
-      this.handleTypingStop(socket, data.conversationId);
+      this.handleTypingStop(socket, conversationId);
     } catch (error) {
       console.error('Error sending message:', error);
-      socket.emit('error', { message: 'Failed to send message' });
+      ack?.({ ok: false, error: chatErrorMessage(error, 'Failed to send message') });
+      socket.emit('error', { message: 'Failed to send message', event: 'message:send' });
     }
   }
 
   private handleTypingStart(socket: AuthenticatedSocket, conversationId: string) {
-    const key = `${socket.userId}:${conversationId}`;
+    // Only sockets that joined the room (and were not removed from it) may type
+    if (!socket.rooms.has(`conversation:${conversationId}`)) return;
+
+    const key = `${socket.data.userId}:${conversationId}`;
 
     // Clear existing timeout
     const existingTimeout = this.typingTimeouts.get(key);
@@ -290,14 +475,14 @@ class SocketService {
     // Broadcast typing indicator
     socket.to(`conversation:${conversationId}`).emit('typing:user', {
       conversationId,
-      userId: socket.userId,
-      userName: socket.user.name,
+      userId: socket.data.userId,
+      userName: socket.data.user.name,
       isTyping: true
     });
   }
 
   private handleTypingStop(socket: AuthenticatedSocket, conversationId: string) {
-    const key = `${socket.userId}:${conversationId}`;
+    const key = `${socket.data.userId}:${conversationId}`;
 
     // Clear timeout
     const timeout = this.typingTimeouts.get(key);
@@ -309,83 +494,118 @@ class SocketService {
     // Broadcast stop typing
     socket.to(`conversation:${conversationId}`).emit('typing:user', {
       conversationId,
-      userId: socket.userId,
-      userName: socket.user.name,
+      userId: socket.data.userId,
+      userName: socket.data.user.name,
       isTyping: false
     });
   }
 
-  private async handleReactionAdd(socket: AuthenticatedSocket, data: { messageId: string; emoji: string }) {
+  private async handleReactionAdd(
+    socket: AuthenticatedSocket,
+    data: ReactionPayload,
+    ack?: Ack
+  ) {
     try {
-      // This would save to database
-      // Broadcast to conversation members
-      socket.to(`conversation:${data.messageId}`).emit('message:reaction', {
-        messageId: data.messageId,
-        userId: socket.userId,
-        emoji: data.emoji,
-        action: 'add'
-      });
+      await reactionService.addReaction({ messageId: data.messageId, userId: socket.data.userId, emoji: data.emoji });
+      ack?.({ ok: true });
     } catch (error) {
       console.error('Error adding reaction:', error);
-      socket.emit('error', { message: 'Failed to add reaction' });
+      ack?.({ ok: false, error: chatErrorMessage(error, 'Failed to add reaction') });
+      socket.emit('error', { message: 'Failed to add reaction', event: 'message:reaction:add' });
     }
   }
 
-  private async handleReactionRemove(socket: AuthenticatedSocket, data: { messageId: string; emoji: string }) {
+  private async handleReactionRemove(
+    socket: AuthenticatedSocket,
+    data: ReactionPayload,
+    ack?: Ack
+  ) {
     try {
-      // This would remove from database
-      socket.to(`conversation:${data.messageId}`).emit('message:reaction', {
-        messageId: data.messageId,
-        userId: socket.userId,
-        emoji: data.emoji,
-        action: 'remove'
-      });
+      await reactionService.removeReaction({ messageId: data.messageId, userId: socket.data.userId, emoji: data.emoji });
+      ack?.({ ok: true });
     } catch (error) {
       console.error('Error removing reaction:', error);
-      socket.emit('error', { message: 'Failed to remove reaction' });
+      ack?.({ ok: false, error: chatErrorMessage(error, 'Failed to remove reaction') });
+      socket.emit('error', { message: 'Failed to remove reaction', event: 'message:reaction:remove' });
     }
   }
 
-  private async handleConversationRead(socket: AuthenticatedSocket, conversationId: string) {
+  private async handleSyncSince(
+    socket: AuthenticatedSocket,
+    conversationId: string,
+    sinceSeq: number,
+    ack?: Ack<SyncResult>
+  ) {
     try {
-      // This would update last read message in database
-      // Broadcast to other members
-      socket.to(`conversation:${conversationId}`).emit('conversation:read', {
+      const result = await messageService.syncSince({
         conversationId,
-        userId: socket.userId,
-        lastReadMessageId: 'some-id' // This would come from database
+        userId: socket.data.userId,
+        sinceSeq
       });
+      ack?.({ ok: true, ...result });
+    } catch (error) {
+      console.error('Error syncing messages:', error);
+      ack?.({ ok: false, error: chatErrorMessage(error, 'Failed to sync messages') });
+    }
+  }
+
+  private async handleConversationRead(socket: AuthenticatedSocket, conversationId: string, messageId?: string) {
+    try {
+      // Persist the read position; the receipt is broadcast by the read service
+      await readService.markRead(conversationId, socket.data.userId, messageId);
     } catch (error) {
       console.error('Error marking conversation as read:', error);
     }
   }
 
-  private broadcastPresence(userId: string, status: 'online' | 'away' | 'offline') {
-    this.io?.emit('presence:user', {
+  /**
+   * Update the socket's status and, when the user's overall status changes,
+   * tell the users who share a conversation or division with them
+   */
+  private async setPresence(socket: AuthenticatedSocket, status: PresenceStatus) {
+    socket.data.presence = status;
+
+    const userStatus = await presenceService.setSocketStatus(socket.data.userId, socket.id, status);
+    if (userStatus) {
+      await this.broadcastPresence(socket.data.userId, userStatus);
+    }
+  }
+
+  private async broadcastPresence(userId: string, status: PresenceStatus) {
+    const audience = await presenceService.getAudience(userId);
+
+    this.io?.to(audience.map(id => `user:${id}`)).emit('presence:user', {
       userId,
       status,
       lastSeen: status === 'offline' ? new Date().toISOString() : undefined
     });
   }
 
-  private handleDisconnection(socket: AuthenticatedSocket) {
-    console.log(`User ${socket.user.name} disconnected: ${socket.id}`);
+  private async sendPresenceSnapshot(socket: AuthenticatedSocket) {
+    const audience = await presenceService.getAudience(socket.data.userId);
+    socket.emit('presence:snapshot', await presenceService.getPresence(audience));
+  }
 
-    // Remove socket from user tracking
-    const userSockets = this.userSockets.get(socket.userId);
-    if (userSockets) {
-      userSockets.delete(socket.id);
+  private async refreshPresence() {
+    if (!this.io) return;
 
-      // If user has no more active sockets, broadcast offline status
-      if (userSockets.size === 0) {
-        this.userSockets.delete(socket.userId);
-        this.broadcastPresence(socket.userId, 'offline');
-      }
-    }
+    await presenceService.refreshSockets(Array.from(this.io.sockets.sockets.values(), socket => ({
+      userId: socket.data.userId,
+      socketId: socket.id,
+      status: socket.data.presence
+    })));
+  }
+
+  private handleDisconnection(socket: AuthenticatedSocket) {
+    console.log(`User ${socket.data.user.name} disconnected: ${socket.id}`);
+
+    // Broadcasts offline status once the user has no other active sockets
+    this.setPresence(socket, 'offline')
+      .catch(error => console.error('Error updating presence:', error));
 
     // Clean up typing timeouts
     for (const [key, timeout] of this.typingTimeouts.entries()) {
-      if (key.startsWith(`${socket.userId}:`)) {
+      if (key.startsWith(`${socket.data.userId}:`)) {
         clearTimeout(timeout);
         this.typingTimeouts.delete(key);
       }
@@ -393,20 +613,21 @@ class SocketService {
   }
 
   // Public methods for external use
-  emitToUser(userId: string, event: string, data: any) {
-    this.io?.to(`user:${userId}`).emit(event as any, data);
+  emitToUser<E extends ServerEventName>(userId: string, event: E, ...args: Parameters<ServerToClientEvents[E]>) {
+    emitToUser(userId, event, ...args);
   }
 
-  emitToConversation(conversationId: string, event: string, data: any) {
-    this.io?.to(`conversation:${conversationId}`).emit(event as any, data);
+  emitToConversation<E extends ServerEventName>(conversationId: string, event: E, ...args: Parameters<ServerToClientEvents[E]>) {
+    emitToConversation(conversationId, event, ...args);
   }
 
-  getOnlineUserIds(): string[] {
-    return Array.from(this.userSockets.keys());
+  // Presence across all nodes
+  getOnlineUserIds(): Promise<string[]> {
+    return presenceService.getOnlineUserIds();
   }
 
-  isUserOnline(userId: string): boolean {
-    return this.userSockets.has(userId);
+  isUserOnline(userId: string): Promise<boolean> {
+    return presenceService.isUserOnline(userId);
   }
 }
 
@@ -3,6 +3,7 @@ import { db } from '@/lib/db';
 import { attachments } from '@/db/schema';
 import { eq, like } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
+import type { Readable } from 'stream';
 
 export interface FileUploadOptions {
   bucket?: string;
@@ -249,6 +250,36 @@ class MinioService {
     }
   }
 
+  // Store a server-generated object (e.g. an export archive), streamed when the size is unknown
+  async putObject(key: string, body: Readable | Buffer | string, contentType: string): Promise<void> {
+    await this.initialize();
+    if (!this.client) throw new Error('MinIO client not initialized');
+
+    await this.client.putObject(this.defaultBucket, key, body, undefined, { 'Content-Type': contentType });
+  }
+
+  async generatePresignedObjectUrl(
+    key: string,
+    filename: string,
+    expiresIn: number = 60 * 60 // 1 hour default
+  ): Promise<string> {
+    await this.initialize();
+    if (!this.client) throw new Error('MinIO client not initialized');
+
+    return this.client.presignedGetObject(this.defaultBucket, key, expiresIn, {
+      'response-content-disposition': `attachment; filename="${filename.replace(/"/g, '')}"`
+    });
+  }
+
+  async removeObjects(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    await this.initialize();
+    if (!this.client) throw new Error('MinIO client not initialized');
+
+    await this.client.removeObjects(this.defaultBucket, keys);
+  }
+
   async deleteFile(fileId: string, userId: string): Promise<void> {
     await this.initialize();
     if (!this.client) throw new Error('MinIO client not initialized');
@@ -0,0 +1,209 @@
+import { z } from "zod";
+
+// Must be in the future when submitted
+const futureDate = z.coerce.date().refine(date => date.getTime() > Date.now(), "Time must be in the future");
+
+// Poll posted along with a message
+export const pollSchema = z.object({
+  question: z.string().trim().min(1, "Question is required").max(300, "Question is too long"),
+  options: z.array(z.string().trim().min(1, "Option is required").max(100, "Option is too long"))
+    .min(2, "A poll needs at least two options")
+    .max(10, "Too many options")
+    .refine(options => new Set(options).size === options.length, "Options must be unique"),
+  allowsMultiple: z.boolean().default(false),
+  isAnonymous: z.boolean().default(false),
+  closesAt: futureDate.optional()
+});
+
+// Message send schema (shared by REST and Socket.IO)
+export const sendMessageSchema = z.object({
+  content: z.union([
+    z.string().min(1, "Message content is required"),
+    z.record(z.string(), z.unknown())
+  ]),
+  replyToId: z.string().uuid().optional().nullable(),
+  attachments: z.array(z.string().uuid()).max(20, "Too many attachments").optional(),
+  clientId: z.string().min(1).max(100).optional(), // Idempotency ID, retries reuse it
+  poll: pollSchema.optional()
+});
+
+// Message edit schema
+export const editMessageSchema = sendMessageSchema.pick({ content: true });
+
+// Reaction schema
+export const reactionSchema = z.object({
+  emoji: z.string().trim().min(1, "Emoji is required").max(64, "Emoji is too long")
+});
+
+// Mark as read schema, defaults to the latest message
+export const markReadSchema = z.object({
+  messageId: z.string().uuid().optional()
+});
+
+// Message history query schema (cursor-based pagination)
+export const listMessagesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().min(1).optional(),
+  direction: z.enum(["backward", "forward"]).default("backward"),
+  before: z.string().uuid().optional(),
+  after: z.string().uuid().optional(),
+  around: z.string().uuid().optional()
+});
+
+// Thread replies query schema
+export const listThreadQuerySchema = listMessagesQuerySchema.pick({ limit: true, cursor: true });
+
+// Mentions feed query schema
+export const listMentionsQuerySchema = listMessagesQuerySchema.pick({ limit: true, cursor: true });
+
+// Query string flag, "true" or "false"
+const booleanFlag = z.enum(["true", "false"]).transform(value => value === "true");
+
+// Message search query schema
+export const searchMessagesQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200, "Search query is too long"),
+  senderId: z.string().uuid().optional(),
+  conversationId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  hasAttachment: booleanFlag.optional(),
+  inThread: booleanFlag.optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Group administration schemas
+export const addMembersSchema = z.object({
+  userIds: z.array(z.string().uuid()).min(1, "At least one user is required").max(100, "Too many users")
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(["ADMIN", "MEMBER"])
+});
+
+export const updateConversationSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(100, "Title is too long").optional(),
+  avatarUrl: z.string().url().nullable().optional()
+}).refine(data => data.title !== undefined || data.avatarUrl !== undefined, {
+  message: "Nothing to update"
+});
+
+// Schedule a message to be sent later
+export const scheduleMessageSchema = sendMessageSchema.omit({ clientId: true, poll: true }).extend({
+  sendAt: futureDate
+});
+
+export const updateScheduledMessageSchema = z.object({
+  content: sendMessageSchema.shape.content.optional(),
+  sendAt: futureDate.optional()
+}).refine(data => data.content !== undefined || data.sendAt !== undefined, {
+  message: "Nothing to update"
+});
+
+// Save a message, optionally with a note and a reminder
+export const saveMessageSchema = z.object({
+  note: z.string().trim().max(500, "Note is too long").nullable().optional(),
+  remindAt: futureDate.nullable().optional()
+});
+
+// Per-member notification settings of a conversation
+export const updateNotificationSettingsSchema = z.object({
+  notificationLevel: z.enum(["ALL", "MENTIONS", "NOTHING"]).optional(),
+  mutedUntil: futureDate.nullable().optional() // null ends a snooze
+}).refine(data => data.notificationLevel !== undefined || data.mutedUntil !== undefined, {
+  message: "Nothing to update"
+});
+
+// Conversation export request
+export const createExportSchema = z.object({
+  format: z.enum(["JSON", "MARKDOWN", "HTML"])
+});
+
+// Retention rule of a conversation type: days === null keeps messages forever.
+// ARCHIVE writes expired messages to MinIO before removing them.
+const retentionRuleSchema = z.object({
+  days: z.number().int().positive().nullable(),
+  action: z.enum(["DELETE", "ARCHIVE"]).default("DELETE")
+});
+
+const retentionRulesSchema = z.object({
+  DM: retentionRuleSchema.optional(),
+  GROUP: retentionRuleSchema.optional(),
+  PROJECT: retentionRuleSchema.optional()
+});
+
+// Value of the chat.retention_policy setting
+export const retentionPolicySchema = z.object({
+  types: retentionRulesSchema.default({}),
+  divisions: z.record(z.string().uuid(), retentionRulesSchema).default({}), // Overrides per division ID
+  dryRun: z.boolean().default(false) // The job only reports what it would remove
+});
+
+export const legalHoldSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500, "Reason is too long")
+});
+
+// Votes replace the user's previous votes; an empty list retracts them
+export const pollVoteSchema = z.object({
+  optionIds: z.array(z.string().uuid()).max(10, "Too many options")
+});
+
+// Forward messages into a conversation, optionally after a comment
+export const forwardMessagesSchema = z.object({
+  messageIds: z.array(z.string().uuid()).min(1, "Select messages to forward").max(20, "Too many messages"),
+  comment: z.string().trim().max(4000, "Comment is too long").optional(),
+  clientId: z.string().min(1).max(100).optional() // Idempotency ID, retries reuse it
+});
+
+// Slash command names: lowercase, without the leading slash
+const commandNameSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, "Invalid command name");
+
+// Run a slash command typed in the composer ("/name text")
+export const runCommandSchema = z.object({
+  command: z.string().trim().toLowerCase().pipe(commandNameSchema),
+  text: z.string().max(4000, "Command text is too long").default(""),
+  clientId: z.string().min(1).max(100).optional() // Idempotency ID for messages the command posts
+});
+
+// Register a third-party bot and its commands
+export const registerBotSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().trim().max(500, "Description is too long").optional(),
+  webhookUrl: z.string().url("Invalid webhook URL").refine(url => /^https?:\/\//.test(url), "Webhook URL must use HTTP(S)"),
+  commands: z.array(z.object({
+    name: commandNameSchema,
+    description: z.string().trim().min(1, "Description is required").max(200, "Description is too long"),
+    usage: z.string().trim().max(100, "Usage is too long").optional()
+  }))
+    .min(1, "A bot needs at least one command")
+    .max(20, "Too many commands")
+    .refine(commands => new Set(commands.map(command => command.name)).size === commands.length, "Command names must be unique")
+});
+
+// What a bot's webhook answers; in_channel replies are posted as the sender
+export const botCommandResponseSchema = z.object({
+  text: z.string().min(1).max(4000),
+  responseType: z.enum(["ephemeral", "in_channel"]).default("ephemeral")
+});
+
+// Saved items query schema
+export const listSavedItemsQuerySchema = listMessagesQuerySchema.pick({ limit: true, cursor: true });
+
+// Types inferred from schemas
+export type SendMessageInput = z.infer<typeof sendMessageSchema>;
+export type EditMessageInput = z.infer<typeof editMessageSchema>;
+export type ReactionInput = z.infer<typeof reactionSchema>;
+export type MarkReadInput = z.infer<typeof markReadSchema>;
+export type ListMessagesQuery = z.infer<typeof listMessagesQuerySchema>;
+export type SearchMessagesQuery = z.infer<typeof searchMessagesQuerySchema>;
+export type ScheduleMessageInput = z.infer<typeof scheduleMessageSchema>;
+export type UpdateScheduledMessageInput = z.infer<typeof updateScheduledMessageSchema>;
+export type SaveMessageInput = z.infer<typeof saveMessageSchema>;
+export type UpdateConversationInput = z.infer<typeof updateConversationSchema>;
+export type PollInput = z.infer<typeof pollSchema>;
+export type ForwardMessagesInput = z.infer<typeof forwardMessagesSchema>;
+export type RunCommandInput = z.infer<typeof runCommandSchema>;
+export type RegisterBotInput = z.infer<typeof registerBotSchema>;
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
+export type RetentionRule = z.infer<typeof retentionRuleSchema>;
+export type UpdateNotificationSettingsInput = z.infer<typeof updateNotificationSettingsSchema>;
@@ -0,0 +1,58 @@
+// Regenerate messages.body_plain from body_rich (and poll options) for existing rows.
+// Usage: npm run db:backfill-body-plain [-- --dry-run]
+
+import { db } from '@/lib/db';
+import { asc, eq, gt, isNull, and } from 'drizzle-orm';
+import { messages } from '@/db/schema';
+import { buildMessagePlainText } from '@/lib/chat/rich-text';
+import { pollService } from '@/lib/chat/poll-service';
+
+const BATCH_SIZE = 500;
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  let lastId: string | null = null;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const batch: { id: string; bodyRich: unknown; bodyPlain: string }[] = await db.select({
+      id: messages.id,
+      bodyRich: messages.bodyRich,
+      bodyPlain: messages.bodyPlain
+    })
+      .from(messages)
+      // Deleted messages keep an empty body
+      .where(lastId ? and(isNull(messages.deletedAt), gt(messages.id, lastId)) : isNull(messages.deletedAt))
+      .orderBy(asc(messages.id))
+      .limit(BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    const pollOptions = await pollService.getOptionTexts(batch.map(message => message.id));
+
+    for (const message of batch) {
+      // Built like the message pipeline does, so poll options stay searchable
+      const bodyPlain = await buildMessagePlainText(message.bodyRich, pollOptions.get(message.id));
+      if (bodyPlain === message.bodyPlain) continue;
+
+      updated++;
+      if (!dryRun) {
+        await db.update(messages).set({ bodyPlain }).where(eq(messages.id, message.id));
+      }
+    }
+
+    scanned += batch.length;
+    lastId = batch[batch.length - 1].id;
+    console.log(`Scanned ${scanned} messages, ${updated} ${dryRun ? 'to update' : 'updated'}`);
+  }
+
+  console.log(dryRun ? `Dry run: ${updated} messages would be updated` : `Done: ${updated} messages updated`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  });
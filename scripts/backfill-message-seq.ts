@@ -0,0 +1,63 @@
+// Number messages stored before per-conversation sequence numbers existed
+// (seq = 0). Each affected conversation is renumbered in created order, with
+// its already numbered messages after them, and its last_seq is updated.
+// Clients holding old sequence numbers of those conversations resync them.
+// Usage: npm run db:backfill-message-seq [-- --dry-run]
+
+import { db } from '@/lib/db';
+import { eq, count, sql } from 'drizzle-orm';
+import { conversations, messages } from '@/db/schema';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  const pending = await db.select({ conversationId: messages.conversationId, unnumbered: count() })
+    .from(messages)
+    .where(eq(messages.seq, 0))
+    .groupBy(messages.conversationId);
+
+  let renumbered = 0;
+
+  for (const { conversationId, unnumbered } of pending) {
+    if (!dryRun) {
+      await db.transaction(async (tx) => {
+        // Sends take the same row lock, so no message is numbered meanwhile
+        await tx.select({ id: conversations.id })
+          .from(conversations)
+          .where(eq(conversations.id, conversationId))
+          .for('update');
+
+        await tx.execute(sql`
+          with numbered as (
+            select id, row_number() over (order by seq > 0, seq, created_at, id) as seq
+            from ${messages}
+            where conversation_id = ${conversationId}
+          )
+          update ${messages} m set seq = numbered.seq
+          from numbered
+          where m.id = numbered.id
+        `);
+
+        await tx.update(conversations)
+          .set({
+            lastSeq: sql`(select coalesce(max(m.seq), 0) from ${messages} m where m.conversation_id = ${conversationId})`
+          })
+          .where(eq(conversations.id, conversationId));
+      });
+    }
+
+    renumbered += unnumbered;
+    console.log(`Conversation ${conversationId}: ${unnumbered} messages ${dryRun ? 'to number' : 'numbered'}`);
+  }
+
+  console.log(dryRun
+    ? `Dry run: ${renumbered} messages in ${pending.length} conversations would be numbered`
+    : `Done: ${renumbered} messages in ${pending.length} conversations numbered`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  });
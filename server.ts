@@ -2,6 +2,7 @@ import { createServer } from 'http';
 import { parse } from 'url';
 import next from 'next';
 import { socketService } from './lib/socket/server';
+import { startBackgroundJobs } from './lib/jobs';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOST || 'localhost';
@@ -32,6 +33,9 @@ app.prepare().then(() => {
     console.error('Failed to initialize Socket.IO:', error);
   });
 
+  // Reminders and other periodic work
+  startBackgroundJobs();
+
   server
     .once('error', (err) => {
       console.error(err);
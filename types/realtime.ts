@@ -1,15 +1,177 @@
-export interface ServerToClientEvents {
-  "message:new": { conversationId: string; messageId: string };
-  "typing": { conversationId: string; userId: string; isTyping: boolean };
-  "presence:update": { userId: string; status: "online" | "away" | "offline" };
-  "read:receipt": { conversationId: string; messageId: string; userId: string };
-}
+import { z } from "zod";
+import { sendMessageSchema, reactionSchema } from "@/lib/validations/chat";
+import type { MessagePayload, SyncResult } from "@/lib/chat/message-service";
+import type { ReactionEvent } from "@/lib/chat/reaction-service";
+import type { ReadReceipt } from "@/lib/chat/read-service";
+import type { ConversationMember } from "@/lib/chat/conversation-service";
+import type { PinnedMessage } from "@/lib/chat/pin-service";
+import type { ScheduledMessage } from "@/lib/chat/scheduled-message-service";
+import type { NotificationSettings } from "@/lib/chat/notification-settings-service";
+import type { ConversationExport } from "@/lib/chat/export-service";
+import type { PollSummary } from "@/lib/chat/poll-service";
+import type { notifications } from "@/db/schema";
+
+// Realtime event contract shared by the Socket.IO server and client.
+// Client-to-server events are validated at runtime against
+// `clientEventSchemas`; each schema describes the event's argument list
+// (without the optional ack callback).
+
+const conversationIdSchema = z.string().uuid();
+
+export const presenceStatusSchema = z.enum(["online", "away", "offline"]);
+
+export const messageSendPayloadSchema = sendMessageSchema.extend({
+  conversationId: conversationIdSchema
+});
+
+export const reactionPayloadSchema = reactionSchema.extend({
+  messageId: z.string().uuid()
+});
+
+export const clientEventSchemas = {
+  "join:conversation": z.tuple([conversationIdSchema]),
+  "leave:conversation": z.tuple([conversationIdSchema]),
+  "message:send": z.tuple([messageSendPayloadSchema]),
+  "message:typing:start": z.tuple([conversationIdSchema]),
+  "message:typing:stop": z.tuple([conversationIdSchema]),
+  "presence:update": z.tuple([presenceStatusSchema]),
+  "message:reaction:add": z.tuple([reactionPayloadSchema]),
+  "message:reaction:remove": z.tuple([reactionPayloadSchema]),
+  // Socket.IO sends an omitted trailing argument as null
+  "conversation:read": z.tuple([conversationIdSchema, z.string().uuid().nullish()]),
+  "sync:since": z.tuple([conversationIdSchema, z.number().int().min(0)]),
+  "auth:refresh": z.tuple([z.string().min(1)])
+};
+
+export type ClientEventName = keyof typeof clientEventSchemas;
+export type ClientEventArgs<E extends ClientEventName> = z.infer<(typeof clientEventSchemas)[E]>;
+
+export type PresenceStatus = z.infer<typeof presenceStatusSchema>;
+export type MessageSendPayload = z.infer<typeof messageSendPayloadSchema>;
+export type ReactionPayload = z.infer<typeof reactionPayloadSchema>;
+
+// Acknowledgement passed as the last argument of request-style events
+export type AckResponse<T extends object = object> = ({ ok: true } & T) | { ok: false; error: string };
+export type Ack<T extends object = object> = (response: AckResponse<T>) => void;
 
 export interface ClientToServerEvents {
-  "typing": { conversationId: string; isTyping: boolean };
-  "join:conversation": { conversationId: string };
-  "leave:conversation": { conversationId: string };
+  // Acks with the conversation's latest sequence number
+  "join:conversation": (conversationId: string, ack?: Ack<{ lastSeq: number }>) => void;
+  "leave:conversation": (conversationId: string) => void;
+  "message:send": (data: MessageSendPayload, ack?: Ack<{ message: MessagePayload }>) => void;
+  "message:typing:start": (conversationId: string) => void;
+  "message:typing:stop": (conversationId: string) => void;
+  "presence:update": (status: PresenceStatus) => void;
+  "message:reaction:add": (data: ReactionPayload, ack?: Ack) => void;
+  "message:reaction:remove": (data: ReactionPayload, ack?: Ack) => void;
+  "conversation:read": (conversationId: string, messageId?: string | null) => void;
+  // Messages missed after a sequence number, e.g. while reconnecting
+  "sync:since": (conversationId: string, sinceSeq: number, ack: Ack<SyncResult>) => void;
+  // Re-authenticate the connection with a rotated access token
+  "auth:refresh": (accessToken: string, ack?: Ack<{ expiresAt: string }>) => void;
+}
+
+// Error event payload. Events rejected by validation use code INVALID_PAYLOAD
+// and include the zod issues.
+export interface RealtimeError {
+  message: string;
+  code?: string;
+  event?: string;
+  details?: unknown;
+}
+
+export interface TypingEvent {
+  conversationId: string;
+  userId: string;
+  userName: string;
+  isTyping: boolean;
 }
 
-export type InterServerEvents = Record<string, unknown>;
-export type SocketData = { userId: string };
\ No newline at end of file
+export interface PresenceEvent {
+  userId: string;
+  status: PresenceStatus;
+  lastSeen?: string;
+}
+
+export interface MessageDeletedEvent {
+  messageId: string;
+  conversationId: string;
+  deletedAt: string;
+}
+
+export interface ConversationUpdatedEvent {
+  conversationId: string;
+  title: string | null;
+  avatarUrl: string | null;
+  updatedAt: Date;
+}
+
+export interface MemberRemovedEvent {
+  conversationId: string;
+  userId: string;
+  reason: "removed" | "left";
+}
+
+export interface ServerToClientEvents {
+  "message:new": (message: MessagePayload) => void;
+  "message:updated": (message: MessagePayload) => void;
+  "message:deleted": (data: MessageDeletedEvent) => void;
+  "message:reaction": (data: ReactionEvent) => void;
+  "message:pinned": (pin: PinnedMessage) => void;
+  "message:unpinned": (data: { conversationId: string; messageId: string; unpinnedBy: string }) => void;
+  "typing:user": (data: TypingEvent) => void;
+  "presence:user": (data: PresenceEvent) => void;
+  // Sent on connect: users who share a conversation or division
+  "presence:snapshot": (users: PresenceEvent[]) => void;
+  "conversation:read": (receipt: ReadReceipt) => void;
+  // Group settings and membership; also sent to members being added or removed
+  "conversation:updated": (data: ConversationUpdatedEvent) => void;
+  "conversation:member:added": (data: { conversationId: string; members: ConversationMember[] }) => void;
+  "conversation:member:removed": (data: MemberRemovedEvent) => void;
+  "conversation:member:updated": (data: { conversationId: string; member: ConversationMember }) => void;
+  // Sent to the member when they change a conversation's notification settings
+  "conversation:notifications:updated": (settings: NotificationSettings) => void;
+  // Live tallies after a vote, and final results when a poll closes
+  "poll:updated": (data: { conversationId: string; messageId: string; poll: PollSummary }) => void;
+  // Sent to the requester as an export progresses, completes or fails
+  "conversation:export:updated": (conversationExport: ConversationExport) => void;
+  // Sent to the author when a scheduled message was sent or failed
+  "scheduled:updated": (scheduled: ScheduledMessage) => void;
+  "notification:new": (notification: typeof notifications.$inferSelect) => void;
+  // Sent shortly before the connection's access token expires
+  "auth:expiring": (data: { expiresAt: string }) => void;
+  "error": (error: RealtimeError) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+
+// Payloads as received by the client: dates arrive as ISO strings
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends object
+    ? { [K in keyof T]: Serialized<T[K]> }
+    : T;
+
+export type ServerToClientWireEvents = {
+  [E in ServerEventName]: (...args: Serialized<Parameters<ServerToClientEvents[E]>>) => void;
+};
+
+export type InterServerEvents = Record<string, never>;
+
+export interface SocketData {
+  userId: string;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    role: string;
+  };
+  // Status reported by this connection
+  presence: PresenceStatus;
+  // Access token the connection is authenticated with
+  auth: {
+    tokenId: string | null; // jti, checked against the blacklist
+    expiresAt: number; // Epoch milliseconds
+    expiryNotified: boolean;
+  };
+}